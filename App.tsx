@@ -1,17 +1,55 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer, DefaultTheme } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { StatusBar } from 'expo-status-bar';
+import type { Quad } from './src/utils/perspective';
 import CameraScreen from './src/screens/CameraScreen';
 import PreviewScreen from './src/screens/PreviewScreen';
+import AdjustScreen from './src/screens/AdjustScreen';
+import LibraryScreen from './src/screens/LibraryScreen';
+import QuestionDetailScreen from './src/screens/QuestionDetailScreen';
+import SubjectsScreen from './src/screens/SubjectsScreen';
+import BatchReviewScreen from './src/screens/BatchReviewScreen';
+import DetectionSettingsScreen from './src/screens/DetectionSettingsScreen';
+import { loadStoredDetectionSettings } from './src/hooks/useDetectionSettings';
 
 export type RootStackParamList = {
   Camera: undefined;
+  // Full photo with a proposed question crop (photo pixels) to refine
+  Adjust: {
+    photo: { uri: string; width: number; height: number };
+    crop: { x: number; y: number; width: number; height: number } | null;
+    // Outline drawn in quad mode on the camera, in photo pixels
+    quad?: Quad | null;
+  };
   Preview: {
+    // The question image, already cropped and straightened
     photo: { uri: string; width: number; height: number };
+    // Where it was cut from the source photo (photo pixels), as chosen on Adjust
     crop: { x: number; y: number; width: number; height: number } | null;
+    // Text recognized on-device from the cropped question, if OCR ran
+    questionText?: string | null;
+    // Further questions cut from the same photo (multi-question capture)
+    moreQuestions?: Array<{
+      photo: { uri: string; width: number; height: number };
+      crop: { x: number; y: number; width: number; height: number } | null;
+      questionText?: string | null;
+    }>;
+    // Full photo the question was cut from, kept with the saved question
+    source?: {
+      width: number;
+      height: number;
+      capturedAt: number;
+    };
   };
+  Library: undefined;
+  QuestionDetail: { questionId: string };
+  Subjects: undefined;
+  // Captures queued in batch mode (held in the batch queue, not in params)
+  BatchReview: undefined;
+  // Detector chains for the camera and for imported photos
+  DetectionSettings: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -25,13 +63,24 @@ const theme = {
 };
 
 export default function App() {
+  // The camera's first frames should already use the saved detector chain
+  useEffect(() => {
+    loadStoredDetectionSettings();
+  }, []);
+
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <NavigationContainer theme={theme}>
         <StatusBar style="light" />
         <Stack.Navigator screenOptions={{ headerShown: false }}>
           <Stack.Screen name="Camera" component={CameraScreen} />
+          <Stack.Screen name="Adjust" component={AdjustScreen} />
           <Stack.Screen name="Preview" component={PreviewScreen} />
+          <Stack.Screen name="Library" component={LibraryScreen} />
+          <Stack.Screen name="QuestionDetail" component={QuestionDetailScreen} />
+          <Stack.Screen name="Subjects" component={SubjectsScreen} />
+          <Stack.Screen name="BatchReview" component={BatchReviewScreen} />
+          <Stack.Screen name="DetectionSettings" component={DetectionSettingsScreen} />
         </Stack.Navigator>
       </NavigationContainer>
     </GestureHandlerRootView>
@@ -0,0 +1,158 @@
+/**
+ * Detection benchmark
+ * Runs question detectors over a folder of labelled PNG images and reports
+ * precision/recall, IoU and the images each detector failed on
+ *
+ *   npm run benchmark:detection -- [folder] [--detector id]... [--iou 0.5]
+ *     [--width 200] [--min-confidence 0] [--out report.json]
+ *
+ * Without a folder it uses scripts/fixtures/detection; the JSON report goes
+ * to .benchmark/detection-report.json unless --out says otherwise
+ *
+ * Each image `name.png` needs a `name.json` next to it with its question
+ * boxes in image pixels: { "questions": [{ "x", "y", "width", "height" }] }
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { decodePng } from '../src/utils/png';
+import { toGrayscale, type GrayImage } from '../src/utils/pixelAnalysis';
+import { getDetector, listDetectors, type Detector } from '../src/utils/detectors';
+import {
+  DEFAULT_IOU_THRESHOLD,
+  chainDetector,
+  evaluateDetections,
+  formatFailures,
+  formatSummaryTable,
+  runDetectorOnImage,
+  summarizeEvaluations,
+  type BenchmarkReport,
+  type LabeledImage,
+} from '../src/utils/detectionEvaluation';
+
+type Options = {
+  folder: string;
+  detectorIds: string[];
+  iouThreshold: number;
+  analysisWidth: number;
+  minConfidence: number;
+  out: string;
+};
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    folder: path.join(__dirname, '..', '..', 'scripts', 'fixtures', 'detection'),
+    detectorIds: [],
+    iouThreshold: DEFAULT_IOU_THRESHOLD,
+    analysisWidth: 200, // same as photo import
+    minConfidence: 0,
+    out: path.join(__dirname, '..', 'detection-report.json'),
+  };
+  const number = (flag: string, value: string | undefined) => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isFinite(parsed)) {
+      throw new Error(`${flag} needs a number`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--detector':
+        if (!args[i + 1]) throw new Error('--detector needs an id');
+        options.detectorIds.push(args[++i]);
+        break;
+      case '--iou':
+        options.iouThreshold = number(arg, args[++i]);
+        break;
+      case '--width':
+        options.analysisWidth = number(arg, args[++i]);
+        break;
+      case '--min-confidence':
+        options.minConfidence = number(arg, args[++i]);
+        break;
+      case '--out':
+        if (!args[i + 1]) throw new Error('--out needs a file name');
+        options.out = args[++i];
+        break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        options.folder = arg;
+    }
+  }
+  return options;
+}
+
+// Registered detectors plus the app's two chains, or the ones asked for
+function resolveDetectors(ids: string[]): Detector[] {
+  const chains = [chainDetector('live'), chainDetector('import')];
+  if (ids.length === 0) {
+    return [...listDetectors(), ...chains];
+  }
+  return ids.map((id) => {
+    const detector = getDetector(id) || chains.find((chain) => chain.id === id);
+    if (!detector) {
+      const known = [...listDetectors(), ...chains].map((candidate) => candidate.id).join(', ');
+      throw new Error(`Unknown detector "${id}" (known: ${known})`);
+    }
+    return detector;
+  });
+}
+
+function loadFixtures(folder: string): Array<LabeledImage & { gray: GrayImage }> {
+  const names = fs.readdirSync(folder).filter((file) => file.toLowerCase().endsWith('.png')).sort();
+  return names.flatMap((file) => {
+    const labelFile = path.join(folder, file.replace(/\.png$/i, '.json'));
+    if (!fs.existsSync(labelFile)) {
+      console.warn(`⚠️ Skipping ${file}: no ${path.basename(labelFile)}`);
+      return [];
+    }
+    const labels = JSON.parse(fs.readFileSync(labelFile, 'utf8'));
+    if (!Array.isArray(labels.questions)) {
+      console.warn(`⚠️ Skipping ${file}: ${path.basename(labelFile)} has no "questions" array`);
+      return [];
+    }
+    const gray = toGrayscale(decodePng(new Uint8Array(fs.readFileSync(path.join(folder, file)))));
+    return [{ name: file, questions: labels.questions, gray }];
+  });
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const detectors = resolveDetectors(options.detectorIds);
+  const fixtures = loadFixtures(options.folder);
+  if (fixtures.length === 0) {
+    throw new Error(`No labelled PNG images in ${options.folder}`);
+  }
+  console.log(`📐 ${fixtures.length} images, ${detectors.length} detectors, IoU ≥ ${options.iouThreshold}, analysis width ${options.analysisWidth}px\n`);
+
+  const report: BenchmarkReport = {
+    createdAt: new Date().toISOString(),
+    iouThreshold: options.iouThreshold,
+    analysisWidth: options.analysisWidth,
+    minConfidence: options.minConfidence,
+    detectors: detectors.map((detector) => {
+      const images = fixtures.map((fixture) => {
+        const start = Date.now();
+        const detections = runDetectorOnImage(detector, fixture.gray, options.analysisWidth, options.minConfidence);
+        return evaluateDetections(fixture.name, fixture.questions, detections, options.iouThreshold, Date.now() - start);
+      });
+      return { summary: summarizeEvaluations(detector.id, images), images };
+    }),
+  };
+
+  console.log(formatSummaryTable(report.detectors.map((entry) => entry.summary)));
+  console.log('\nFailures');
+  report.detectors.forEach((entry) => console.log(formatFailures(entry.summary.detectorId, entry.images)));
+
+  fs.writeFileSync(options.out, JSON.stringify(report, null, 2));
+  console.log(`\n✅ Report written to ${options.out}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -1,14 +1,37 @@
-import React, { useEffect, useRef } from 'react';
-import { View, StyleSheet, Platform } from 'react-native';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Platform, type ViewStyle } from 'react-native';
 import { GestureDetector, Gesture } from 'react-native-gesture-handler';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
+  useAnimatedProps,
   withSpring,
   withTiming,
   withSequence,
   runOnJS,
+  cancelAnimation,
+  Easing,
 } from 'react-native-reanimated';
+import Svg, { Circle, Path, Polygon } from 'react-native-svg';
+import type { Quad } from '../utils/perspective';
+import { placeContent } from '../utils/geometry';
+import {
+  boxLimitsFor,
+  clampBox,
+  nudgeBox,
+  nudgeQuad,
+  nudgeQuadCorner,
+  resizeBox,
+  NUDGE_STEP,
+  NUDGE_STEP_LARGE,
+  type BoxEditMode,
+  type BoxHandle,
+  type MaxBoxSizes,
+  type MinBoxSizes,
+  type NudgeDirection,
+  type NudgeOptions,
+} from '../utils/boxEditing';
+import type { SnapEdge, SnapResult } from '../utils/textSnap';
 
 export type DetectionRect = {
   x: number;
@@ -17,6 +40,31 @@ export type DetectionRect = {
   height: number;
 };
 
+/**
+ * Four independently placed corners, for outlining tilted questions
+ */
+export type DetectionQuad = Quad;
+
+export type { BoxEditMode, MaxBoxSizes, MinBoxSizes } from '../utils/boxEditing';
+
+/**
+ * One state of a user-edited box, as kept in undo history
+ */
+export type BoxEdit = {
+  box: DetectionRect;
+  quad: DetectionQuad | null;
+};
+
+/**
+ * Imperative controls, for the on-screen nudge pad
+ */
+export type AutoDetectionBoxHandle = {
+  nudge: (direction: NudgeDirection, options?: NudgeOptions) => void;
+};
+
+type QuadCorner = 'topLeft' | 'topRight' | 'bottomRight' | 'bottomLeft';
+const QUAD_CORNERS: QuadCorner[] = ['topLeft', 'topRight', 'bottomRight', 'bottomLeft'];
+
 interface Props {
   detectedBox: DetectionRect | null;
   isLocked: boolean;
@@ -25,14 +73,119 @@ interface Props {
   containerHeight: number;
   onInteractionStart?: () => void;
   onInteractionEnd?: () => void;
-  onBoxChange?: (box: DetectionRect) => void;
+  // In quad mode the quad is passed along with its bounding box; `repeat` is
+  // set for the auto-repeats of a held arrow key, which extend the last edit
+  onBoxChange?: (box: DetectionRect, quad?: DetectionQuad, repeat?: boolean) => void;
+  editMode?: BoxEditMode;
+  detectedQuad?: DetectionQuad | null;
+  // Image shown magnified in the loupe, displayed aspect-fill over the container
+  loupeImage?: { uri: string; width: number; height: number } | null;
+  // Spring to new detections (live camera) or jump straight there (zoomed still image)
+  animateChanges?: boolean;
+  // Auto-capture: while locked, a ring empties over this many ms before the shutter fires
+  captureCountdownMs?: number | null;
+  // Tapping the ring cancels the pending auto-capture
+  onCancelCountdown?: () => void;
+  // Overrides DEFAULT_MIN_BOX_SIZE per edit mode
+  minBoxSize?: MinBoxSizes;
+  // Overrides DEFAULT_MAX_BOX_SIZE per edit mode
+  maxBoxSize?: MaxBoxSizes;
+  // Snap-to-text: moves the released edges to the nearest whitespace (in
+  // container coordinates); null when there is no image to snap to
+  snapBox?: (box: DetectionRect, edges: SnapEdge[]) => SnapResult | null;
+  snapEnabled?: boolean;
+  // Shows a Snap/Free switch next to the box while a handle is dragged
+  onSnapEnabledChange?: (enabled: boolean) => void;
+}
+
+const EDGE_HANDLE_LENGTH = 44;
+const EDGE_HANDLE_DEPTH = 30;
+const LOUPE_SIZE = 110;
+const LOUPE_ZOOM = 2.5;
+const LOUPE_OFFSET = 40;
+
+const COUNTDOWN_RING_SIZE = 56;
+const COUNTDOWN_RING_STROKE = 4;
+const COUNTDOWN_RING_CIRCUMFERENCE = Math.PI * (COUNTDOWN_RING_SIZE - COUNTDOWN_RING_STROKE);
+
+const AnimatedPath = Animated.createAnimatedComponent(Path);
+const AnimatedPolygon = Animated.createAnimatedComponent(Polygon);
+const AnimatedCircle = Animated.createAnimatedComponent(Circle);
+
+const SNAP_CHIP_WIDTH = 84;
+const SNAP_CHIP_HEIGHT = 30;
+
+// Edges each resize handle moves - the ones that get snapped on release
+const HANDLE_EDGES: Record<BoxHandle, SnapEdge[]> = {
+  TL: ['top', 'left'],
+  T: ['top'],
+  TR: ['top', 'right'],
+  R: ['right'],
+  BR: ['bottom', 'right'],
+  B: ['bottom'],
+  BL: ['bottom', 'left'],
+  L: ['left'],
+};
+
+// Snap indicator lines, drawn over the box border
+const SNAP_LINE_STYLES: Record<SnapEdge, ViewStyle> = {
+  top: { top: -2, left: 0, right: 0, height: 4 },
+  bottom: { bottom: -2, left: 0, right: 0, height: 4 },
+  left: { left: -2, top: 0, bottom: 0, width: 4 },
+  right: { right: -2, top: 0, bottom: 0, width: 4 },
+};
+
+const ARROW_KEYS: Record<string, NudgeDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// The parts of a DOM keyboard event used here (react-native-web passes it through)
+type WebKeyEvent = {
+  key: string;
+  shiftKey: boolean;
+  altKey: boolean;
+  repeat: boolean;
+  preventDefault: () => void;
+};
+
+function rectToDetectionQuad(box: DetectionRect): DetectionQuad {
+  return {
+    topLeft: { x: box.x, y: box.y },
+    topRight: { x: box.x + box.width, y: box.y },
+    bottomRight: { x: box.x + box.width, y: box.y + box.height },
+    bottomLeft: { x: box.x, y: box.y + box.height },
+  };
 }
 
-const MIN_BOX_SIZE = 80;
-const MAX_BOX_WIDTH_RATIO = 0.95;
-const MAX_BOX_HEIGHT_RATIO = 0.4;
+function quadBounds(quad: DetectionQuad): DetectionRect {
+  'worklet';
+  const xs = [quad.topLeft.x, quad.topRight.x, quad.bottomRight.x, quad.bottomLeft.x];
+  const ys = [quad.topLeft.y, quad.topRight.y, quad.bottomRight.y, quad.bottomLeft.y];
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
 
-export default function AutoDetectionBox({
+function isConvex(quad: DetectionQuad): boolean {
+  'worklet';
+  const points = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % 4];
+    const c = points[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+const AutoDetectionBox = forwardRef<AutoDetectionBoxHandle, Props>(function AutoDetectionBox({
   detectedBox,
   isLocked,
   isAutoDetecting,
@@ -41,7 +194,18 @@ export default function AutoDetectionBox({
   onInteractionStart,
   onInteractionEnd,
   onBoxChange,
-}: Props) {
+  editMode = 'rect',
+  detectedQuad,
+  loupeImage,
+  animateChanges = true,
+  captureCountdownMs,
+  onCancelCountdown,
+  minBoxSize,
+  maxBoxSize,
+  snapBox,
+  snapEnabled = true,
+  onSnapEnabledChange,
+}, ref) {
   const opacity = useSharedValue(0);
   const scale = useSharedValue(0.8);
   const boxLeft = useSharedValue(containerWidth * 0.1);
@@ -57,6 +221,21 @@ export default function AutoDetectionBox({
   
   const isInteracting = useRef(false);
 
+  // Snap-to-text: the switch shows while resizing, snapped edges flash after release
+  const [isResizing, setIsResizing] = useState(false);
+  const [snappedEdges, setSnappedEdges] = useState<SnapEdge[]>([]);
+  const snapFlash = useSharedValue(0);
+
+  // Quad mode: corner positions and the corner currently being dragged
+  const quad = useSharedValue<DetectionQuad>(rectToDetectionQuad({
+    x: containerWidth * 0.1,
+    y: containerHeight * 0.3,
+    width: containerWidth * 0.8,
+    height: 100,
+  }));
+  const startQuad = useSharedValue<DetectionQuad>(quad.value);
+  const activeCorner = useSharedValue(-1);
+
   // Animate box appearance
   useEffect(() => {
     if (detectedBox && isAutoDetecting) {
@@ -78,30 +257,56 @@ export default function AutoDetectionBox({
   // Update box position smoothly when detection changes (only when NOT interacting)
   useEffect(() => {
     if (detectedBox && isAutoDetecting && !isLocked && !isInteracting.current) {
+      if (!animateChanges) {
+        boxLeft.value = detectedBox.x;
+        boxTop.value = detectedBox.y;
+        boxWidth.value = detectedBox.width;
+        boxHeight.value = detectedBox.height;
+        return;
+      }
       // Smooth interpolation to new position with higher damping for stability
       boxLeft.value = withSpring(detectedBox.x, { damping: 25, stiffness: 80 });
       boxTop.value = withSpring(detectedBox.y, { damping: 25, stiffness: 80 });
       boxWidth.value = withSpring(detectedBox.width, { damping: 25, stiffness: 80 });
       boxHeight.value = withSpring(detectedBox.height, { damping: 25, stiffness: 80 });
     }
-  }, [detectedBox, isAutoDetecting, isLocked]);
+  }, [detectedBox, isAutoDetecting, isLocked, animateChanges]);
 
-  // Clamp function to keep box within bounds
-  const clampBox = (x: number, y: number, w: number, h: number) => {
-    'worklet';
-    const maxWidth = containerWidth * MAX_BOX_WIDTH_RATIO;
-    const maxHeight = containerHeight * MAX_BOX_HEIGHT_RATIO;
-    
-    // Clamp dimensions
-    const clampedW = Math.max(MIN_BOX_SIZE, Math.min(w, maxWidth));
-    const clampedH = Math.max(MIN_BOX_SIZE, Math.min(h, maxHeight));
-    
-    // Clamp position
-    const clampedX = Math.max(0, Math.min(x, containerWidth - clampedW));
-    const clampedY = Math.max(0, Math.min(y, containerHeight - clampedH));
-    
-    return { x: clampedX, y: clampedY, width: clampedW, height: clampedH };
-  };
+  // Auto-capture countdown: 0 = full ring, 1 = empty (shutter fires)
+  const countdown = useSharedValue(0);
+  const isCountingDown = isLocked && !!captureCountdownMs;
+  useEffect(() => {
+    if (!isCountingDown) {
+      cancelAnimation(countdown);
+      countdown.value = 0;
+      return;
+    }
+    countdown.value = 0;
+    countdown.value = withTiming(1, { duration: captureCountdownMs!, easing: Easing.linear });
+  }, [isCountingDown, captureCountdownMs]);
+
+  const countdownRingProps = useAnimatedProps(() => ({
+    strokeDashoffset: COUNTDOWN_RING_CIRCUMFERENCE * countdown.value,
+  }));
+
+  const cancelCountdownGesture = Gesture.Tap().onEnd(() => {
+    if (onCancelCountdown) {
+      runOnJS(onCancelCountdown)();
+    }
+  });
+
+  // Seed the quad from the detection (or the box) when not being dragged
+  useEffect(() => {
+    if (editMode !== 'quad' || isInteracting.current) return;
+    if (detectedQuad) {
+      quad.value = detectedQuad;
+    } else if (detectedBox) {
+      quad.value = rectToDetectionQuad(detectedBox);
+    }
+  }, [editMode, detectedQuad, detectedBox]);
+
+  // Size and position limits for every edit (drag, handle or nudge)
+  const limits = boxLimitsFor(editMode, { width: containerWidth, height: containerHeight }, minBoxSize, maxBoxSize);
 
   // Pan gesture for dragging the entire box
   const panGesture = Gesture.Pan()
@@ -114,10 +319,13 @@ export default function AutoDetectionBox({
       isInteracting.current = true;
     })
     .onUpdate((event) => {
-      const newX = startLeft.value + event.translationX;
-      const newY = startTop.value + event.translationY;
-      const clamped = clampBox(newX, newY, boxWidth.value, boxHeight.value);
-      
+      const clamped = clampBox({
+        x: startLeft.value + event.translationX,
+        y: startTop.value + event.translationY,
+        width: boxWidth.value,
+        height: boxHeight.value,
+      }, limits);
+
       boxLeft.value = clamped.x;
       boxTop.value = clamped.y;
     })
@@ -136,8 +344,8 @@ export default function AutoDetectionBox({
       isInteracting.current = false;
     });
 
-  // Create resize gestures for each corner
-  const createCornerGesture = (corner: 'TL' | 'TR' | 'BL' | 'BR') => {
+  // Resize gestures for each corner and side midpoint
+  const createResizeGesture = (handle: BoxHandle) => {
     return Gesture.Pan()
       .onStart(() => {
         startLeft.value = boxLeft.value;
@@ -147,63 +355,168 @@ export default function AutoDetectionBox({
         if (onInteractionStart) {
           runOnJS(onInteractionStart)();
         }
+        runOnJS(setIsResizing)(true);
         isInteracting.current = true;
       })
       .onUpdate((event) => {
-        let newX = startLeft.value;
-        let newY = startTop.value;
-        let newW = startWidth.value;
-        let newH = startHeight.value;
-
-        switch (corner) {
-          case 'TL':
-            newX = startLeft.value + event.translationX;
-            newY = startTop.value + event.translationY;
-            newW = startWidth.value - event.translationX;
-            newH = startHeight.value - event.translationY;
-            break;
-          case 'TR':
-            newY = startTop.value + event.translationY;
-            newW = startWidth.value + event.translationX;
-            newH = startHeight.value - event.translationY;
-            break;
-          case 'BL':
-            newX = startLeft.value + event.translationX;
-            newW = startWidth.value - event.translationX;
-            newH = startHeight.value + event.translationY;
-            break;
-          case 'BR':
-            newW = startWidth.value + event.translationX;
-            newH = startHeight.value + event.translationY;
-            break;
-        }
-
-        const clamped = clampBox(newX, newY, newW, newH);
+        const start = { x: startLeft.value, y: startTop.value, width: startWidth.value, height: startHeight.value };
+        const clamped = resizeBox(start, handle, event.translationX, event.translationY, limits);
         boxLeft.value = clamped.x;
         boxTop.value = clamped.y;
         boxWidth.value = clamped.width;
         boxHeight.value = clamped.height;
       })
       .onEnd(() => {
+        if (onInteractionEnd) {
+          runOnJS(onInteractionEnd)();
+        }
+        runOnJS(finishResize)({
+          x: boxLeft.value,
+          y: boxTop.value,
+          width: boxWidth.value,
+          height: boxHeight.value,
+        }, handle);
+        isInteracting.current = false;
+      });
+  };
+
+  // Released handle: snap its edges off any letters they cut, then report the box
+  const finishResize = (box: DetectionRect, handle: BoxHandle) => {
+    setIsResizing(false);
+    const snap = snapEnabled && snapBox ? snapBox(box, HANDLE_EDGES[handle]) : null;
+    let result = box;
+    if (snap && snap.snapped.length > 0) {
+      result = clampBox(snap.rect, limits);
+      boxLeft.value = withTiming(result.x, { duration: 120 });
+      boxTop.value = withTiming(result.y, { duration: 120 });
+      boxWidth.value = withTiming(result.width, { duration: 120 });
+      boxHeight.value = withTiming(result.height, { duration: 120 });
+      setSnappedEdges(snap.snapped);
+      snapFlash.value = withSequence(withTiming(1, { duration: 120 }), withTiming(0, { duration: 700 }));
+      console.log('🧲 Snapped box edges to text:', snap.snapped.join(', '));
+    }
+    if (onBoxChange) {
+      onBoxChange(result);
+    }
+  };
+
+  const toggleSnapGesture = Gesture.Tap().onEnd(() => {
+    if (onSnapEnabledChange) {
+      runOnJS(onSnapEnabledChange)(!snapEnabled);
+    }
+  });
+
+  // Quad mode: each corner moves on its own, as long as the shape stays convex
+  const isValidQuad = (next: DetectionQuad) => {
+    'worklet';
+    const bounds = quadBounds(next);
+    return isConvex(next) && bounds.width >= limits.minSize.width && bounds.height >= limits.minSize.height;
+  };
+
+  const createQuadCornerGesture = (corner: QuadCorner) => {
+    const cornerIndex = QUAD_CORNERS.indexOf(corner);
+    return Gesture.Pan()
+      .onStart(() => {
+        startQuad.value = quad.value;
+        activeCorner.value = cornerIndex;
+        if (onInteractionStart) {
+          runOnJS(onInteractionStart)();
+        }
+        isInteracting.current = true;
+      })
+      .onUpdate((event) => {
+        const start = startQuad.value[corner];
+        const next = {
+          ...quad.value,
+          [corner]: {
+            x: Math.max(0, Math.min(containerWidth, start.x + event.translationX)),
+            y: Math.max(0, Math.min(containerHeight, start.y + event.translationY)),
+          },
+        };
+        if (isValidQuad(next)) {
+          quad.value = next;
+        }
+      })
+      .onEnd(() => {
+        activeCorner.value = -1;
         if (onInteractionEnd) {
           runOnJS(onInteractionEnd)();
         }
         if (onBoxChange) {
-          runOnJS(onBoxChange)({
-            x: boxLeft.value,
-            y: boxTop.value,
-            width: boxWidth.value,
-            height: boxHeight.value,
-          });
+          runOnJS(onBoxChange)(quadBounds(quad.value), quad.value);
         }
         isInteracting.current = false;
       });
   };
 
-  const cornerTLGesture = createCornerGesture('TL');
-  const cornerTRGesture = createCornerGesture('TR');
-  const cornerBLGesture = createCornerGesture('BL');
-  const cornerBRGesture = createCornerGesture('BR');
+  const quadTLGesture = createQuadCornerGesture('topLeft');
+  const quadTRGesture = createQuadCornerGesture('topRight');
+  const quadBRGesture = createQuadCornerGesture('bottomRight');
+  const quadBLGesture = createQuadCornerGesture('bottomLeft');
+
+  const cornerTLGesture = createResizeGesture('TL');
+  const cornerTRGesture = createResizeGesture('TR');
+  const cornerBLGesture = createResizeGesture('BL');
+  const cornerBRGesture = createResizeGesture('BR');
+  const edgeTGesture = createResizeGesture('T');
+  const edgeRGesture = createResizeGesture('R');
+  const edgeBGesture = createResizeGesture('B');
+  const edgeLGesture = createResizeGesture('L');
+
+  // Pixel-level moves from the nudge pad or the keyboard, one edit per press
+  const nudge = (direction: NudgeDirection, options: NudgeOptions = {}, repeat = false) => {
+    if (editMode === 'quad') {
+      quad.value = nudgeQuad(quad.value, direction, options, limits.bounds);
+      if (onBoxChange) {
+        onBoxChange(quadBounds(quad.value), quad.value, repeat);
+      }
+    } else {
+      const current = { x: boxLeft.value, y: boxTop.value, width: boxWidth.value, height: boxHeight.value };
+      const next = nudgeBox(current, direction, options, limits);
+      boxLeft.value = next.x;
+      boxTop.value = next.y;
+      boxWidth.value = next.width;
+      boxHeight.value = next.height;
+      if (onBoxChange) {
+        onBoxChange(next, undefined, repeat);
+      }
+    }
+    // Like touching the box, nudging cancels a pending auto-capture
+    if (isCountingDown && onCancelCountdown) {
+      onCancelCountdown();
+    }
+  };
+
+  useImperativeHandle(ref, () => ({ nudge }));
+
+  // Web: arrow keys nudge the focused box - Shift for 10px steps, Alt to resize
+  const handleKeyDown = (event: WebKeyEvent) => {
+    const direction = ARROW_KEYS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+    nudge(direction, { step: event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP, resize: event.altKey }, event.repeat);
+  };
+  const keyboardProps = Platform.OS === 'web' ? { tabIndex: 0 as const, onKeyDown: handleKeyDown } : {};
+
+  // Web: arrow keys move the focused quad corner the same way
+  const handleQuadKeyDown = (corner: QuadCorner) => (event: WebKeyEvent) => {
+    const direction = ARROW_KEYS[event.key];
+    if (!direction) return;
+    event.preventDefault();
+    const step = event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    const next = nudgeQuadCorner(quad.value, corner, direction, { step }, limits.bounds);
+    if (!isValidQuad(next)) return;
+    quad.value = next;
+    if (onBoxChange) {
+      onBoxChange(quadBounds(next), next, event.repeat);
+    }
+    if (isCountingDown && onCancelCountdown) {
+      onCancelCountdown();
+    }
+  };
+  const quadKeyboardProps = (corner: QuadCorner) => (Platform.OS === 'web'
+    ? { tabIndex: 0 as const, onKeyDown: handleQuadKeyDown(corner) }
+    : {});
 
   const animatedStyle = useAnimatedStyle(() => ({
     opacity: opacity.value,
@@ -214,6 +527,18 @@ export default function AutoDetectionBox({
     height: boxHeight.value,
   }));
 
+  const snapFlashStyle = useAnimatedStyle(() => ({
+    opacity: snapFlash.value,
+  }));
+
+  // Snap switch above the box (below it near the top edge)
+  const snapChipStyle = useAnimatedStyle(() => {
+    let top = boxTop.value - SNAP_CHIP_HEIGHT - 16;
+    if (top < 0) top = boxTop.value + boxHeight.value + 16;
+    const left = boxLeft.value + boxWidth.value / 2 - SNAP_CHIP_WIDTH / 2;
+    return { top, left: Math.max(0, Math.min(containerWidth - SNAP_CHIP_WIDTH, left)) };
+  });
+
   const darkTopStyle = useAnimatedStyle(() => ({
     position: 'absolute',
     top: 0,
@@ -246,18 +571,191 @@ export default function AutoDetectionBox({
     bottom: 0,
   }));
 
+  const quadOutlineProps = useAnimatedProps(() => {
+    const q = quad.value;
+    return {
+      points: `${q.topLeft.x},${q.topLeft.y} ${q.topRight.x},${q.topRight.y} ${q.bottomRight.x},${q.bottomRight.y} ${q.bottomLeft.x},${q.bottomLeft.y}`,
+    };
+  });
+
+  // Full-screen rect with the quad cut out (even-odd fill)
+  const quadShadeProps = useAnimatedProps(() => {
+    const q = quad.value;
+    return {
+      d: `M0,0 H${containerWidth} V${containerHeight} H0 Z `
+        + `M${q.topLeft.x},${q.topLeft.y} L${q.topRight.x},${q.topRight.y} `
+        + `L${q.bottomRight.x},${q.bottomRight.y} L${q.bottomLeft.x},${q.bottomLeft.y} Z`,
+    };
+  });
+
+  // Handles are 50x50 touch areas centred on each corner
+  const quadHandleTLStyle = useAnimatedStyle(() => ({
+    left: quad.value.topLeft.x - 25,
+    top: quad.value.topLeft.y - 25,
+  }));
+  const quadHandleTRStyle = useAnimatedStyle(() => ({
+    left: quad.value.topRight.x - 25,
+    top: quad.value.topRight.y - 25,
+  }));
+  const quadHandleBRStyle = useAnimatedStyle(() => ({
+    left: quad.value.bottomRight.x - 25,
+    top: quad.value.bottomRight.y - 25,
+  }));
+  const quadHandleBLStyle = useAnimatedStyle(() => ({
+    left: quad.value.bottomLeft.x - 25,
+    top: quad.value.bottomLeft.y - 25,
+  }));
+
+  // Loupe sits above the dragged corner (below it near the top edge)
+  const loupeStyle = useAnimatedStyle(() => {
+    if (activeCorner.value < 0) {
+      return { opacity: 0, left: 0, top: 0 };
+    }
+    const point = quad.value[QUAD_CORNERS[activeCorner.value]];
+    let top = point.y - LOUPE_SIZE - LOUPE_OFFSET;
+    if (top < 0) top = point.y + LOUPE_OFFSET;
+    const left = Math.max(0, Math.min(containerWidth - LOUPE_SIZE, point.x - LOUPE_SIZE / 2));
+    return { opacity: 1, left, top };
+  });
+
+  // Same aspect-fill placement as the preview (worked out here - the style worklet can't call it)
+  const loupePlacement = loupeImage
+    ? placeContent(loupeImage, { width: containerWidth, height: containerHeight }, 'cover')
+    : null;
+  const loupeImageStyle = useAnimatedStyle(() => {
+    if (!loupeImage || !loupePlacement || activeCorner.value < 0) {
+      return { width: 0, height: 0, left: 0, top: 0 };
+    }
+    const point = quad.value[QUAD_CORNERS[activeCorner.value]];
+    // Zoomed around the corner
+    const { scale, offsetX, offsetY } = loupePlacement;
+    return {
+      width: loupeImage.width * scale * LOUPE_ZOOM,
+      height: loupeImage.height * scale * LOUPE_ZOOM,
+      left: LOUPE_SIZE / 2 - (point.x - offsetX) * LOUPE_ZOOM,
+      top: LOUPE_SIZE / 2 - (point.y - offsetY) * LOUPE_ZOOM,
+    };
+  });
+
   if (!isAutoDetecting || !detectedBox) {
     return null;
   }
 
+  // Tap-to-cancel ring, centred in the box
+  const countdownRing = isCountingDown && (
+    <GestureDetector gesture={cancelCountdownGesture}>
+      <View style={styles.countdownRing}>
+        <Svg width={COUNTDOWN_RING_SIZE} height={COUNTDOWN_RING_SIZE}>
+          <Circle
+            cx={COUNTDOWN_RING_SIZE / 2}
+            cy={COUNTDOWN_RING_SIZE / 2}
+            r={(COUNTDOWN_RING_SIZE - COUNTDOWN_RING_STROKE) / 2}
+            stroke="rgba(255, 255, 255, 0.3)"
+            strokeWidth={COUNTDOWN_RING_STROKE}
+            fill="rgba(0, 0, 0, 0.4)"
+          />
+          <AnimatedCircle
+            animatedProps={countdownRingProps}
+            cx={COUNTDOWN_RING_SIZE / 2}
+            cy={COUNTDOWN_RING_SIZE / 2}
+            r={(COUNTDOWN_RING_SIZE - COUNTDOWN_RING_STROKE) / 2}
+            stroke="#14b8a6"
+            strokeWidth={COUNTDOWN_RING_STROKE}
+            strokeDasharray={COUNTDOWN_RING_CIRCUMFERENCE}
+            strokeLinecap="round"
+            fill="transparent"
+            rotation={-90}
+            origin={`${COUNTDOWN_RING_SIZE / 2}, ${COUNTDOWN_RING_SIZE / 2}`}
+          />
+        </Svg>
+        <Text style={styles.countdownCancelText}>✕</Text>
+      </View>
+    </GestureDetector>
+  );
+
+  if (editMode === 'quad') {
+    return (
+      <>
+        <View style={styles.darkOverlay} pointerEvents="none">
+          <Svg width={containerWidth} height={containerHeight}>
+            <AnimatedPath animatedProps={quadShadeProps} fill="rgba(0, 0, 0, 0.6)" fillRule="evenodd" />
+            <AnimatedPolygon
+              animatedProps={quadOutlineProps}
+              fill="transparent"
+              stroke="#ffffff"
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+          </Svg>
+        </View>
+
+        {/* Draggable corner handles */}
+        <GestureDetector gesture={quadTLGesture}>
+          <Animated.View
+            style={[styles.quadHandle, quadHandleTLStyle]}
+            accessibilityLabel="Crop corner, top left"
+            {...quadKeyboardProps('topLeft')}
+          >
+            <View style={styles.quadHandleDot} />
+          </Animated.View>
+        </GestureDetector>
+        <GestureDetector gesture={quadTRGesture}>
+          <Animated.View
+            style={[styles.quadHandle, quadHandleTRStyle]}
+            accessibilityLabel="Crop corner, top right"
+            {...quadKeyboardProps('topRight')}
+          >
+            <View style={styles.quadHandleDot} />
+          </Animated.View>
+        </GestureDetector>
+        <GestureDetector gesture={quadBRGesture}>
+          <Animated.View
+            style={[styles.quadHandle, quadHandleBRStyle]}
+            accessibilityLabel="Crop corner, bottom right"
+            {...quadKeyboardProps('bottomRight')}
+          >
+            <View style={styles.quadHandleDot} />
+          </Animated.View>
+        </GestureDetector>
+        <GestureDetector gesture={quadBLGesture}>
+          <Animated.View
+            style={[styles.quadHandle, quadHandleBLStyle]}
+            accessibilityLabel="Crop corner, bottom left"
+            {...quadKeyboardProps('bottomLeft')}
+          >
+            <View style={styles.quadHandleDot} />
+          </Animated.View>
+        </GestureDetector>
+
+        {countdownRing && (
+          <View
+            style={[
+              styles.countdownAnchor,
+              { left: detectedBox.x, top: detectedBox.y, width: detectedBox.width, height: detectedBox.height },
+            ]}
+            pointerEvents="box-none"
+          >
+            {countdownRing}
+          </View>
+        )}
+
+        {/* Magnifier loupe for the dragged corner */}
+        {loupeImage && (
+          <Animated.View style={[styles.loupe, loupeStyle]} pointerEvents="none">
+            <Animated.Image source={{ uri: loupeImage.uri }} style={[styles.loupeImage, loupeImageStyle]} />
+            <View style={styles.loupeCrosshairH} />
+            <View style={styles.loupeCrosshairV} />
+          </Animated.View>
+        )}
+      </>
+    );
+  }
+
   return (
     <>
       {/* Dark overlay covering entire screen */}
       <View 
-        style={[
-          styles.darkOverlay,
-          Platform.OS === 'android' && { transform: [{ scaleY: -1 }] }
-        ]}
+        style={styles.darkOverlay}
         pointerEvents="none"
       >
         {/* Top dark area */}
@@ -275,11 +773,9 @@ export default function AutoDetectionBox({
 
       <GestureDetector gesture={panGesture}>
         <Animated.View 
-          style={[
-            styles.boxContainer, 
-            animatedStyle,
-            Platform.OS === 'android' && { transform: [{ scaleY: -1 }] }
-          ]}
+          style={[styles.boxContainer, animatedStyle]}
+          accessibilityLabel="Question crop box"
+          {...keyboardProps}
         >
           {/* White thin border around the box */}
           <View style={styles.outerBox} />
@@ -290,6 +786,37 @@ export default function AutoDetectionBox({
           <View style={[styles.corner, styles.cornerBL]} />
           <View style={[styles.corner, styles.cornerBR]} />
           
+          {/* Snap indicator: the edges that just snapped to whitespace */}
+          {snappedEdges.map((edge) => (
+            <Animated.View
+              key={edge}
+              style={[styles.snapLine, SNAP_LINE_STYLES[edge], snapFlashStyle]}
+              pointerEvents="none"
+            />
+          ))}
+
+          {/* Side midpoint handles - move a single edge */}
+          <GestureDetector gesture={edgeTGesture}>
+            <Animated.View style={[styles.edgeHandle, styles.edgeHandleT]}>
+              <View style={styles.edgeBarHorizontal} />
+            </Animated.View>
+          </GestureDetector>
+          <GestureDetector gesture={edgeRGesture}>
+            <Animated.View style={[styles.edgeHandle, styles.edgeHandleR]}>
+              <View style={styles.edgeBarVertical} />
+            </Animated.View>
+          </GestureDetector>
+          <GestureDetector gesture={edgeBGesture}>
+            <Animated.View style={[styles.edgeHandle, styles.edgeHandleB]}>
+              <View style={styles.edgeBarHorizontal} />
+            </Animated.View>
+          </GestureDetector>
+          <GestureDetector gesture={edgeLGesture}>
+            <Animated.View style={[styles.edgeHandle, styles.edgeHandleL]}>
+              <View style={styles.edgeBarVertical} />
+            </Animated.View>
+          </GestureDetector>
+
           {/* Invisible resize handles at corners for gesture detection */}
           <GestureDetector gesture={cornerTLGesture}>
             <Animated.View style={[styles.resizeHandle, styles.handleTL]} />
@@ -304,6 +831,13 @@ export default function AutoDetectionBox({
             <Animated.View style={[styles.resizeHandle, styles.handleBR]} />
           </GestureDetector>
           
+          {/* Auto-capture countdown */}
+          {countdownRing && (
+            <View style={styles.countdownAnchor} pointerEvents="box-none">
+              {countdownRing}
+            </View>
+          )}
+
           {/* Lock indicator when locked */}
           {isLocked && (
             <View style={styles.lockIndicator}>
@@ -312,9 +846,20 @@ export default function AutoDetectionBox({
           )}
         </Animated.View>
       </GestureDetector>
+
+      {/* Snap switch while resizing - tap with another finger to place this edge freely */}
+      {isResizing && snapBox && onSnapEnabledChange && (
+        <GestureDetector gesture={toggleSnapGesture}>
+          <Animated.View style={[styles.snapChip, snapEnabled && styles.snapChipActive, snapChipStyle]}>
+            <Text style={styles.snapChipText}>{snapEnabled ? '🧲 Snap' : 'Free'}</Text>
+          </Animated.View>
+        </GestureDetector>
+      )}
     </>
   );
-}
+});
+
+export default AutoDetectionBox;
 
 const styles = StyleSheet.create({
   darkOverlay: {
@@ -380,6 +925,28 @@ const styles = StyleSheet.create({
     borderTopWidth: 0,
     borderBottomRightRadius: 8,
   },
+  countdownAnchor: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 25,
+  },
+  countdownRing: {
+    width: COUNTDOWN_RING_SIZE,
+    height: COUNTDOWN_RING_SIZE,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countdownCancelText: {
+    position: 'absolute',
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
   lockIndicator: {
     position: 'absolute',
     top: -12,
@@ -426,5 +993,128 @@ const styles = StyleSheet.create({
     bottom: -20,
     right: -20,
   },
+  // Side handles - a short visible bar with a touch area around it
+  edgeHandle: {
+    position: 'absolute',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 18,
+  },
+  edgeHandleT: {
+    top: -EDGE_HANDLE_DEPTH / 2,
+    left: '50%',
+    marginLeft: -EDGE_HANDLE_LENGTH / 2,
+    width: EDGE_HANDLE_LENGTH,
+    height: EDGE_HANDLE_DEPTH,
+  },
+  edgeHandleB: {
+    bottom: -EDGE_HANDLE_DEPTH / 2,
+    left: '50%',
+    marginLeft: -EDGE_HANDLE_LENGTH / 2,
+    width: EDGE_HANDLE_LENGTH,
+    height: EDGE_HANDLE_DEPTH,
+  },
+  edgeHandleL: {
+    left: -EDGE_HANDLE_DEPTH / 2,
+    top: '50%',
+    marginTop: -EDGE_HANDLE_LENGTH / 2,
+    width: EDGE_HANDLE_DEPTH,
+    height: EDGE_HANDLE_LENGTH,
+  },
+  edgeHandleR: {
+    right: -EDGE_HANDLE_DEPTH / 2,
+    top: '50%',
+    marginTop: -EDGE_HANDLE_LENGTH / 2,
+    width: EDGE_HANDLE_DEPTH,
+    height: EDGE_HANDLE_LENGTH,
+  },
+  edgeBarHorizontal: {
+    width: 22,
+    height: 5,
+    borderRadius: 2.5,
+    backgroundColor: '#ffffff',
+  },
+  edgeBarVertical: {
+    width: 5,
+    height: 22,
+    borderRadius: 2.5,
+    backgroundColor: '#ffffff',
+  },
+  snapLine: {
+    position: 'absolute',
+    backgroundColor: '#14b8a6',
+    borderRadius: 2,
+    zIndex: 15,
+  },
+  snapChip: {
+    position: 'absolute',
+    width: SNAP_CHIP_WIDTH,
+    height: SNAP_CHIP_HEIGHT,
+    borderRadius: SNAP_CHIP_HEIGHT / 2,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 30,
+  },
+  snapChipActive: {
+    backgroundColor: '#14b8a6',
+  },
+  snapChipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  // Quad mode corner handles - visible dots with a large touch area
+  quadHandle: {
+    position: 'absolute',
+    width: 50,
+    height: 50,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  quadHandleDot: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2.5,
+    borderColor: '#ffffff',
+    backgroundColor: 'rgba(20, 184, 166, 0.9)',
+  },
+  loupe: {
+    position: 'absolute',
+    width: LOUPE_SIZE,
+    height: LOUPE_SIZE,
+    borderRadius: LOUPE_SIZE / 2,
+    borderWidth: 3,
+    borderColor: '#ffffff',
+    backgroundColor: '#000',
+    overflow: 'hidden',
+    zIndex: 30,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.4,
+    shadowRadius: 8,
+    elevation: 10,
+  },
+  loupeImage: {
+    position: 'absolute',
+  },
+  loupeCrosshairH: {
+    position: 'absolute',
+    top: LOUPE_SIZE / 2 - 1,
+    left: LOUPE_SIZE / 2 - 12,
+    width: 24,
+    height: 2,
+    backgroundColor: '#14b8a6',
+  },
+  loupeCrosshairV: {
+    position: 'absolute',
+    left: LOUPE_SIZE / 2 - 1,
+    top: LOUPE_SIZE / 2 - 12,
+    width: 2,
+    height: 24,
+    backgroundColor: '#14b8a6',
+  },
 });
 
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, type StyleProp, type ViewStyle } from 'react-native';
+import { NUDGE_STEP, NUDGE_STEP_LARGE, type NudgeDirection, type NudgeOptions } from '../utils/boxEditing';
+
+interface Props {
+  onNudge: (direction: NudgeDirection, options: NudgeOptions) => void;
+  // Offer the move/size switch (rect boxes only - quads just move)
+  canResize?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * On-screen arrows for pixel-level box moves; tap for 1px, long-press for 10px
+ */
+export default function NudgePad({ onNudge, canResize = true, style }: Props) {
+  const [resize, setResize] = useState(false);
+  const isResizing = canResize && resize;
+
+  const arrow = (direction: NudgeDirection, label: string) => (
+    <TouchableOpacity
+      style={styles.arrowButton}
+      onPress={() => onNudge(direction, { step: NUDGE_STEP, resize: isResizing })}
+      onLongPress={() => onNudge(direction, { step: NUDGE_STEP_LARGE, resize: isResizing })}
+      accessibilityLabel={`${isResizing ? 'Resize' : 'Move'} ${direction}`}
+    >
+      <Text style={styles.arrowText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.pad, style]}>
+      {arrow('up', '▲')}
+      <View style={styles.middleRow}>
+        {arrow('left', '◀')}
+        {canResize ? (
+          <TouchableOpacity
+            style={[styles.modeButton, isResizing && styles.modeButtonActive]}
+            onPress={() => setResize(!resize)}
+          >
+            <Text style={styles.modeText}>{isResizing ? 'Size' : 'Move'}</Text>
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.modeSpacer} />
+        )}
+        {arrow('right', '▶')}
+      </View>
+      {arrow('down', '▼')}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  middleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  arrowButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  modeButton: {
+    width: 44,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modeSpacer: {
+    width: 44,
+  },
+  modeButtonActive: {
+    backgroundColor: '#14b8a6',
+  },
+  modeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
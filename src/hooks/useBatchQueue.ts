@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react';
+import { getBatchQueue, type BatchItem } from '../utils/batchQueue';
+
+/**
+ * Items in the batch scanning queue, re-rendering on every change
+ */
+export function useBatchQueue(): BatchItem[] {
+  const queue = getBatchQueue();
+  return useSyncExternalStore(queue.subscribe, queue.items);
+}
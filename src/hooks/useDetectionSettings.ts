@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getDetectionSettings,
+  loadDetectionSettings,
+  setDetectionSettings,
+  type DetectionMode,
+  type DetectionModeSettings,
+  type DetectionSettings,
+} from '../utils/detectors';
+import { createPersistentDetectionSettingsStorage } from '../utils/questionStore';
+
+let loadPromise: Promise<DetectionSettings> | null = null;
+
+/**
+ * Restores the saved detection settings once per app run
+ */
+export function loadStoredDetectionSettings(): Promise<DetectionSettings> {
+  if (!loadPromise) {
+    const storage = createPersistentDetectionSettingsStorage();
+    loadPromise = storage ? loadDetectionSettings(storage) : Promise.resolve(getDetectionSettings());
+  }
+  return loadPromise;
+}
+
+/**
+ * The active detection settings, with setters that save them
+ */
+export function useDetectionSettings() {
+  const [settings, setSettings] = useState<DetectionSettings>(getDetectionSettings);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredDetectionSettings().then((loaded) => {
+      if (!cancelled) setSettings(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateMode = useCallback((mode: DetectionMode, changes: Partial<DetectionModeSettings>) => {
+    setDetectionSettings({ [mode]: { ...getDetectionSettings()[mode], ...changes } });
+    setSettings(getDetectionSettings());
+  }, []);
+
+  const reset = useCallback(() => {
+    setDetectionSettings(null);
+    setSettings(getDetectionSettings());
+  }, []);
+
+  return { settings, updateMode, reset };
+}
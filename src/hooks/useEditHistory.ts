@@ -0,0 +1,45 @@
+import { useCallback, useMemo, useState } from 'react';
+import {
+  createEditHistory,
+  DEFAULT_HISTORY_LIMIT,
+  pushEdit,
+  redoEdit,
+  undoEdit,
+} from '../utils/editHistory';
+
+export type EditHistoryControls<T> = {
+  present: T | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  // merge: fold into the latest step instead of adding one
+  push: (state: T | null, merge?: boolean) => void;
+  undo: () => void;
+  redo: () => void;
+  // Forgets every step, starting over from the given state
+  clear: (present?: T | null) => void;
+};
+
+/**
+ * Undo/redo history of edits (e.g. crop box states), at most `limit` steps back
+ */
+export function useEditHistory<T>(limit: number = DEFAULT_HISTORY_LIMIT): EditHistoryControls<T> {
+  const [history, setHistory] = useState(() => createEditHistory<T>());
+
+  const push = useCallback(
+    (state: T | null, merge?: boolean) => setHistory((current) => pushEdit(current, state, limit, merge)),
+    [limit]
+  );
+  const undo = useCallback(() => setHistory(undoEdit), []);
+  const redo = useCallback(() => setHistory(redoEdit), []);
+  const clear = useCallback((present: T | null = null) => setHistory(createEditHistory(present)), []);
+
+  return useMemo(() => ({
+    present: history.present,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    push,
+    undo,
+    redo,
+    clear,
+  }), [history, push, undo, redo, clear]);
+}
@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { getSubjectRepository, type Subject } from '../utils/subjects';
+
+/**
+ * Subjects from the active store, reloaded whenever the screen gains focus
+ * (so edits made on the Subjects screen show up when navigating back)
+ */
+export function useSubjects() {
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setSubjects(await getSubjectRepository().list());
+    } catch (error) {
+      console.error('❌ Failed to load subjects:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      reload();
+    }, [reload])
+  );
+
+  return { subjects, reload };
+}
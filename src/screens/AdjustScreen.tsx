@@ -0,0 +1,654 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, SafeAreaView, ActivityIndicator, Alert, type LayoutChangeEvent } from 'react-native';
+import { GestureDetector, Gesture } from 'react-native-gesture-handler';
+import Svg, { Polygon } from 'react-native-svg';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../App';
+import AutoDetectionBox, {
+  type AutoDetectionBoxHandle,
+  type BoxEdit,
+  type BoxEditMode,
+  type DetectionQuad,
+  type DetectionRect,
+  type MaxBoxSizes,
+  type MinBoxSizes,
+} from '../components/AutoDetectionBox';
+import NudgePad from '../components/NudgePad';
+import { useEditHistory } from '../hooks/useEditHistory';
+import {
+  cropQuestionImage,
+  detectQuestionRegions,
+  detectTiltedPage,
+  loadGrayscaleImage,
+  straightenQuestionImage,
+} from '../utils/imageUtils';
+import type { GrayImage } from '../utils/pixelAnalysis';
+import { snapRectToText, type SnapEdge } from '../utils/textSnap';
+import { recognizeQuestionText } from '../utils/ocr';
+import { placeContent, resizeRect, scaleRect } from '../utils/geometry';
+
+const MAX_ZOOM = 4;
+// Width of the grayscale copy used for snap-to-text
+const SNAP_ANALYSIS_WIDTH = 800;
+// The still is shown smaller than the live preview (and can be zoomed), so
+// boxes may get tighter than on the camera
+const MIN_BOX_SIZE: MinBoxSizes = {
+  rect: { width: 32, height: 16 },
+  quad: { width: 24, height: 16 },
+};
+// A screenshot or full-page question may take up the whole photo
+const MAX_BOX_SIZE: MaxBoxSizes = {
+  rect: { width: 1, height: 1 },
+  quad: { width: 1, height: 1 },
+};
+
+// One question of a multi-question page, in photo pixels
+type QuestionRegion = { box: DetectionRect; selected: boolean };
+
+function scaleQuad(quad: DetectionQuad, factor: number): DetectionQuad {
+  const scalePoint = (p: { x: number; y: number }) => ({ x: p.x * factor, y: p.y * factor });
+  return {
+    topLeft: scalePoint(quad.topLeft),
+    topRight: scalePoint(quad.topRight),
+    bottomRight: scalePoint(quad.bottomRight),
+    bottomLeft: scalePoint(quad.bottomLeft),
+  };
+}
+
+function quadPointsAttribute(quad: DetectionQuad): string {
+  return [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft].map((p) => `${p.x},${p.y}`).join(' ');
+}
+
+export default function AdjustScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute();
+  const { photo, crop, quad } = route.params as RootStackParamList['Adjust'];
+  const capturedAtRef = useRef(Date.now());
+  const [stageSize, setStageSize] = useState<{ width: number; height: number } | null>(null);
+  const [editMode, setEditMode] = useState<BoxEditMode>(quad ? 'quad' : 'rect');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  // The crop lives in photo pixels so it survives zooming. Edits go through
+  // undo history; an empty present is the proposed (detected) crop
+  const [proposed] = useState<BoxEdit>(() => ({
+    box: crop ?? {
+      x: photo.width * 0.1,
+      y: photo.height * 0.3,
+      width: photo.width * 0.8,
+      height: photo.height * 0.4,
+    },
+    quad: quad ?? null,
+  }));
+  const boxHistory = useEditHistory<BoxEdit>();
+  const boxRef = useRef<AutoDetectionBoxHandle>(null);
+
+  // Snap-to-text works on a grayscale copy of the photo
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [snapImage, setSnapImage] = useState<GrayImage | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    loadGrayscaleImage(photo.uri, SNAP_ANALYSIS_WIDTH)
+      .then((gray) => {
+        if (!cancelled) setSnapImage(gray);
+      })
+      .catch((error) => console.error('❌ Failed to load photo for snapping:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [photo.uri]);
+  const { box: cropBox, quad: cropQuad } = boxHistory.present ?? proposed;
+
+  // A page shot at an angle is outlined on the photo; rect crops are
+  // flattened along it unless the user turns that off
+  const [pageQuad, setPageQuad] = useState<DetectionQuad | null>(null);
+  const [flattenPage, setFlattenPage] = useState(true);
+  useEffect(() => {
+    let cancelled = false;
+    detectTiltedPage(photo.uri, photo.width, photo.height)
+      .then((found) => {
+        if (!cancelled) setPageQuad(found);
+      })
+      .catch((error) => console.error('❌ Failed to find the page outline:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [photo.uri, photo.width, photo.height]);
+  const flattenQuad = editMode === 'rect' && flattenPage ? pageQuad : null;
+
+  // Multi-question mode: every region is kept, the active one is edited with
+  // the box editor. Region edits have their own undo history; an empty
+  // present means single-question mode
+  const regionHistory = useEditHistory<QuestionRegion[]>();
+  const [detectedRegions, setDetectedRegions] = useState<QuestionRegion[] | null>(null);
+  const regions = regionHistory.present;
+  const [activeRegion, setActiveRegion] = useState(0);
+  const editHistory = regions ? regionHistory : boxHistory;
+  const editedBox = regions ? regions[activeRegion].box : cropBox;
+
+  // Pinch-zoom and two-finger pan of the photo
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const gestureStartRef = useRef({ zoom: 1, pan: { x: 0, y: 0 } });
+
+  const onStageLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setStageSize({ width, height });
+  }, []);
+
+  // The photo is shown aspect-fit (times the zoom), so display <-> photo is a single scale
+  const display = useMemo(() => {
+    if (!stageSize) return null;
+    const scale = placeContent(photo, stageSize, 'contain').scale * zoom;
+    const width = photo.width * scale;
+    const height = photo.height * scale;
+    // Don't let the photo be panned past its edges
+    const maxPanX = Math.max(0, (width - stageSize.width) / 2);
+    const maxPanY = Math.max(0, (height - stageSize.height) / 2);
+    const panX = Math.max(-maxPanX, Math.min(maxPanX, pan.x));
+    const panY = Math.max(-maxPanY, Math.min(maxPanY, pan.y));
+    return {
+      scale,
+      width,
+      height,
+      pan: { x: panX, y: panY },
+      left: (stageSize.width - width) / 2 + panX,
+      top: (stageSize.height - height) / 2 + panY,
+    };
+  }, [stageSize, photo.width, photo.height, zoom, pan]);
+
+  const displayBox = useMemo(() => display && scaleRect(editedBox, display.scale), [display, editedBox]);
+  const displayQuad = useMemo(
+    () => (display && cropQuad ? scaleQuad(cropQuad, display.scale) : null),
+    [display, cropQuad]
+  );
+
+  const handleBoxChange = (box: DetectionRect, changedQuad?: DetectionQuad, repeat?: boolean) => {
+    if (!display) return;
+    const photoBox = scaleRect(box, 1 / display.scale);
+    if (regions) {
+      regionHistory.push(
+        regions.map((region, index) => (index === activeRegion ? { ...region, box: photoBox } : region)),
+        repeat
+      );
+      return;
+    }
+    boxHistory.push({ box: photoBox, quad: changedQuad ? scaleQuad(changedQuad, 1 / display.scale) : null }, repeat);
+  };
+
+  // Resize handles snap their edges to whitespace in the photo
+  const snapBoxToText = (box: DetectionRect, edges: SnapEdge[]) => {
+    if (!display || !snapImage) return null;
+    const imageBox = resizeRect(scaleRect(box, 1 / display.scale), photo, snapImage);
+    const result = snapRectToText(snapImage, imageBox, edges);
+    return { rect: scaleRect(resizeRect(result.rect, snapImage, photo), display.scale), snapped: result.snapped };
+  };
+
+  const toggleMultiMode = async () => {
+    if (regions) {
+      // Back to one question - keep editing whichever region was active
+      boxHistory.push({ box: regions[activeRegion].box, quad: null });
+      regionHistory.clear();
+      return;
+    }
+    setIsDetecting(true);
+    try {
+      const found = await detectQuestionRegions(photo.uri, photo.width, photo.height);
+      if (found.length === 0) {
+        Alert.alert('No questions found', 'Could not find separate questions on this photo.');
+        return;
+      }
+      const detected = found.map((box) => ({ box, selected: true }));
+      setEditMode('rect');
+      setDetectedRegions(detected);
+      regionHistory.clear(detected);
+      setActiveRegion(0);
+    } catch (e: any) {
+      console.error('❌ Failed to find questions:', e);
+      Alert.alert('Error', 'Failed to find questions: ' + (e.message || 'Unknown error'));
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const toggleRegionSelected = (index: number) => {
+    if (!regions) return;
+    regionHistory.push(regions.map((region, i) => (i === index ? { ...region, selected: !region.selected } : region)));
+  };
+
+  const resetToDetected = () => {
+    if (regions) {
+      regionHistory.push(detectedRegions);
+    } else {
+      boxHistory.push(null);
+    }
+  };
+  const isDetectedCrop = regions ? regions === detectedRegions : !boxHistory.present;
+
+  const pinchGesture = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      gestureStartRef.current = { zoom, pan: display?.pan ?? pan };
+    })
+    .onUpdate((event) => {
+      setZoom(Math.max(1, Math.min(MAX_ZOOM, gestureStartRef.current.zoom * event.scale)));
+    });
+  const panGesture = Gesture.Pan()
+    .runOnJS(true)
+    .minPointers(2)
+    .onStart(() => {
+      gestureStartRef.current = { zoom, pan: display?.pan ?? pan };
+    })
+    .onUpdate((event) => {
+      const start = gestureStartRef.current.pan;
+      setPan({ x: start.x + event.translationX, y: start.y + event.translationY });
+    });
+  const resetZoomGesture = Gesture.Tap()
+    .runOnJS(true)
+    .numberOfTaps(2)
+    .onEnd(() => {
+      setZoom(1);
+      setPan({ x: 0, y: 0 });
+    });
+  const stageGesture = Gesture.Race(resetZoomGesture, Gesture.Simultaneous(pinchGesture, panGesture));
+
+  const cropAndRead = async (box: DetectionRect, outline: DetectionQuad | null) => {
+    const cropRect = {
+      originX: Math.round(Math.max(0, box.x)),
+      originY: Math.round(Math.max(0, box.y)),
+      width: Math.round(Math.min(box.width, photo.width - box.x)),
+      height: Math.round(Math.min(box.height, photo.height - box.y)),
+    };
+    console.log('✂️ Adjusted crop rect:', cropRect);
+
+    const croppedUri = await cropQuestionImage(photo.uri, photo.width, photo.height, cropRect, outline, flattenQuad);
+    // Upright and level before OCR - recognition copes badly with tilted text
+    const straightened = await straightenQuestionImage(croppedUri, cropRect.width, cropRect.height);
+    const ocrResult = await recognizeQuestionText(straightened.uri);
+    return {
+      photo: { uri: straightened.uri, width: straightened.width, height: straightened.height },
+      crop: { x: cropRect.originX, y: cropRect.originY, width: cropRect.width, height: cropRect.height },
+      questionText: ocrResult?.text ?? null,
+    };
+  };
+
+  const onConfirm = async () => {
+    const selectedBoxes = regions
+      ? regions.filter((region) => region.selected).map((region) => region.box)
+      : [cropBox];
+    if (selectedBoxes.length === 0) {
+      Alert.alert('No questions selected', 'Tap a question number to include it.');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const questions = [];
+      for (const box of selectedBoxes) {
+        questions.push(await cropAndRead(box, !regions && editMode === 'quad' ? cropQuad : null));
+      }
+      const [first, ...rest] = questions;
+
+      navigation.navigate('Preview', {
+        ...first,
+        moreQuestions: rest.length > 0 ? rest : undefined,
+        source: {
+          width: photo.width,
+          height: photo.height,
+          capturedAt: capturedAtRef.current,
+        },
+      });
+    } catch (e: any) {
+      console.error('❌ Failed to crop image:', e);
+      Alert.alert('Error', 'Failed to crop image: ' + (e.message || 'Unknown error'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={styles.backIcon}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Adjust Crop</Text>
+          <View style={styles.headerActions}>
+            {!regions && (
+              <TouchableOpacity
+                onPress={() => {
+                  setEditMode(editMode === 'rect' ? 'quad' : 'rect');
+                  if (cropQuad) boxHistory.push({ box: cropBox, quad: null });
+                }}
+                style={styles.modeButton}
+              >
+                <Text style={styles.modeButtonText}>{editMode === 'quad' ? '⬠ Quad' : '▭ Rect'}</Text>
+              </TouchableOpacity>
+            )}
+            {editMode === 'rect' && pageQuad && (
+              <TouchableOpacity
+                onPress={() => setFlattenPage(!flattenPage)}
+                style={[styles.modeButton, flattenPage && styles.modeButtonActive]}
+              >
+                <Text style={styles.modeButtonText}>📄 Flatten</Text>
+              </TouchableOpacity>
+            )}
+            {editMode === 'rect' && (
+              <TouchableOpacity
+                onPress={() => setSnapEnabled(!snapEnabled)}
+                style={[styles.modeButton, snapEnabled && styles.modeButtonActive]}
+              >
+                <Text style={styles.modeButtonText}>🧲 Snap</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={toggleMultiMode}
+              disabled={isDetecting}
+              style={[styles.modeButton, regions && styles.modeButtonActive]}
+            >
+              <Text style={styles.modeButtonText}>☰ Multi</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Photo with the same box editor as the camera - pinch to zoom, double-tap to reset */}
+        <GestureDetector gesture={stageGesture}>
+          <View style={styles.stage} onLayout={onStageLayout}>
+            {display && (
+              <View
+                style={[styles.imageFrame, { left: display.left, top: display.top, width: display.width, height: display.height }]}
+              >
+                <Image source={{ uri: photo.uri }} style={{ width: display.width, height: display.height }} />
+                {/* The page outline the crop will be flattened along */}
+                {flattenQuad && (
+                  <Svg pointerEvents="none" width={display.width} height={display.height} style={styles.pageOutline}>
+                    <Polygon
+                      points={quadPointsAttribute(scaleQuad(flattenQuad, display.scale))}
+                      fill="transparent"
+                      stroke="#14b8a6"
+                      strokeWidth={2}
+                      strokeDasharray="6 4"
+                    />
+                  </Svg>
+                )}
+                <AutoDetectionBox
+                  ref={boxRef}
+                  detectedBox={displayBox}
+                  detectedQuad={editMode === 'quad' ? displayQuad : null}
+                  isLocked={false}
+                  isAutoDetecting={true}
+                  containerWidth={display.width}
+                  containerHeight={display.height}
+                  onBoxChange={handleBoxChange}
+                  editMode={editMode}
+                  loupeImage={photo}
+                  animateChanges={false}
+                  minBoxSize={MIN_BOX_SIZE}
+                  maxBoxSize={MAX_BOX_SIZE}
+                  snapBox={snapBoxToText}
+                  snapEnabled={snapEnabled}
+                  onSnapEnabledChange={setSnapEnabled}
+                />
+                {/* Other questions - tap one to edit it, tap a number to include/exclude it */}
+                {regions?.map((region, index) => {
+                  const rect = scaleRect(region.box, display.scale);
+                  return (
+                    <React.Fragment key={index}>
+                      {index !== activeRegion && (
+                        <TouchableOpacity
+                          onPress={() => setActiveRegion(index)}
+                          style={[
+                            styles.regionOutline,
+                            { left: rect.x, top: rect.y, width: rect.width, height: rect.height },
+                            !region.selected && styles.regionOutlineExcluded,
+                          ]}
+                        />
+                      )}
+                      <TouchableOpacity
+                        onPress={() => toggleRegionSelected(index)}
+                        style={[
+                          styles.regionBadge,
+                          { left: rect.x - 12, top: rect.y - 12 },
+                          !region.selected && styles.regionBadgeExcluded,
+                        ]}
+                      >
+                        <Text style={styles.regionBadgeText}>{region.selected ? index + 1 : '✕'}</Text>
+                      </TouchableOpacity>
+                    </React.Fragment>
+                  );
+                })}
+              </View>
+            )}
+            {display && (
+              <NudgePad
+                style={styles.nudgePad}
+                onNudge={(direction, options) => boxRef.current?.nudge(direction, options)}
+                canResize={editMode === 'rect'}
+              />
+            )}
+          </View>
+        </GestureDetector>
+
+        {/* Undo / redo for the crop box, or for the question regions in multi mode */}
+        <View style={styles.editBar}>
+          <TouchableOpacity
+            onPress={editHistory.undo}
+            disabled={!editHistory.canUndo}
+            style={[styles.editButton, !editHistory.canUndo && styles.editButtonDisabled]}
+          >
+            <Text style={styles.editButtonText}>↶ Undo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={editHistory.redo}
+            disabled={!editHistory.canRedo}
+            style={[styles.editButton, !editHistory.canRedo && styles.editButtonDisabled]}
+          >
+            <Text style={styles.editButtonText}>↷ Redo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={resetToDetected}
+            disabled={isDetectedCrop}
+            style={[styles.editButton, isDetectedCrop && styles.editButtonDisabled]}
+          >
+            <Text style={styles.editButtonText}>Reset to detected</Text>
+          </TouchableOpacity>
+        </View>
+
+        {regions && (
+          <Text style={styles.regionSummary}>
+            {regions.filter((region) => region.selected).length} of {regions.length} questions selected
+          </Text>
+        )}
+
+        {/* Action buttons */}
+        <View style={styles.buttonsContainer}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={[styles.button, styles.cancelButton]}>
+            <Text style={styles.buttonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={onConfirm}
+            disabled={isProcessing}
+            style={[styles.button, styles.confirmButton, isProcessing && { opacity: 0.5 }]}
+          >
+            <Text style={styles.buttonText}>
+              {regions ? `Crop ${regions.filter((region) => region.selected).length}` : 'Crop'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {(isProcessing || isDetecting) && (
+          <View style={styles.processingOverlay}>
+            <ActivityIndicator size="large" color="#fff" />
+            <Text style={styles.processingText}>
+              {isDetecting ? 'Finding questions...' : regions ? 'Reading questions...' : 'Reading question...'}
+            </Text>
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingTop: 8,
+    paddingHorizontal: 16,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backIcon: {
+    fontSize: 24,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeButton: {
+    paddingHorizontal: 12,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#14b8a6',
+  },
+  modeButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stage: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  imageFrame: {
+    position: 'absolute',
+  },
+  pageOutline: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+  },
+  nudgePad: {
+    position: 'absolute',
+    right: 12,
+    bottom: 12,
+  },
+  regionOutline: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#fff',
+    borderRadius: 4,
+  },
+  regionOutlineExcluded: {
+    borderColor: 'rgba(255, 255, 255, 0.35)',
+  },
+  regionBadge: {
+    position: 'absolute',
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#14b8a6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  regionBadgeExcluded: {
+    backgroundColor: '#6b7280',
+  },
+  regionBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  editBar: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    paddingTop: 12,
+  },
+  editButton: {
+    paddingHorizontal: 12,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+  },
+  editButtonDisabled: {
+    opacity: 0.4,
+  },
+  editButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  regionSummary: {
+    color: '#9ca3af',
+    fontSize: 13,
+    textAlign: 'center',
+    paddingTop: 12,
+  },
+  buttonsContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    paddingBottom: 20,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#374151',
+  },
+  confirmButton: {
+    backgroundColor: '#14b8a6',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+  processingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  processingText: {
+    color: '#fff',
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,357 @@
+import React, { useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, SafeAreaView, ScrollView, Alert, ActivityIndicator, Platform, ToastAndroid } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../App';
+import { getBatchQueue, saveBatchItems } from '../utils/batchQueue';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+import { useSubjects } from '../hooks/useSubjects';
+
+export default function BatchReviewScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const items = useBatchQueue();
+  const { subjects } = useSubjects();
+  // Items the subject bar applies to; none selected means all of them
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeSubjects = subjects.filter((subject) => !subject.archived);
+  const subjectColors = Object.fromEntries(subjects.map((subject) => [subject.name, subject.color]));
+  const selection = selectedIds.filter((id) => items.some((item) => item.id === id));
+  const unfiled = items.filter((item) => !item.subject).length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selection.includes(id) ? selection.filter((other) => other !== id) : [...selection, id]);
+  };
+
+  const onAssignSubject = (subject: string) => {
+    const targets = selection.length > 0 ? selection : items.map((item) => item.id);
+    getBatchQueue().assignSubject(targets, subject);
+    setSelectedIds([]);
+  };
+
+  const onDiscardAll = () => {
+    const discard = () => {
+      getBatchQueue().clear();
+      navigation.goBack();
+    };
+    if (Platform.OS === 'web') {
+      if (window.confirm(`Discard all ${items.length} captures?`)) discard();
+      return;
+    }
+    Alert.alert('Discard batch', `Discard all ${items.length} captures?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: discard },
+    ]);
+  };
+
+  const onSave = async () => {
+    if (unfiled > 0) {
+      Alert.alert('Pick a subject', `${unfiled} of ${items.length} questions have no subject yet.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { saved, skipped } = await saveBatchItems(getBatchQueue());
+      console.log('💾 Saved batch of', saved.length, 'questions,', skipped, 'skipped');
+      if (skipped > 0) {
+        // Left in the queue - stay here so they can still be filed
+        Alert.alert(
+          'Some questions not saved',
+          `Saved ${saved.length}. ${skipped} question${skipped === 1 ? ' has' : 's have'} no subject and ${skipped === 1 ? 'is' : 'are'} still in the batch.`
+        );
+        return;
+      }
+      if (Platform.OS === 'android') {
+        ToastAndroid.show(`${saved.length} questions saved!`, ToastAndroid.SHORT);
+      }
+      navigation.navigate('Library');
+    } catch (error: any) {
+      console.error('❌ Failed to save batch:', error);
+      Alert.alert('Error', 'Failed to save questions: ' + (error?.message || 'Unknown error'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={styles.backIcon}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Review Batch ({items.length})</Text>
+          <TouchableOpacity onPress={onDiscardAll} disabled={items.length === 0} style={styles.discardAllButton}>
+            <Text style={styles.discardAllText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Subject bar - applies to the selected items, or to all of them */}
+        <Text style={styles.label}>
+          {selection.length > 0 ? `Set subject for ${selection.length} selected` : 'Set subject for all'}
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.subjectBar}>
+          {activeSubjects.map((subject) => (
+            <TouchableOpacity
+              key={subject.id}
+              style={styles.subjectChip}
+              onPress={() => onAssignSubject(subject.name)}
+              disabled={items.length === 0}
+            >
+              <View style={[styles.subjectDot, { backgroundColor: subject.color }]} />
+              <Text style={styles.subjectChipText}>{subject.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {items.length === 0 && (
+            <Text style={styles.emptyText}>No captures queued. Turn on 📑 Batch on the camera to scan several questions in a row.</Text>
+          )}
+          {items.map((item, index) => {
+            const selected = selection.includes(item.id);
+            return (
+              <TouchableOpacity
+                key={item.id}
+                onPress={() => toggleSelected(item.id)}
+                style={[styles.row, selected && styles.rowSelected]}
+                activeOpacity={0.8}
+              >
+                <Text style={styles.position}>{index + 1}</Text>
+                <Image source={{ uri: item.photo.uri }} style={styles.thumbnail} resizeMode="cover" />
+                <View style={styles.rowText}>
+                  <Text style={styles.questionText} numberOfLines={2}>
+                    {item.questionText === undefined ? 'Reading text...' : item.questionText || 'No text recognized'}
+                  </Text>
+                  <View style={styles.subjectLine}>
+                    {item.subject && (
+                      <View style={[styles.subjectDot, { backgroundColor: subjectColors[item.subject] ?? '#64748b' }]} />
+                    )}
+                    <Text style={[styles.subjectName, !item.subject && styles.subjectMissing]}>
+                      {item.subject ?? 'No subject'}
+                    </Text>
+                  </View>
+                </View>
+                <View style={styles.rowActions}>
+                  <TouchableOpacity
+                    onPress={() => getBatchQueue().move(index, index - 1)}
+                    disabled={index === 0}
+                    style={[styles.iconButton, index === 0 && styles.iconButtonDisabled]}
+                  >
+                    <Text style={styles.iconButtonText}>↑</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => getBatchQueue().move(index, index + 1)}
+                    disabled={index === items.length - 1}
+                    style={[styles.iconButton, index === items.length - 1 && styles.iconButtonDisabled]}
+                  >
+                    <Text style={styles.iconButtonText}>↓</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => getBatchQueue().remove(item.id)} style={styles.iconButton}>
+                    <Text style={styles.iconButtonText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        {/* Action buttons */}
+        <View style={styles.buttonsContainer}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={[styles.button, styles.scanMoreButton]}>
+            <Text style={styles.buttonText}>Scan more</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={onSave}
+            disabled={isSaving || items.length === 0}
+            style={[styles.button, styles.saveButton, (isSaving || items.length === 0) && { opacity: 0.5 }]}
+          >
+            {isSaving ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Save {items.length}</Text>}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingTop: 8,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backIcon: {
+    fontSize: 24,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  discardAllButton: {
+    paddingHorizontal: 12,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+  },
+  discardAllText: {
+    color: '#f87171',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  subjectBar: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  subjectChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 14,
+    backgroundColor: '#2a2a2a',
+  },
+  subjectDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  subjectChipText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  list: {
+    paddingBottom: 16,
+  },
+  emptyText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 10,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  rowSelected: {
+    borderColor: '#14b8a6',
+    backgroundColor: 'rgba(20, 184, 166, 0.15)',
+  },
+  position: {
+    color: '#9ca3af',
+    fontSize: 13,
+    fontWeight: '700',
+    width: 20,
+    textAlign: 'center',
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 10,
+    backgroundColor: '#333',
+    marginHorizontal: 8,
+  },
+  rowText: {
+    flex: 1,
+  },
+  questionText: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  subjectLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  subjectName: {
+    color: '#9ca3af',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  subjectMissing: {
+    color: '#f59e0b',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 4,
+    marginLeft: 6,
+  },
+  iconButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconButtonDisabled: {
+    opacity: 0.3,
+  },
+  iconButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  buttonsContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 16,
+    paddingBottom: 20,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  scanMoreButton: {
+    backgroundColor: '#374151',
+  },
+  saveButton: {
+    backgroundColor: '#14b8a6',
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
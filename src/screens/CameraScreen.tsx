@@ -1,18 +1,63 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, Dimensions, ActivityIndicator, Platform, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, Dimensions, ActivityIndicator, Platform, Alert, Image, ScrollView } from 'react-native';
 import { Camera, CameraType, AutoFocus } from 'expo-camera';
-import * as ImageManipulator from 'expo-image-manipulator';
-import { useNavigation } from '@react-navigation/native';
+import { useIsFocused, useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../App';
-import { detectTextArea, analyzeTextDensity } from '../utils/imageUtils';
-import AutoDetectionBox from '../components/AutoDetectionBox';
-import { detectQuestionAreaFast, smoothBoxTransition, mapPreviewBoxToImageCoords, type DetectionRect } from '../utils/realtimeDetection';
+import {
+  loadGrayscaleImage,
+  cropQuestionImage,
+  deleteTemporaryImage,
+  normalizeImageOrientation,
+  straightenQuestionImage,
+} from '../utils/imageUtils';
+import { laplacianVariance, type GrayImage } from '../utils/pixelAnalysis';
+import { snapRectToText, type SnapEdge } from '../utils/textSnap';
+import { detectQuestions } from '../utils/detectors';
+import { recognizeQuestionText } from '../utils/ocr';
+import { getBatchQueue } from '../utils/batchQueue';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+import AutoDetectionBox, {
+  type AutoDetectionBoxHandle,
+  type BoxEdit,
+  type BoxEditMode,
+  type DetectionQuad,
+} from '../components/AutoDetectionBox';
+import NudgePad from '../components/NudgePad';
+import { useEditHistory } from '../hooks/useEditHistory';
+import { importImageFile, pickImageFromLibrary, proposeQuestionCrop, type ImportedImage } from '../utils/imageImport';
+import {
+  detectQuestionAreaFast,
+  smoothBoxTransition,
+  createStabilityTracker,
+  DEFAULT_AUTO_CAPTURE_CONFIG,
+  type DetectionRect,
+} from '../utils/realtimeDetection';
+import {
+  CAMERA_PREVIEW_INSETS,
+  cameraPreviewLayout,
+  clampRect,
+  imageRectToView,
+  roundRect,
+  viewPointToImage,
+  viewRectToImage,
+} from '../utils/geometry';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+// Full-screen camera view (aspect-fill) and the part left visible by the bars
+const PREVIEW_LAYOUT = cameraPreviewLayout({ width: SCREEN_WIDTH, height: SCREEN_HEIGHT });
+
+// Width of the grayscale snapshots fed to the per-frame detector
+const FRAME_ANALYSIS_WIDTH = 160;
+// Auto-capture steadiness delays the user can cycle through (null = off)
+const AUTO_CAPTURE_DELAYS = [null, 1500, 3000];
+// Once armed, how long the countdown ring runs before the shutter fires
+const AUTO_CAPTURE_COUNTDOWN_MS = 1000;
 
 export default function CameraScreen() {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  // Adjust, Preview and Library stack on top - no snapshots while they're shown
+  const isFocused = useIsFocused();
   const cameraRef = useRef<Camera | null>(null);
   const [permission, requestPermission] = Camera.useCameraPermissions();
   const [isReady, setIsReady] = useState(false);
@@ -25,8 +70,34 @@ export default function CameraScreen() {
   const [isBoxLocked, setIsBoxLocked] = useState(false);
   const [isUserInteracting, setIsUserInteracting] = useState(false);
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const isDetectingFrameRef = useRef(false);
   const lastDetectedBoxRef = useRef<DetectionRect | null>(null);
   const manualBoxRef = useRef<DetectionRect | null>(null);
+  // Manual edits with undo/redo; an empty present means "follow the detection"
+  const boxHistory = useEditHistory<BoxEdit>();
+  const boxRef = useRef<AutoDetectionBoxHandle>(null);
+  // Snap-to-text works on the last analysed frame
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const lastFrameRef = useRef<GrayImage | null>(null);
+
+  // Box editing shape: axis-aligned rect or free quadrilateral
+  const [editMode, setEditMode] = useState<BoxEditMode>('rect');
+  const manualQuadRef = useRef<DetectionQuad | null>(null);
+  const [loupeImage, setLoupeImage] = useState<{ uri: string; width: number; height: number } | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Batch mode: captures are cropped straight into a queue and the camera stays open
+  const [batchMode, setBatchMode] = useState(false);
+  const batchItems = useBatchQueue();
+
+  // Auto-capture: lock the box once it has been steady and sharp, then count down to the shutter
+  const [autoCaptureDelay, setAutoCaptureDelay] = useState<number | null>(null);
+  const stabilityRef = useRef<ReturnType<typeof createStabilityTracker> | null>(null);
+  useEffect(() => {
+    stabilityRef.current = autoCaptureDelay
+      ? createStabilityTracker({ ...DEFAULT_AUTO_CAPTURE_CONFIG, stableMs: autoCaptureDelay })
+      : null;
+  }, [autoCaptureDelay]);
 
   useEffect(() => {
     if (!permission) return;
@@ -37,7 +108,7 @@ export default function CameraScreen() {
 
   // Real-time detection loop - runs at 3 fps when auto-detecting
   useEffect(() => {
-    if (!isReady || !isAutoDetecting || isBoxLocked || isUserInteracting) {
+    if (!isReady || !isFocused || !isAutoDetecting || isBoxLocked || isUserInteracting) {
       // Clear interval if conditions not met
       if (detectionIntervalRef.current) {
         clearInterval(detectionIntervalRef.current);
@@ -48,38 +119,88 @@ export default function CameraScreen() {
 
     console.log('🎯 Starting real-time detection loop');
     
-    // Calculate preview area (between top bar and bottom bar)
-    const previewTop = 120;
-    const previewBottom = 100;
-    const previewHeight = SCREEN_HEIGHT - previewTop - previewBottom;
-    const previewWidth = SCREEN_WIDTH;
+    const { view, visible } = PREVIEW_LAYOUT;
 
     // Threshold for movement - only update if change is significant
     const POSITION_THRESHOLD = 5; // pixels
     const SIZE_THRESHOLD = 10; // pixels
 
-    // Run detection at 3 fps
-    const runDetection = () => {
+    let cancelled = false;
+
+    // Run detection at 3 fps on low-resolution snapshots of the camera feed
+    const runDetection = async () => {
+      // Skip this tick if the previous frame is still being analyzed
+      if (isDetectingFrameRef.current || !cameraRef.current) {
+        return;
+      }
+      isDetectingFrameRef.current = true;
+
       try {
-        // If user has manually adjusted, keep that box
+        // Processed, so the low quality is honoured (skipProcessing writes the
+        // full-size sensor image whatever the quality)
+        const snapshot = await cameraRef.current.takePictureAsync({
+          quality: 0.1,
+          base64: false,
+          exif: false,
+        });
+        let frame: GrayImage | null;
+        try {
+          // Some devices still store the snapshot sensor-oriented with an EXIF tag
+          frame = await loadGrayscaleImage(snapshot.uri, FRAME_ANALYSIS_WIDTH, { upright: true });
+        } finally {
+          // Only the pixels are needed - don't let 3 snapshots a second pile up in the cache
+          deleteTemporaryImage(snapshot.uri);
+        }
+        if (cancelled) return;
+        if (frame) lastFrameRef.current = frame;
+
+        // If user has manually adjusted, keep that box - frames are still
+        // taken so snap-to-text works on what the camera sees now
         if (manualBoxRef.current) {
           setDetectedBox(manualBoxRef.current);
           return;
         }
 
-        // Fast heuristic-based detection
-        const newBox = detectQuestionAreaFast(previewWidth, previewHeight, {
-          verticalBias: 0.18,  // 18% from top - questions are usually in upper area
-          widthRatio: 0.65,    // 65% width - most questions don't span full width
-          heightRatio: 0.10,   // 10% height - compact for single-line questions
-        });
-        
-        // Adjust for top offset
-        const adjustedBox = {
-          ...newBox,
-          y: newBox.y + previewTop,
+        // Detector chain for live frames (see detectors.ts / getDetectionSettings)
+        const result = frame ? detectQuestions(frame, 'live') : null;
+        const detection = result?.detections[0] ?? null;
+        // Focus check for auto-capture, measured on the question area of the frame
+        const sharpness = frame && detection && result?.confident ? laplacianVariance(frame, detection.rect) : 0;
+        const observeStability = (moved: boolean) => {
+          if (stabilityRef.current?.observe(moved, sharpness)) {
+            console.log('⏱️ Box steady and sharp (', sharpness.toFixed(0), ') - starting auto-capture countdown');
+            setIsBoxLocked(true);
+          }
         };
 
+        let adjustedBox: DetectionRect;
+        if (result && !result.confident && lastDetectedBoxRef.current) {
+          // Nothing confident in this frame - keep tracking the last box
+          observeStability(true);
+          return;
+        } else if (frame && detection) {
+          // A confident finding, or the chain's best guess to seed the box
+          console.log('🎯 Frame detection:', result!.detectorId, 'confidence', detection.confidence.toFixed(2));
+          // Keep the box inside the visible preview area (between the bars)
+          const visibleBox = clampRect(imageRectToView(detection.rect, frame, view, 'cover'), visible);
+          if (!visibleBox) return;
+          adjustedBox = visibleBox;
+        } else if (lastDetectedBoxRef.current) {
+          observeStability(true);
+          return;
+        } else {
+          // No frame to analyze yet - start from the geometric guess
+          const newBox = detectQuestionAreaFast(visible.width, visible.height, {
+            verticalBias: 0.18,  // 18% from top - questions are usually in upper area
+            widthRatio: 0.65,    // 65% width - most questions don't span full width
+            heightRatio: 0.10,   // 10% height - compact for single-line questions
+          });
+          adjustedBox = {
+            ...newBox,
+            y: newBox.y + visible.y,
+          };
+        }
+
         // Check if change is significant enough to update
         if (lastDetectedBoxRef.current) {
           const deltaX = Math.abs(adjustedBox.x - lastDetectedBoxRef.current.x);
@@ -94,7 +215,8 @@ export default function CameraScreen() {
             deltaW < SIZE_THRESHOLD &&
             deltaH < SIZE_THRESHOLD
           ) {
-            // Change too small, keep current box
+            // Change too small, keep current box - the box is steady
+            observeStability(false);
             return;
           }
         }
@@ -108,8 +230,11 @@ export default function CameraScreen() {
 
         lastDetectedBoxRef.current = smoothedBox;
         setDetectedBox(smoothedBox);
+        observeStability(true);
       } catch (error) {
         console.error('❌ Detection error:', error);
+      } finally {
+        isDetectingFrameRef.current = false;
       }
     };
 
@@ -120,12 +245,13 @@ export default function CameraScreen() {
     detectionIntervalRef.current = setInterval(runDetection, 333);
 
     return () => {
+      cancelled = true;
       if (detectionIntervalRef.current) {
         clearInterval(detectionIntervalRef.current);
         detectionIntervalRef.current = null;
       }
     };
-  }, [isReady, isAutoDetecting, isBoxLocked, isUserInteracting]);
+  }, [isReady, isFocused, isAutoDetecting, isBoxLocked, isUserInteracting]);
 
   const onCapture = useCallback(async () => {
     if (!cameraRef.current) {
@@ -134,30 +260,23 @@ export default function CameraScreen() {
     }
     console.log('🔍 Attempting to take picture...');
     try {
-      let photo = await cameraRef.current.takePictureAsync({
+      const captured = await cameraRef.current.takePictureAsync({
         quality: 1.0,
         base64: false, // Don't need base64 anymore since we're using detected box
         exif: true,
         skipProcessing: false,
       });
       console.log('✅ Photo captured successfully');
+      setIsProcessing(true);
       
-      // Flip the photo on Android since we flipped the camera preview
-      if (Platform.OS === 'android') {
-        console.log('🔄 Flipping photo for Android...');
-        const flippedPhoto = await ImageManipulator.manipulateAsync(
-          photo.uri,
-          [{ flip: ImageManipulator.FlipType.Vertical }],
-          { compress: 1.0, format: ImageManipulator.SaveFormat.JPEG }
-        );
-        photo = { ...photo, uri: flippedPhoto.uri };
-        console.log('✅ Photo flipped successfully');
-      }
+      // Upright pixels whatever the sensor orientation - the preview shows it upright
+      const photo = await normalizeImageOrientation(captured);
       
       const { width: photoWidth, height: photoHeight } = photo;
       
-      // Use detected box if available, otherwise fall back to default
-      let cropRect: { originX: number; originY: number; width: number; height: number } | null = null;
+      // Proposed crop from the live box, in photo pixels - refined on the Adjust screen
+      let crop: { x: number; y: number; width: number; height: number } | null = null;
+      let photoQuad: DetectionQuad | null = null;
       
       // Use manual box if user adjusted it, otherwise use detected box
       const boxToUse = manualBoxRef.current || detectedBox;
@@ -165,100 +284,198 @@ export default function CameraScreen() {
       if (boxToUse && isAutoDetecting) {
         console.log('📦 Using box for cropping:', boxToUse, manualBoxRef.current ? '(manual)' : '(auto)');
         
-        // Calculate preview area dimensions
-        const previewTop = 120;
-        const previewBottom = 100;
-        const previewHeight = SCREEN_HEIGHT - previewTop - previewBottom;
-        const previewWidth = SCREEN_WIDTH;
-        
-        // Calculate how the camera image is actually displayed in the preview
-        // The camera view is full screen, so we need to map directly to the full image
-        const photoAspect = photoWidth / photoHeight;
-        const previewAspect = SCREEN_WIDTH / SCREEN_HEIGHT;
+        // The camera view is full screen and shows the photo aspect-fill
+        const photoSize = { width: photoWidth, height: photoHeight };
+        crop = roundRect(viewRectToImage(boxToUse, PREVIEW_LAYOUT.view, photoSize, 'cover'));
         
-        let scaleX: number;
-        let scaleY: number;
-        let offsetX = 0;
-        let offsetY = 0;
-        
-        if (photoAspect > previewAspect) {
-          // Photo is wider - fits to height, crops width
-          scaleY = photoHeight / SCREEN_HEIGHT;
-          scaleX = scaleY;
-          offsetX = (photoWidth - (SCREEN_WIDTH * scaleX)) / 2;
-        } else {
-          // Photo is taller - fits to width, crops height
-          scaleX = photoWidth / SCREEN_WIDTH;
-          scaleY = scaleX;
-          offsetY = (photoHeight - (SCREEN_HEIGHT * scaleY)) / 2;
+        // Quad mode: map each outlined corner the same way
+        if (editMode === 'quad' && manualQuadRef.current) {
+          const toPhoto = (p: { x: number; y: number }) =>
+            viewPointToImage(p, PREVIEW_LAYOUT.view, photoSize, 'cover');
+          photoQuad = {
+            topLeft: toPhoto(manualQuadRef.current.topLeft),
+            topRight: toPhoto(manualQuadRef.current.topRight),
+            bottomRight: toPhoto(manualQuadRef.current.bottomRight),
+            bottomLeft: toPhoto(manualQuadRef.current.bottomLeft),
+          };
+          console.log('⬠ Mapped crop quad:', photoQuad);
         }
         
-        // Map box coordinates from screen to photo coordinates
-        cropRect = {
-          originX: Math.round((boxToUse.x * scaleX) + offsetX),
-          originY: Math.round((boxToUse.y * scaleY) + offsetY),
-          width: Math.round(boxToUse.width * scaleX),
-          height: Math.round(boxToUse.height * scaleY),
-        };
-        
-        // Ensure crop rect is within image bounds
-        cropRect.originX = Math.max(0, Math.min(cropRect.originX, photoWidth - cropRect.width));
-        cropRect.originY = Math.max(0, Math.min(cropRect.originY, photoHeight - cropRect.height));
-        cropRect.width = Math.min(cropRect.width, photoWidth - cropRect.originX);
-        cropRect.height = Math.min(cropRect.height, photoHeight - cropRect.originY);
-        
-        console.log('✂️ Mapped crop rect:', cropRect);
-        console.log('📐 Photo aspect:', photoAspect.toFixed(2), 'Preview aspect:', previewAspect.toFixed(2));
-        console.log('📐 Scale:', scaleX.toFixed(2), 'x', scaleY.toFixed(2), 'Offset:', offsetX.toFixed(0), ',', offsetY.toFixed(0));
+        console.log('✂️ Proposed crop rect:', crop);
       }
       
-      // Crop the image if we have a crop rect
-      let finalPhotoUri = photo.uri;
-      if (cropRect && cropRect.width > 0 && cropRect.height > 0) {
-        try {
-          console.log('✂️ Cropping image with rect:', cropRect);
-          const croppedPhoto = await ImageManipulator.manipulateAsync(
-            photo.uri,
-            [{ crop: cropRect }],
-            { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
-          );
-          finalPhotoUri = croppedPhoto.uri;
-          console.log('✅ Image cropped successfully');
-        } catch (cropError) {
-          console.error('❌ Failed to crop image:', cropError);
-          // Continue with uncropped image
-        }
+      if (batchMode) {
+        // No Adjust step - crop now, queue it and keep the camera open
+        const cropRect = crop && {
+          originX: crop.x,
+          originY: crop.y,
+          width: Math.min(crop.width, photoWidth - crop.x),
+          height: Math.min(crop.height, photoHeight - crop.y),
+        };
+        const croppedUri = await cropQuestionImage(photo.uri, photoWidth, photoHeight, cropRect, photoQuad);
+        const straightened = await straightenQuestionImage(
+          croppedUri, cropRect?.width ?? photoWidth, cropRect?.height ?? photoHeight
+        );
+        const queue = getBatchQueue();
+        const item = queue.add({
+          photo: { uri: straightened.uri, width: straightened.width, height: straightened.height },
+          crop,
+          source: { width: photoWidth, height: photoHeight, capturedAt: Date.now() },
+        });
+        console.log('📥 Queued capture', queue.items().length, 'for batch review');
+
+        // Read the text in the background - the next capture shouldn't wait for OCR
+        recognizeQuestionText(straightened.uri)
+          .then((result) => queue.update(item.id, { questionText: result?.text ?? null }))
+          .catch((error) => console.error('❌ Batch OCR failed:', error));
+        return;
       }
-      
-      // Navigate to preview with the cropped image
-      navigation.navigate('Preview', { 
-        photo: { uri: finalPhotoUri, width: photoWidth, height: photoHeight },
-        crop: null // Already cropped, no need for further cropping
+
+      // Let the user refine the crop on the full photo before cutting it out
+      navigation.navigate('Adjust', {
+        photo: { uri: photo.uri, width: photoWidth, height: photoHeight },
+        crop,
+        quad: photoQuad,
       });
       
     } catch (e: any) {
       console.error('❌ Failed to take picture:', e);
       Alert.alert('Error', 'Failed to capture photo: ' + (e.message || 'Unknown error'));
+    } finally {
+      setIsProcessing(false);
     }
-  }, [navigation, detectedBox, isAutoDetecting]);
+  }, [navigation, detectedBox, isAutoDetecting, editMode, batchMode]);
+
+  // Locked by auto-capture: run the countdown, then fire the shutter
+  useEffect(() => {
+    if (!isBoxLocked || !autoCaptureDelay) return;
+    const timer = setTimeout(() => {
+      onCapture().finally(() => {
+        // Wait for the box to move before auto-capturing again
+        stabilityRef.current?.disarm();
+        setIsBoxLocked(false);
+      });
+    }, AUTO_CAPTURE_COUNTDOWN_MS);
+    return () => clearTimeout(timer);
+  }, [isBoxLocked, autoCaptureDelay, onCapture]);
+
+  const cancelAutoCapture = useCallback(() => {
+    console.log('✋ Auto-capture cancelled');
+    stabilityRef.current?.disarm();
+    setIsBoxLocked(false);
+  }, []);
+
+  // Imported images skip the live box: detect the question, then let the user adjust it
+  const openImportedImage = useCallback(async (image: ImportedImage | null) => {
+    if (!image) return;
+    setIsProcessing(true);
+    try {
+      const crop = await proposeQuestionCrop(image);
+      console.log('🎯 Proposed crop for imported image:', crop);
+      navigation.navigate('Adjust', { photo: image, crop });
+    } catch (e: any) {
+      console.error('❌ Failed to import image:', e);
+      Alert.alert('Error', 'Failed to import image: ' + (e.message || 'Unknown error'));
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [navigation]);
+
+  const onImportPress = useCallback(async () => {
+    try {
+      openImportedImage(await pickImageFromLibrary());
+    } catch (e: any) {
+      console.error('❌ Image picker failed:', e);
+      Alert.alert('Error', 'Failed to open gallery: ' + (e.message || 'Unknown error'));
+    }
+  }, [openImportedImage]);
+
+  // Web: images can also be dragged onto the page
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') return;
+
+    const onDragOver = (event: DragEvent) => {
+      event.preventDefault();
+    };
+    const onDrop = (event: DragEvent) => {
+      event.preventDefault();
+      const file = event.dataTransfer?.files?.[0];
+      if (file) {
+        importImageFile(file)
+          .then(openImportedImage)
+          .catch((error) => console.error('❌ Failed to read dropped file:', error));
+      }
+    };
+
+    document.addEventListener('dragover', onDragOver);
+    document.addEventListener('drop', onDrop);
+    return () => {
+      document.removeEventListener('dragover', onDragOver);
+      document.removeEventListener('drop', onDrop);
+    };
+  }, [openImportedImage]);
 
   // Handlers for user interaction with detection box
   const handleInteractionStart = useCallback(() => {
     console.log('👆 User started interacting with box - pausing detection');
     setIsUserInteracting(true);
-  }, []);
+    // Touching the box also cancels a pending auto-capture
+    if (isBoxLocked && autoCaptureDelay) {
+      cancelAutoCapture();
+    }
+
+    // Quad corners get a magnifier - grab a still of the preview for it
+    if (editMode === 'quad' && cameraRef.current) {
+      cameraRef.current
+        .takePictureAsync({ quality: 0.3, base64: false, exif: false })
+        .then(async (snapshot) => {
+          const upright = await normalizeImageOrientation(snapshot);
+          if (upright.uri !== snapshot.uri) deleteTemporaryImage(snapshot.uri);
+          return upright;
+        })
+        .then(({ uri, width, height }) => setLoupeImage({ uri, width, height }))
+        .catch((error) => console.error('❌ Loupe snapshot failed:', error));
+    }
+  }, [editMode, isBoxLocked, autoCaptureDelay, cancelAutoCapture]);
+
+  // Each loupe still replaces the last one - delete the old file (and the last on unmount)
+  useEffect(() => {
+    if (!loupeImage) return;
+    const { uri } = loupeImage;
+    return () => {
+      deleteTemporaryImage(uri);
+    };
+  }, [loupeImage]);
 
   const handleInteractionEnd = useCallback(() => {
     console.log('✋ User finished interacting with box - resuming detection');
     setIsUserInteracting(false);
   }, []);
 
-  const handleBoxChange = useCallback((newBox: DetectionRect) => {
-    console.log('📐 User manually adjusted box:', newBox);
-    manualBoxRef.current = newBox;
-    setDetectedBox(newBox);
+  const handleBoxChange = useCallback((newBox: DetectionRect, quad?: DetectionQuad, repeat?: boolean) => {
+    console.log('📐 User manually adjusted box:', newBox, quad ? '(quad)' : '');
+    boxHistory.push({ box: newBox, quad: quad ?? null }, repeat);
+  }, [boxHistory.push]);
+
+  // Resize handles snap their edges to whitespace in the latest frame (the
+  // loop keeps taking frames while the box is manual)
+  const snapBoxToText = useCallback((box: DetectionRect, edges: SnapEdge[]) => {
+    const frame = lastFrameRef.current;
+    if (!frame) return null;
+    const { view } = PREVIEW_LAYOUT;
+    const result = snapRectToText(frame, viewRectToImage(box, view, frame, 'cover'), edges);
+    return { rect: imageRectToView(result.rect, frame, view, 'cover'), snapped: result.snapped };
   }, []);
 
+  // Undo, redo and reset all land here: the refs feed the detection loop and capture
+  useEffect(() => {
+    const edit = boxHistory.present;
+    manualBoxRef.current = edit?.box ?? null;
+    manualQuadRef.current = edit?.quad ?? null;
+    // Back to detection: show the last detected box until the next frame
+    setDetectedBox(edit ? edit.box : lastDetectedBoxRef.current);
+  }, [boxHistory.present]);
+
   if (!permission) {
     return <View style={styles.center}><ActivityIndicator color="#fff" /></View>;
   }
@@ -309,8 +526,8 @@ export default function CameraScreen() {
             setIsAutoDetecting(newState);
             if (newState) {
               // Turning auto-detection ON - clear manual box to restart auto-detection
-              manualBoxRef.current = null;
               lastDetectedBoxRef.current = null;
+              boxHistory.clear();
               setIsBoxLocked(false);
             }
           }}
@@ -320,18 +537,118 @@ export default function CameraScreen() {
             {isAutoDetecting ? 'Auto' : 'Manual'}
           </Text>
         </TouchableOpacity>
+
+        {/* Box shape toggle: rectangle or free quadrilateral */}
+        {isAutoDetecting && (
+          <TouchableOpacity
+            style={[styles.autoDetectButton, editMode === 'quad' && styles.autoDetectButtonActive]}
+            onPress={() => {
+              const nextMode: BoxEditMode = editMode === 'rect' ? 'quad' : 'rect';
+              setEditMode(nextMode);
+              // The box survives the switch, the outlined corners don't
+              if (boxHistory.present?.quad) {
+                boxHistory.push({ box: boxHistory.present.box, quad: null });
+              }
+            }}
+          >
+            <Text style={styles.autoDetectIcon}>{editMode === 'quad' ? '⬠' : '▭'}</Text>
+            <Text style={styles.autoDetectText}>
+              {editMode === 'quad' ? 'Quad' : 'Rect'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Auto-capture: off, or the steadiness delay before the shutter arms */}
+        {isAutoDetecting && (
+          <TouchableOpacity
+            style={[styles.autoDetectButton, !!autoCaptureDelay && styles.autoDetectButtonActive]}
+            onPress={() => {
+              const next = AUTO_CAPTURE_DELAYS[(AUTO_CAPTURE_DELAYS.indexOf(autoCaptureDelay) + 1) % AUTO_CAPTURE_DELAYS.length];
+              setAutoCaptureDelay(next);
+              setIsBoxLocked(false);
+            }}
+          >
+            <Text style={styles.autoDetectIcon}>⏱️</Text>
+            <Text style={styles.autoDetectText}>
+              {autoCaptureDelay ? `${autoCaptureDelay / 1000}s` : 'Off'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Batch mode: keep scanning, review everything at the end */}
+        <TouchableOpacity
+          style={[styles.autoDetectButton, batchMode && styles.autoDetectButtonActive]}
+          onPress={() => setBatchMode(!batchMode)}
+        >
+          <Text style={styles.autoDetectIcon}>📑</Text>
+          <Text style={styles.autoDetectText}>Batch</Text>
+        </TouchableOpacity>
+
+        {/* Snap resized edges to the whitespace around text */}
+        {isAutoDetecting && editMode === 'rect' && (
+          <TouchableOpacity
+            style={[styles.autoDetectButton, snapEnabled && styles.autoDetectButtonActive]}
+            onPress={() => setSnapEnabled(!snapEnabled)}
+          >
+            <Text style={styles.autoDetectIcon}>🧲</Text>
+            <Text style={styles.autoDetectText}>Snap</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
+      {/* Edit history for the manual box */}
+      {isAutoDetecting && (boxHistory.canUndo || boxHistory.canRedo) && (
+        <View style={styles.editHistoryBar}>
+          <TouchableOpacity
+            style={[styles.editHistoryButton, !boxHistory.canUndo && styles.editHistoryButtonDisabled]}
+            onPress={boxHistory.undo}
+            disabled={!boxHistory.canUndo}
+          >
+            <Text style={styles.editHistoryIcon}>↶</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.editHistoryButton, !boxHistory.canRedo && styles.editHistoryButtonDisabled]}
+            onPress={boxHistory.redo}
+            disabled={!boxHistory.canRedo}
+          >
+            <Text style={styles.editHistoryIcon}>↷</Text>
+          </TouchableOpacity>
+          {boxHistory.present && (
+            <TouchableOpacity style={styles.autoDetectButton} onPress={() => boxHistory.push(null)}>
+              <Text style={styles.autoDetectText}>Reset to detected</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {/* Fine-tuning for a box the user has started adjusting */}
+      {isAutoDetecting && boxHistory.present && (
+        <NudgePad
+          style={styles.nudgePad}
+          onNudge={(direction, options) => boxRef.current?.nudge(direction, options)}
+          canResize={editMode === 'rect'}
+        />
+      )}
+
       {/* Real-time auto-detection box */}
       <AutoDetectionBox
+        ref={boxRef}
         detectedBox={detectedBox}
         isLocked={isBoxLocked}
         isAutoDetecting={isAutoDetecting}
-        containerWidth={SCREEN_WIDTH}
-        containerHeight={SCREEN_HEIGHT}
+        containerWidth={PREVIEW_LAYOUT.view.width}
+        containerHeight={PREVIEW_LAYOUT.view.height}
         onInteractionStart={handleInteractionStart}
         onInteractionEnd={handleInteractionEnd}
         onBoxChange={handleBoxChange}
+        editMode={editMode}
+        detectedQuad={editMode === 'quad' ? boxHistory.present?.quad ?? null : null}
+        loupeImage={loupeImage}
+        captureCountdownMs={autoCaptureDelay ? AUTO_CAPTURE_COUNTDOWN_MS : null}
+        onCancelCountdown={cancelAutoCapture}
+        snapBox={snapBoxToText}
+        snapEnabled={snapEnabled}
+        onSnapEnabledChange={setSnapEnabled}
       />
 
       {/* Flash control (floating above shutter) */}
@@ -342,23 +659,53 @@ export default function CameraScreen() {
       </View>                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                                 
 
 
+      {/* Batch tray: thumbnails of the queued captures */}
+      {(batchMode || batchItems.length > 0) && (
+        <View style={styles.batchTray}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.batchThumbnails}>
+            {batchItems.length === 0 ? (
+              <Text style={styles.batchEmptyText}>Captures collect here</Text>
+            ) : (
+              batchItems.map((item) => (
+                <Image key={item.id} source={{ uri: item.photo.uri }} style={styles.batchThumbnail} resizeMode="cover" />
+              ))
+            )}
+          </ScrollView>
+          <TouchableOpacity
+            style={[styles.batchReviewButton, batchItems.length === 0 && { opacity: 0.5 }]}
+            disabled={batchItems.length === 0}
+            onPress={() => navigation.navigate('BatchReview')}
+          >
+            <Text style={styles.batchReviewText}>Review {batchItems.length}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Bottom black bar with camera controls */}
       <View style={styles.bottomBlackBar}>
-        <TouchableOpacity style={styles.sideButton}>
+        <TouchableOpacity style={styles.sideButton} disabled={isProcessing} onPress={onImportPress}>
           <Text style={styles.sideButtonIcon}>🏔️</Text>
         </TouchableOpacity>
         
-        <TouchableOpacity disabled={!isReady} onPress={onCapture} style={[styles.shutterButton, !isReady && { opacity: 0.5 }]}>
+        <TouchableOpacity disabled={!isReady || isProcessing} onPress={onCapture} style={[styles.shutterButton, (!isReady || isProcessing) && { opacity: 0.5 }]}>
           <View style={styles.shutterOuter}>
             <View style={styles.shutterInner} />
           </View>
         </TouchableOpacity>
         
-        <TouchableOpacity style={styles.sideButton}>
-          <Text style={styles.sideButtonIcon}>🎤</Text>
+        <TouchableOpacity style={styles.sideButton} onPress={() => navigation.navigate('Library')}>
+          <Text style={styles.sideButtonIcon}>📚</Text>
         </TouchableOpacity>
       </View>
 
+      {/* Processing overlay while the capture is cropped and read */}
+      {isProcessing && (
+        <View style={styles.cameraNotReadyOverlay}>
+          <ActivityIndicator size="large" color="#fff" />
+          <Text style={styles.cameraNotReadyText}>{batchMode ? 'Adding to batch...' : 'Reading question...'}</Text>
+        </View>
+      )}
+
       {/* Debugging overlay to show camera readiness */}
       {!isReady && (
         <View style={styles.cameraNotReadyOverlay}>
@@ -383,9 +730,6 @@ const styles = StyleSheet.create({
     flex: 1,
     width: '100%',
     overflow: 'hidden',
-    ...(Platform.OS === 'android' && {
-      transform: [{ scaleY: -1 }],
-    }),
   },
   
   // Top bar with controls - full width
@@ -398,9 +742,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
     zIndex: 15,
-    ...(Platform.OS === 'android' && {
-      transform: [{ scaleY: -1 }],
-    }),
   },
   topButton: {
     width: 40,
@@ -435,12 +776,44 @@ const styles = StyleSheet.create({
   // Auto-detection toggle
   autoDetectToggleContainer: {
     position: 'absolute',
-    top: 120,
+    top: CAMERA_PREVIEW_INSETS.top,
+    left: 20,
+    flexDirection: 'row',
+    gap: 8,
+    zIndex: 15,
+  },
+  editHistoryBar: {
+    position: 'absolute',
+    top: CAMERA_PREVIEW_INSETS.top + 48,
     left: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    zIndex: 15,
+  },
+  nudgePad: {
+    position: 'absolute',
+    top: CAMERA_PREVIEW_INSETS.top + 48,
+    right: 12,
     zIndex: 15,
-    ...(Platform.OS === 'android' && {
-      transform: [{ scaleY: -1 }],
-    }),
+  },
+  editHistoryButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 2,
+    borderColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  editHistoryButtonDisabled: {
+    opacity: 0.4,
+  },
+  editHistoryIcon: {
+    fontSize: 18,
+    color: '#fff',
+    fontWeight: '600',
   },
   autoDetectButton: {
     flexDirection: 'row',
@@ -474,9 +847,6 @@ const styles = StyleSheet.create({
     right: 0,
     alignItems: 'center',
     zIndex: 12,
-    ...(Platform.OS === 'android' && {
-      transform: [{ scaleY: -1 }],
-    }),
   },
   flashButton: {
     width: 44,
@@ -493,6 +863,49 @@ const styles = StyleSheet.create({
     color: '#ffd700',
   },
   
+  // Batch tray (above the flash button)
+  batchTray: {
+    position: 'absolute',
+    bottom: 176,
+    left: 12,
+    right: 12,
+    height: 64,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 16,
+    paddingHorizontal: 8,
+    zIndex: 12,
+  },
+  batchThumbnails: {
+    alignItems: 'center',
+    gap: 6,
+    paddingRight: 8,
+  },
+  batchThumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: '#333',
+  },
+  batchEmptyText: {
+    color: '#9ca3af',
+    fontSize: 13,
+    paddingHorizontal: 8,
+  },
+  batchReviewButton: {
+    backgroundColor: '#14b8a6',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    marginLeft: 'auto',
+  },
+  batchReviewText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+
   // Bottom black bar
   bottomBlackBar: {
     position: 'absolute',
@@ -506,9 +919,6 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingHorizontal: 20,
     zIndex: 10,
-    ...(Platform.OS === 'android' && {
-      transform: [{ scaleY: -1 }],
-    }),
   },
   sideButton: {
     width: 50,
@@ -563,9 +973,6 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     zIndex: 5,
-    ...(Platform.OS === 'android' && {
-      transform: [{ scaleY: -1 }],
-    }),
   },
   cameraNotReadyText: {
     color: '#fff',
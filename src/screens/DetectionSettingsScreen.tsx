@@ -0,0 +1,257 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, ScrollView } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../App';
+import { getDetector, listDetectors, type DetectionMode } from '../utils/detectors';
+import { useDetectionSettings } from '../hooks/useDetectionSettings';
+
+const MODES: { mode: DetectionMode; title: string; hint: string }[] = [
+  { mode: 'live', title: 'Camera', hint: 'Runs on every preview frame - keep it fast' },
+  { mode: 'import', title: 'Imported photos', hint: 'Runs once per imported photo or screenshot' },
+];
+const CONFIDENCE_STEP = 0.05;
+
+export default function DetectionSettingsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { settings, updateMode, reset } = useDetectionSettings();
+
+  const moveDetector = (mode: DetectionMode, index: number, delta: number) => {
+    const chain = [...settings[mode].chain];
+    const target = index + delta;
+    if (target < 0 || target >= chain.length) {
+      return;
+    }
+    [chain[index], chain[target]] = [chain[target], chain[index]];
+    updateMode(mode, { chain });
+  };
+
+  const changeConfidence = (mode: DetectionMode, delta: number) => {
+    const next = Math.round((settings[mode].minConfidence + delta) * 100) / 100;
+    updateMode(mode, { minConfidence: Math.max(0, Math.min(1, next)) });
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={styles.backIcon}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Detection</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {MODES.map(({ mode, title, hint }) => {
+            const { chain, minConfidence } = settings[mode];
+            const unused = listDetectors().filter((detector) => !chain.includes(detector.id));
+            return (
+              <View key={mode} style={styles.section}>
+                <Text style={styles.sectionTitle}>{title}</Text>
+                <Text style={styles.sectionHint}>{hint}</Text>
+
+                {/* Detectors in the order they are tried */}
+                {chain.map((id, index) => (
+                  <View key={id} style={styles.row}>
+                    <Text style={styles.rowIndex}>{index + 1}</Text>
+                    <Text style={styles.rowLabel}>{getDetector(id)?.label ?? id}</Text>
+                    <TouchableOpacity
+                      onPress={() => moveDetector(mode, index, -1)}
+                      disabled={index === 0}
+                      style={[styles.iconButton, index === 0 && styles.iconButtonDisabled]}
+                    >
+                      <Text style={styles.iconButtonText}>↑</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => moveDetector(mode, index, 1)}
+                      disabled={index === chain.length - 1}
+                      style={[styles.iconButton, index === chain.length - 1 && styles.iconButtonDisabled]}
+                    >
+                      <Text style={styles.iconButtonText}>↓</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => updateMode(mode, { chain: chain.filter((other) => other !== id) })}
+                      disabled={chain.length === 1}
+                      style={[styles.iconButton, chain.length === 1 && styles.iconButtonDisabled]}
+                    >
+                      <Text style={styles.iconButtonText}>✕</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {unused.map((detector) => (
+                  <TouchableOpacity
+                    key={detector.id}
+                    onPress={() => updateMode(mode, { chain: [...chain, detector.id] })}
+                    style={[styles.row, styles.rowUnused]}
+                  >
+                    <Text style={styles.rowIndex}>+</Text>
+                    <Text style={styles.rowLabel}>{detector.label}</Text>
+                  </TouchableOpacity>
+                ))}
+
+                {/* Below this, a result falls through to the next detector */}
+                <View style={styles.confidenceRow}>
+                  <Text style={styles.confidenceLabel}>Minimum confidence</Text>
+                  <TouchableOpacity onPress={() => changeConfidence(mode, -CONFIDENCE_STEP)} style={styles.iconButton}>
+                    <Text style={styles.iconButtonText}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.confidenceValue}>{minConfidence.toFixed(2)}</Text>
+                  <TouchableOpacity onPress={() => changeConfidence(mode, CONFIDENCE_STEP)} style={styles.iconButton}>
+                    <Text style={styles.iconButtonText}>+</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })}
+
+          <Text style={styles.hint}>
+            Detectors are tried top to bottom until one is confident enough. Compare them on your own photos with
+            npm run benchmark:detection.
+          </Text>
+
+          <TouchableOpacity onPress={reset} style={styles.resetButton}>
+            <Text style={styles.resetButtonText}>Reset to defaults</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingTop: 8,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backIcon: {
+    fontSize: 24,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionHint: {
+    color: '#9ca3af',
+    fontSize: 12,
+    marginTop: 2,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 10,
+    marginBottom: 8,
+  },
+  rowUnused: {
+    opacity: 0.5,
+  },
+  rowIndex: {
+    width: 20,
+    color: '#14b8a6',
+    fontSize: 14,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  rowLabel: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconButtonDisabled: {
+    opacity: 0.3,
+  },
+  iconButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  confidenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 4,
+    paddingTop: 4,
+  },
+  confidenceLabel: {
+    flex: 1,
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  confidenceValue: {
+    width: 44,
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  hint: {
+    color: '#9ca3af',
+    fontSize: 12,
+    marginVertical: 12,
+    textAlign: 'center',
+  },
+  resetButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 16,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+  },
+  resetButtonText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,277 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, SectionList, SafeAreaView, TextInput, ActivityIndicator } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../App';
+import {
+  formatCaptureDate,
+  getQuestionRepository,
+  groupQuestionsBySubject,
+  type QuestionSortOrder,
+  type SavedQuestion,
+} from '../utils/questionLibrary';
+import { useSubjects } from '../hooks/useSubjects';
+
+export default function LibraryScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [questions, setQuestions] = useState<SavedQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [order, setOrder] = useState<QuestionSortOrder>('newest');
+  const { subjects } = useSubjects();
+
+  // Reload whenever the screen regains focus (e.g. after a delete in the detail view)
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+      getQuestionRepository()
+        .list()
+        .then((saved) => {
+          if (!cancelled) {
+            setQuestions(saved);
+          }
+        })
+        .catch((error) => console.error('❌ Failed to load library:', error))
+        .finally(() => {
+          if (!cancelled) {
+            setIsLoading(false);
+          }
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  const sections = useMemo(() => {
+    const subjectOrder = subjects.map((subject) => subject.name);
+    const colors = Object.fromEntries(subjects.map((subject) => [subject.name, subject.color]));
+    return groupQuestionsBySubject(questions, query, order, subjectOrder).map((group) => ({
+      title: group.subject,
+      color: colors[group.subject] ?? '#64748b',
+      data: group.questions,
+    }));
+  }, [questions, query, order, subjects]);
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={styles.backIcon}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Library</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => setOrder(order === 'newest' ? 'oldest' : 'newest')}
+              style={styles.sortButton}
+            >
+              <Text style={styles.sortButtonText}>{order === 'newest' ? 'Newest ↓' : 'Oldest ↑'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('Subjects')} style={styles.sortButton}>
+              <Text style={styles.sortButtonText}>Subjects</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('DetectionSettings')} style={styles.sortButton}>
+              <Text style={styles.sortButtonText}>Detection</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Search */}
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search questions, subjects or #tags"
+          placeholderTextColor="#6b7280"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#14b8a6" />
+        ) : (
+          <SectionList
+            sections={sections}
+            keyExtractor={(item) => item.id}
+            stickySectionHeadersEnabled={false}
+            contentContainerStyle={styles.listContent}
+            renderSectionHeader={({ section }) => (
+              <View style={styles.sectionHeader}>
+                <View style={styles.sectionTitleRow}>
+                  <View style={[styles.sectionDot, { backgroundColor: section.color }]} />
+                  <Text style={styles.sectionTitle}>{section.title}</Text>
+                </View>
+                <Text style={styles.sectionCount}>{section.data.length}</Text>
+              </View>
+            )}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={styles.row}
+                onPress={() => navigation.navigate('QuestionDetail', { questionId: item.id })}
+              >
+                <View style={styles.thumbnail}>
+                  <Image source={{ uri: item.imageUri }} style={styles.thumbnailImage} resizeMode="contain" />
+                </View>
+                <View style={styles.rowBody}>
+                  <Text style={styles.rowText} numberOfLines={2}>
+                    {item.text || 'No question text'}
+                  </Text>
+                  <Text style={styles.rowDate} numberOfLines={1}>
+                    {formatCaptureDate(item.capturedAt)}
+                    {item.tags.length > 0 && `  ${item.tags.map((tag) => `#${tag}`).join(' ')}`}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            )}
+            ListEmptyComponent={
+              <Text style={styles.emptyText}>
+                {query ? 'No questions match your search' : 'No saved questions yet - capture one to get started'}
+              </Text>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingTop: 8,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backIcon: {
+    fontSize: 24,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  sortButton: {
+    paddingHorizontal: 12,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+  },
+  sortButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  searchInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  listContent: {
+    paddingBottom: 24,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 20,
+    paddingBottom: 8,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sectionDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  sectionCount: {
+    color: '#14b8a6',
+    fontSize: 13,
+    fontWeight: '700',
+    backgroundColor: 'rgba(20, 184, 166, 0.15)',
+    paddingHorizontal: 10,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 10,
+    marginBottom: 8,
+  },
+  thumbnail: {
+    width: 72,
+    height: 56,
+    borderRadius: 10,
+    backgroundColor: '#ffffff',
+    overflow: 'hidden',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  rowBody: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowText: {
+    color: '#fff',
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  rowDate: {
+    color: '#9ca3af',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  emptyText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+});
@@ -1,8 +1,16 @@
-import React, { useState } from 'react';
-import { View, Text, Image, StyleSheet, TouchableOpacity, Dimensions, ToastAndroid, Platform, Modal, ScrollView, SafeAreaView } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, Dimensions, ToastAndroid, Platform, Modal, ScrollView, SafeAreaView, TextInput, Alert, ActivityIndicator } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../../App';
+import { suggestSubject } from '../utils/subjectClassifier';
+import { getQuestionRepository } from '../utils/questionLibrary';
+import { getSubjectRepository, parseTags } from '../utils/subjects';
+import { useSubjects } from '../hooks/useSubjects';
+import { assessImageQuality, enhanceQuestionImage, rotateQuestionImage } from '../utils/imageUtils';
+import type { QualityReport } from '../utils/imageQuality';
+import { ENHANCEMENT_MODES, type EnhancementMode } from '../utils/imageEnhancement';
+import { getOcrEngine } from '../utils/ocr';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -10,25 +18,183 @@ export default function PreviewScreen() {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
   const route = useRoute();
   const params = route.params as RootStackParamList['Preview'];
+  // Multi-question captures carry further questions cut from the same photo
+  const questions = useMemo(
+    () => [{ photo: params.photo, crop: params.crop, questionText: params.questionText }, ...(params.moreQuestions ?? [])],
+    [params]
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const current = questions[currentIndex];
+
+  // Readability check per question, run when it is first shown
+  const [qualityReports, setQualityReports] = useState<Record<number, QualityReport | null>>({});
+  useEffect(() => {
+    if (currentIndex in qualityReports) return;
+    let cancelled = false;
+    const index = currentIndex;
+    assessImageQuality(current.photo.uri, current.photo.width)
+      .catch((error) => {
+        console.error('❌ Quality check failed:', error);
+        return null;
+      })
+      .then((report) => {
+        if (!cancelled) {
+          setQualityReports((reports) => ({ ...reports, [index]: report }));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentIndex]);
+  const qualityWarnings = qualityReports[currentIndex]?.warnings ?? [];
+
+  // Manually rotated images replace the straightened crop
+  const [images, setImages] = useState(() => questions.map((question) => question.photo));
+  // Scan-look filter per question; filtered images are cached by source image and mode
+  const [filterModes, setFilterModes] = useState<EnhancementMode[]>(() => questions.map(() => 'original'));
+  const [filteredUris, setFilteredUris] = useState<Record<string, string>>({});
+  const [isProcessingImage, setIsProcessingImage] = useState(false);
+  const imageUriFor = (index: number) => {
+    const mode = filterModes[index];
+    const base = images[index].uri;
+    return mode === 'original' ? base : filteredUris[`${base}|${mode}`] ?? base;
+  };
+
+  const applyFilter = async (index: number, image: { uri: string; width: number }, mode: EnhancementMode) => {
+    const key = `${image.uri}|${mode}`;
+    if (mode !== 'original' && !filteredUris[key]) {
+      const uri = await enhanceQuestionImage(image.uri, image.width, mode);
+      setFilteredUris((uris) => ({ ...uris, [key]: uri }));
+    }
+    setFilterModes((modes) => modes.map((value, i) => (i === index ? mode : value)));
+  };
+
+  const onFilterSelect = async (mode: EnhancementMode) => {
+    setIsProcessingImage(true);
+    try {
+      await applyFilter(currentIndex, images[currentIndex], mode);
+    } catch (error: any) {
+      console.error('❌ Failed to apply filter:', error);
+      Alert.alert('Error', 'Failed to apply filter: ' + (error?.message || 'Unknown error'));
+    } finally {
+      setIsProcessingImage(false);
+    }
+  };
+
+  // Override for the automatic straightening
+  const onRotate = async (degrees: 90 | -90) => {
+    const index = currentIndex;
+    setIsProcessingImage(true);
+    try {
+      const rotated = await rotateQuestionImage(images[index].uri, degrees);
+      setImages((previous) => previous.map((image, i) => (i === index ? rotated : image)));
+      // Keep the chosen filter on the rotated image
+      await applyFilter(index, rotated, filterModes[index]);
+    } catch (error: any) {
+      console.error('❌ Failed to rotate image:', error);
+      Alert.alert('Error', 'Failed to rotate image: ' + (error?.message || 'Unknown error'));
+    } finally {
+      setIsProcessingImage(false);
+    }
+  };
+
   const [showDialog, setShowDialog] = useState(false);
   const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
+  // OCR text is only a starting point - the user can correct it
+  const [questionTexts, setQuestionTexts] = useState(() => questions.map((question) => question.questionText ?? ''));
+  const questionText = questionTexts[currentIndex];
+  // Local OCR only exists on web so far - native builds say so up front
+  const ocrAvailable = useMemo(() => getOcrEngine().isAvailable(), []);
+  const setQuestionText = (text: string) =>
+    setQuestionTexts((texts) => texts.map((value, index) => (index === currentIndex ? text : value)));
+  // Set once saved, so picking another subject re-files instead of duplicating;
+  // imageUri is the edited image that went into the library
+  const [savedQuestions, setSavedQuestions] = useState<({ id: string; imageUri: string } | null)[]>(
+    () => questions.map(() => null)
+  );
+  const [tagsInput, setTagsInput] = useState('');
+  // Inline "Add new subject…" field in the modal (null while collapsed)
+  const [newSubjectName, setNewSubjectName] = useState<string | null>(null);
 
-  const subjects = ['Math', 'Biology', 'Physics', 'Chemistry', 'History', 'Geography'];
+  const { subjects: allSubjects, reload: reloadSubjects } = useSubjects();
+  const activeSubjects = allSubjects.filter((subject) => !subject.archived);
+  const subjects = activeSubjects.map((subject) => subject.name);
+  const subjectColors = Object.fromEntries(allSubjects.map((subject) => [subject.name, subject.color]));
+
+  // Best guess from the (possibly edited) question text - all questions get the same subject
+  const suggestion = useMemo(
+    () => suggestSubject(questionTexts.join('\n'), subjects),
+    [questionTexts, allSubjects]
+  );
+  const orderedSubjects = suggestion
+    ? [suggestion.subject, ...subjects.filter((subject) => subject !== suggestion.subject)]
+    : subjects;
 
   const onConfirm = () => {
-    // Show the subject selection dialog
+    // Pre-select the suggested subject, then show the subject selection dialog
+    if (suggestion) {
+      setSelectedSubject(suggestion.subject);
+    }
     setShowDialog(true);
   };
 
-  const onSubjectSelect = (subject: string) => {
+  const onSubjectSelect = async (subject: string) => {
     setSelectedSubject(subject);
     setShowDialog(false);
-    if (Platform.OS === 'android') {
-      ToastAndroid.show(`Question saved in ${subject}!`, ToastAndroid.SHORT);
-    }
-    // Here you can save the cropped image and subject
+    setNewSubjectName(null);
     console.log('Selected subject:', subject);
-    console.log('Image URI:', params.photo.uri);
+
+    try {
+      const repository = getQuestionRepository();
+      const tags = parseTags(tagsInput);
+      // One library entry per question
+      const saves: ({ id: string; imageUri: string } | null)[] = [];
+      for (const [index, question] of questions.entries()) {
+        const text = questionTexts[index].trim();
+        const imageUri = imageUriFor(index);
+        const previous = savedQuestions[index];
+        // Filters or rotation applied since the last save replace the stored image
+        const changes = previous?.imageUri === imageUri ? { subject, text, tags } : { subject, text, tags, imageUri };
+        const updated = previous ? await repository.update(previous.id, changes) : null;
+        if (updated) {
+          saves.push({ id: updated.id, imageUri });
+          continue;
+        }
+        const saved = await repository.add({
+          subject,
+          imageUri,
+          text,
+          tags,
+          capturedAt: params.source?.capturedAt ?? Date.now(),
+          crop: question.crop,
+          source: {
+            width: params.source?.width ?? question.photo.width,
+            height: params.source?.height ?? question.photo.height,
+          },
+        });
+        saves.push({ id: saved.id, imageUri });
+      }
+      setSavedQuestions(saves);
+      if (Platform.OS === 'android') {
+        const message = questions.length > 1
+          ? `${questions.length} questions saved in ${subject}!`
+          : `Question saved in ${subject}!`;
+        ToastAndroid.show(message, ToastAndroid.SHORT);
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to save question:', error);
+      Alert.alert('Error', 'Failed to save question: ' + (error?.message || 'Unknown error'));
+    }
+  };
+
+  const onAddSubject = async () => {
+    try {
+      const subject = await getSubjectRepository().add(newSubjectName ?? '');
+      await reloadSubjects();
+      await onSubjectSelect(subject.name);
+    } catch (error: any) {
+      Alert.alert('Error', error?.message || 'Failed to add subject');
+    }
   };
 
   return (
@@ -39,7 +205,7 @@ export default function PreviewScreen() {
           <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
             <Text style={styles.backIcon}>←</Text>
           </TouchableOpacity>
-          <Text style={styles.title}>Preview Question</Text>
+          <Text style={styles.title}>{questions.length > 1 ? `Preview ${questions.length} Questions` : 'Preview Question'}</Text>
           <View style={styles.placeholder} />
         </View>
 
@@ -47,18 +213,98 @@ export default function PreviewScreen() {
         <View style={styles.imageCard}>
           <View style={styles.cardInner}>
             <Image 
-              source={{ uri: params.photo.uri }} 
+              source={{ uri: imageUriFor(currentIndex) }}
               style={styles.previewImage} 
               resizeMode="contain"
             />
+            {isProcessingImage && (
+              <View style={styles.filterOverlay}>
+                <ActivityIndicator color="#fff" />
+              </View>
+            )}
+          </View>
+          {/* Filter strip, with manual rotation at the ends */}
+          <View style={styles.filterStrip}>
+            <TouchableOpacity onPress={() => onRotate(-90)} disabled={isProcessingImage} style={styles.filterChip}>
+              <Text style={styles.filterChipText}>⟲</Text>
+            </TouchableOpacity>
+            {ENHANCEMENT_MODES.map(({ mode, label }) => (
+              <TouchableOpacity
+                key={mode}
+                onPress={() => onFilterSelect(mode)}
+                disabled={isProcessingImage}
+                style={[styles.filterChip, filterModes[currentIndex] === mode && styles.filterChipSelected]}
+              >
+                <Text style={[styles.filterChipText, filterModes[currentIndex] === mode && styles.filterChipTextSelected]}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity onPress={() => onRotate(90)} disabled={isProcessingImage} style={styles.filterChip}>
+              <Text style={styles.filterChipText}>⟳</Text>
+            </TouchableOpacity>
+          </View>
+          {questions.length > 1 ? (
+            <View style={styles.pager}>
+              <TouchableOpacity
+                onPress={() => setCurrentIndex(currentIndex - 1)}
+                disabled={currentIndex === 0}
+                style={[styles.pagerButton, currentIndex === 0 && { opacity: 0.3 }]}
+              >
+                <Text style={styles.pagerButtonText}>‹</Text>
+              </TouchableOpacity>
+              <Text style={styles.imageLabel}>Question {currentIndex + 1} of {questions.length}</Text>
+              <TouchableOpacity
+                onPress={() => setCurrentIndex(currentIndex + 1)}
+                disabled={currentIndex === questions.length - 1}
+                style={[styles.pagerButton, currentIndex === questions.length - 1 && { opacity: 0.3 }]}
+              >
+                <Text style={styles.pagerButtonText}>›</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <Text style={styles.imageLabel}>Detected Question</Text>
+          )}
+        </View>
+
+        {/* Retake guidance when the crop looks hard to read */}
+        {qualityWarnings.length > 0 && (
+          <View style={styles.qualityCard}>
+            {qualityWarnings.map((warning) => (
+              <Text key={warning.issue} style={styles.qualityText}>⚠️ {warning.message}</Text>
+            ))}
           </View>
-          <Text style={styles.imageLabel}>Detected Question</Text>
+        )}
+
+        {/* Recognized question text - editable */}
+        <View style={styles.textCard}>
+          <Text style={styles.textLabel}>Question text</Text>
+          {!ocrAvailable && (
+            <Text style={styles.textNote}>Text recognition isn't available in the app yet (web only)</Text>
+          )}
+          <TextInput
+            style={styles.textInput}
+            value={questionText}
+            onChangeText={setQuestionText}
+            multiline
+            placeholder={current.questionText == null ? 'Text recognition unavailable - type the question here' : 'No text recognized - type the question here'}
+            placeholderTextColor="#6b7280"
+          />
+          <TextInput
+            style={styles.tagsInput}
+            value={tagsInput}
+            onChangeText={setTagsInput}
+            placeholder="Tags, e.g. algebra, exam-2"
+            placeholderTextColor="#6b7280"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
         </View>
 
         {/* Action buttons */}
         <View style={styles.buttonsContainer}>
           <TouchableOpacity 
-            onPress={() => navigation.goBack()} 
+            onPress={() => navigation.navigate('Camera')}
             style={[styles.button, styles.retakeButton]}
           >
             <Text style={styles.retakeButtonText}>Retake</Text>
@@ -84,14 +330,16 @@ export default function PreviewScreen() {
               {/* Question preview in modal */}
               <View style={styles.modalPreviewCard}>
                 <Image 
-                  source={{ uri: params.photo.uri }} 
+                  source={{ uri: imageUriFor(currentIndex) }}
                   style={styles.modalPreviewImage} 
                   resizeMode="contain" 
                 />
               </View>
 
               {/* Question prompt */}
-              <Text style={styles.modalTitle}>What is the question{'\n'}related to?</Text>
+              <Text style={styles.modalTitle}>
+                {questions.length > 1 ? `What are these ${questions.length} questions` : 'What is the question'}{'\n'}related to?
+              </Text>
 
               {/* Subject buttons */}
               <ScrollView 
@@ -99,7 +347,7 @@ export default function PreviewScreen() {
                 showsVerticalScrollIndicator={false}
                 contentContainerStyle={styles.subjectListContent}
               >
-                {subjects.map((subject) => (
+                {orderedSubjects.map((subject) => (
                   <TouchableOpacity
                     key={subject}
                     style={[
@@ -108,9 +356,46 @@ export default function PreviewScreen() {
                     ]}
                     onPress={() => onSubjectSelect(subject)}
                   >
-                    <Text style={styles.subjectButtonText}>{subject}</Text>
+                    <View style={styles.subjectButtonRow}>
+                      <View style={[styles.subjectDot, { backgroundColor: subjectColors[subject] }]} />
+                      <Text style={styles.subjectButtonText}>{subject}</Text>
+                    </View>
+                    {suggestion?.subject === subject && (
+                      <View style={styles.suggestionBadge}>
+                        <Text style={styles.suggestionBadgeText}>
+                          Suggested · {Math.round(suggestion.score * 100)}%
+                        </Text>
+                      </View>
+                    )}
                   </TouchableOpacity>
                 ))}
+
+                {/* Add a subject without leaving the flow */}
+                {newSubjectName === null ? (
+                  <TouchableOpacity style={styles.addSubjectButton} onPress={() => setNewSubjectName('')}>
+                    <Text style={styles.addSubjectButtonText}>Add new subject…</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <View style={styles.addSubjectRow}>
+                    <TextInput
+                      style={styles.addSubjectInput}
+                      value={newSubjectName}
+                      onChangeText={setNewSubjectName}
+                      onSubmitEditing={onAddSubject}
+                      placeholder="Subject name"
+                      placeholderTextColor="#9ca3af"
+                      autoFocus
+                      returnKeyType="done"
+                    />
+                    <TouchableOpacity
+                      style={[styles.addSubjectConfirm, !newSubjectName.trim() && { opacity: 0.5 }]}
+                      disabled={!newSubjectName.trim()}
+                      onPress={onAddSubject}
+                    >
+                      <Text style={styles.addSubjectConfirmText}>Add</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
               </ScrollView>
 
               {/* Swipe indicator */}
@@ -189,6 +474,26 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 12,
   },
+  pager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+  },
+  pagerButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    marginTop: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pagerButtonText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: '700',
+  },
   imageLabel: {
     color: '#9ca3af',
     fontSize: 14,
@@ -197,6 +502,88 @@ const styles = StyleSheet.create({
     marginTop: 16,
   },
   
+  // Recognized text
+  filterOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterStrip: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  filterChipSelected: {
+    backgroundColor: 'rgba(20, 184, 166, 0.15)',
+    borderColor: '#14b8a6',
+  },
+  filterChipText: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterChipTextSelected: {
+    color: '#14b8a6',
+  },
+  qualityCard: {
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    borderColor: '#f59e0b',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 12,
+    gap: 4,
+  },
+  qualityText: {
+    color: '#fbbf24',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  textCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 16,
+    maxHeight: 200,
+  },
+  textLabel: {
+    color: '#9ca3af',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  textNote: {
+    color: '#fbbf24',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  textInput: {
+    color: '#fff',
+    fontSize: 15,
+    lineHeight: 21,
+    minHeight: 44,
+    textAlignVertical: 'top',
+  },
+  tagsInput: {
+    color: '#5eead4',
+    fontSize: 14,
+    borderTopWidth: 1,
+    borderTopColor: '#374151',
+    paddingTop: 8,
+    marginTop: 8,
+  },
+
   // Action buttons
   buttonsContainer: { 
     flexDirection: 'row', 
@@ -301,9 +688,68 @@ const styles = StyleSheet.create({
     backgroundColor: '#d1fae5',
     borderColor: '#14b8a6',
   },
+  subjectButtonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  subjectDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
   subjectButtonText: {
     fontSize: 16,
     fontWeight: '600',
     color: '#1f2937',
   },
+  suggestionBadge: {
+    marginTop: 6,
+    backgroundColor: '#14b8a6',
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  suggestionBadgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  addSubjectButton: {
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: '#d1d5db',
+  },
+  addSubjectButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  addSubjectRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  addSubjectInput: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  addSubjectConfirm: {
+    backgroundColor: '#14b8a6',
+    borderRadius: 16,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  addSubjectConfirmText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
 });
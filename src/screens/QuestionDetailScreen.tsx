@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, SafeAreaView, ScrollView, Alert, ActivityIndicator, Platform, TextInput } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../App';
+import { formatCaptureDate, getQuestionRepository, type SavedQuestion } from '../utils/questionLibrary';
+import { parseTags } from '../utils/subjects';
+import { useSubjects } from '../hooks/useSubjects';
+
+export default function QuestionDetailScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute();
+  const { questionId } = route.params as RootStackParamList['QuestionDetail'];
+  const [question, setQuestion] = useState<SavedQuestion | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tagsInput, setTagsInput] = useState('');
+  const { subjects: allSubjects } = useSubjects();
+
+  useEffect(() => {
+    getQuestionRepository()
+      .get(questionId)
+      .then((saved) => {
+        setQuestion(saved);
+        setTagsInput(saved ? saved.tags.join(', ') : '');
+      })
+      .catch((error) => console.error('❌ Failed to load question:', error))
+      .finally(() => setIsLoading(false));
+  }, [questionId]);
+
+  const onSubjectSelect = async (subject: string) => {
+    if (!question || subject === question.subject) {
+      return;
+    }
+    try {
+      const updated = await getQuestionRepository().update(question.id, { subject });
+      if (updated) {
+        setQuestion(updated);
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to move question:', error);
+      Alert.alert('Error', 'Failed to change subject: ' + (error?.message || 'Unknown error'));
+    }
+  };
+
+  const onTagsCommit = async () => {
+    if (!question) {
+      return;
+    }
+    const tags = parseTags(tagsInput);
+    setTagsInput(tags.join(', '));
+    if (tags.join() === question.tags.join()) {
+      return;
+    }
+    try {
+      const updated = await getQuestionRepository().update(question.id, { tags });
+      if (updated) {
+        setQuestion(updated);
+      }
+    } catch (error: any) {
+      console.error('❌ Failed to update tags:', error);
+      Alert.alert('Error', 'Failed to update tags: ' + (error?.message || 'Unknown error'));
+    }
+  };
+
+  const deleteQuestion = async () => {
+    try {
+      await getQuestionRepository().remove(questionId);
+      navigation.goBack();
+    } catch (error: any) {
+      console.error('❌ Failed to delete question:', error);
+      Alert.alert('Error', 'Failed to delete question: ' + (error?.message || 'Unknown error'));
+    }
+  };
+
+  const onDelete = () => {
+    // Alert buttons aren't supported on web
+    if (Platform.OS === 'web') {
+      if (window.confirm('Delete this question?')) {
+        deleteQuestion();
+      }
+      return;
+    }
+    Alert.alert('Delete question', 'This removes the question and its image.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: deleteQuestion },
+    ]);
+  };
+
+  // Archived subjects stay hidden unless this question is filed under one
+  const subjects = allSubjects
+    .filter((subject) => !subject.archived || subject.name === question?.subject)
+    .map((subject) => subject.name);
+  if (question && !subjects.includes(question.subject)) {
+    subjects.push(question.subject);
+  }
+  const subjectColors = Object.fromEntries(allSubjects.map((subject) => [subject.name, subject.color]));
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={styles.backIcon}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Question</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {isLoading ? (
+          <ActivityIndicator style={styles.loading} color="#14b8a6" />
+        ) : !question ? (
+          <Text style={styles.emptyText}>This question no longer exists</Text>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.imageCard}>
+              <Image source={{ uri: question.imageUri }} style={styles.image} resizeMode="contain" />
+            </View>
+
+            <Text style={styles.meta}>
+              {question.subject} · {formatCaptureDate(question.capturedAt)}
+            </Text>
+
+            {!!question.text && (
+              <View style={styles.textCard}>
+                <Text style={styles.label}>Question text</Text>
+                <Text style={styles.questionText}>{question.text}</Text>
+              </View>
+            )}
+
+            {/* Re-assign subject */}
+            <Text style={styles.label}>Subject</Text>
+            <View style={styles.subjectGrid}>
+              {subjects.map((subject) => (
+                <TouchableOpacity
+                  key={subject}
+                  style={[styles.subjectChip, subject === question.subject && styles.subjectChipSelected]}
+                  onPress={() => onSubjectSelect(subject)}
+                >
+                  <View style={[styles.subjectDot, { backgroundColor: subjectColors[subject] ?? '#64748b' }]} />
+                  <Text style={[styles.subjectChipText, subject === question.subject && styles.subjectChipTextSelected]}>
+                    {subject}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Tags */}
+            <Text style={[styles.label, styles.tagsLabel]}>Tags</Text>
+            <TextInput
+              style={styles.tagsInput}
+              value={tagsInput}
+              onChangeText={setTagsInput}
+              onEndEditing={onTagsCommit}
+              onSubmitEditing={onTagsCommit}
+              placeholder="e.g. algebra, exam-2"
+              placeholderTextColor="#6b7280"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <TouchableOpacity onPress={onDelete} style={styles.deleteButton}>
+              <Text style={styles.deleteButtonText}>Delete question</Text>
+            </TouchableOpacity>
+          </ScrollView>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingTop: 8,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backIcon: {
+    fontSize: 24,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 40,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  imageCard: {
+    height: 260,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 12,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  meta: {
+    color: '#9ca3af',
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  textCard: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    color: '#9ca3af',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  questionText: {
+    color: '#fff',
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  subjectGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  subjectChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 14,
+    backgroundColor: '#2a2a2a',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  subjectChipSelected: {
+    backgroundColor: 'rgba(20, 184, 166, 0.15)',
+    borderColor: '#14b8a6',
+  },
+  subjectDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  subjectChipText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  subjectChipTextSelected: {
+    color: '#14b8a6',
+  },
+  tagsLabel: {
+    marginTop: 20,
+  },
+  tagsInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    color: '#5eead4',
+    fontSize: 15,
+  },
+  deleteButton: {
+    marginTop: 28,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: 'rgba(239, 68, 68, 0.15)',
+  },
+  deleteButtonText: {
+    color: '#ef4444',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, ScrollView, TextInput, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../../App';
+import { getQuestionRepository } from '../utils/questionLibrary';
+import { getSubjectRepository, SUBJECT_COLORS, type Subject, type SubjectChanges } from '../utils/subjects';
+import { useSubjects } from '../hooks/useSubjects';
+
+export default function SubjectsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { subjects, reload } = useSubjects();
+  // Names being edited, keyed by subject id (committed on blur/submit)
+  const [draftNames, setDraftNames] = useState<Record<string, string>>({});
+  const [colorPickerId, setColorPickerId] = useState<string | null>(null);
+  const [newSubjectName, setNewSubjectName] = useState('');
+
+  const showError = (error: any) => {
+    console.error('❌ Subject update failed:', error);
+    Alert.alert('Error', error?.message || 'Failed to update subject');
+  };
+
+  const updateSubject = async (subject: Subject, changes: SubjectChanges) => {
+    try {
+      await getSubjectRepository().update(subject.id, changes);
+      // Questions reference subjects by name, so a rename re-files them
+      if (changes.name !== undefined && changes.name !== subject.name) {
+        const updated = (await getSubjectRepository().list()).find((item) => item.id === subject.id);
+        if (updated) {
+          const moved = await getQuestionRepository().renameSubject(subject.name, updated.name);
+          console.log('🏷️ Renamed subject', subject.name, '->', updated.name, `(${moved} questions)`);
+        }
+      }
+    } catch (error) {
+      showError(error);
+    }
+    await reload();
+  };
+
+  const commitName = async (subject: Subject) => {
+    const draft = draftNames[subject.id];
+    setDraftNames(({ [subject.id]: _, ...rest }) => rest);
+    if (draft !== undefined && draft.trim() !== subject.name) {
+      await updateSubject(subject, { name: draft });
+    }
+  };
+
+  const move = async (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= subjects.length) {
+      return;
+    }
+    const ids = subjects.map((subject) => subject.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    try {
+      await getSubjectRepository().reorder(ids);
+    } catch (error) {
+      showError(error);
+    }
+    await reload();
+  };
+
+  const onAdd = async () => {
+    try {
+      await getSubjectRepository().add(newSubjectName);
+      setNewSubjectName('');
+    } catch (error) {
+      showError(error);
+    }
+    await reload();
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+            <Text style={styles.backIcon}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Subjects</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {subjects.map((subject, index) => (
+            <View key={subject.id} style={[styles.row, subject.archived && styles.rowArchived]}>
+              <View style={styles.rowMain}>
+                <TouchableOpacity
+                  onPress={() => setColorPickerId(colorPickerId === subject.id ? null : subject.id)}
+                  style={[styles.swatch, { backgroundColor: subject.color }]}
+                />
+                <TextInput
+                  style={styles.nameInput}
+                  value={draftNames[subject.id] ?? subject.name}
+                  onChangeText={(text) => setDraftNames((drafts) => ({ ...drafts, [subject.id]: text }))}
+                  onEndEditing={() => commitName(subject)}
+                  onSubmitEditing={() => commitName(subject)}
+                  returnKeyType="done"
+                />
+                <TouchableOpacity
+                  onPress={() => move(index, -1)}
+                  disabled={index === 0}
+                  style={[styles.iconButton, index === 0 && styles.iconButtonDisabled]}
+                >
+                  <Text style={styles.iconButtonText}>↑</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => move(index, 1)}
+                  disabled={index === subjects.length - 1}
+                  style={[styles.iconButton, index === subjects.length - 1 && styles.iconButtonDisabled]}
+                >
+                  <Text style={styles.iconButtonText}>↓</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => updateSubject(subject, { archived: !subject.archived })}
+                  style={styles.archiveButton}
+                >
+                  <Text style={styles.archiveButtonText}>{subject.archived ? 'Restore' : 'Archive'}</Text>
+                </TouchableOpacity>
+              </View>
+
+              {colorPickerId === subject.id && (
+                <View style={styles.palette}>
+                  {SUBJECT_COLORS.map((color) => (
+                    <TouchableOpacity
+                      key={color}
+                      onPress={() => {
+                        setColorPickerId(null);
+                        updateSubject(subject, { color });
+                      }}
+                      style={[
+                        styles.paletteColor,
+                        { backgroundColor: color },
+                        color === subject.color && styles.paletteColorSelected,
+                      ]}
+                    />
+                  ))}
+                </View>
+              )}
+            </View>
+          ))}
+
+          <Text style={styles.hint}>
+            Archived subjects are hidden when filing new questions; questions already in them are kept.
+          </Text>
+
+          {/* New subject */}
+          <View style={styles.addRow}>
+            <TextInput
+              style={styles.addInput}
+              value={newSubjectName}
+              onChangeText={setNewSubjectName}
+              onSubmitEditing={onAdd}
+              placeholder="New subject, e.g. Economics"
+              placeholderTextColor="#6b7280"
+              returnKeyType="done"
+            />
+            <TouchableOpacity
+              onPress={onAdd}
+              disabled={!newSubjectName.trim()}
+              style={[styles.addButton, !newSubjectName.trim() && { opacity: 0.5 }]}
+            >
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a1a',
+    paddingHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 16,
+    paddingTop: 8,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backIcon: {
+    fontSize: 24,
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    paddingBottom: 32,
+  },
+  row: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 16,
+    padding: 10,
+    marginBottom: 8,
+  },
+  rowArchived: {
+    opacity: 0.5,
+  },
+  rowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+  },
+  nameInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconButtonDisabled: {
+    opacity: 0.3,
+  },
+  iconButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  archiveButton: {
+    paddingHorizontal: 10,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+  },
+  archiveButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  palette: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    paddingTop: 12,
+    paddingHorizontal: 4,
+  },
+  paletteColor: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  paletteColorSelected: {
+    borderColor: '#fff',
+  },
+  hint: {
+    color: '#9ca3af',
+    fontSize: 12,
+    marginVertical: 12,
+    textAlign: 'center',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  addInput: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 15,
+  },
+  addButton: {
+    backgroundColor: '#14b8a6',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: '#fff',
+    fontWeight: '700',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createBatchQueue, saveBatchItems, type BatchQueue, type NewBatchItem } from '../batchQueue';
+import { createMemoryQuestionRepository, setQuestionRepository, type QuestionRepository } from '../questionLibrary';
+
+// The platform stores need the native file system
+vi.mock('../questionStore', () => ({ createPersistentQuestionRepository: () => null }));
+
+function capture(name: string, capturedAt = 1): NewBatchItem {
+  return {
+    photo: { uri: `file:///cache/${name}.jpg`, width: 200, height: 80 },
+    crop: { x: 10, y: 20, width: 200, height: 80 },
+    questionText: ` ${name} `,
+    source: { width: 400, height: 300, capturedAt },
+  };
+}
+
+const names = (queue: BatchQueue) => queue.items().map((item) => item.photo.uri.replace(/^.*\/|\.jpg$/g, ''));
+
+describe('batch queue', () => {
+  it('keeps captures in order and notifies on every change', () => {
+    const queue = createBatchQueue();
+    const listener = vi.fn();
+    const unsubscribe = queue.subscribe(listener);
+    queue.add(capture('a'));
+    queue.add(capture('b'));
+    expect(names(queue)).toEqual(['a', 'b']);
+    expect(queue.items()[0].subject).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    queue.clear();
+    expect(queue.items()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('reorders items and ignores moves out of range', () => {
+    const queue = createBatchQueue();
+    ['a', 'b', 'c'].forEach((name) => queue.add(capture(name)));
+    queue.move(0, 2);
+    expect(names(queue)).toEqual(['b', 'c', 'a']);
+    queue.move(2, 0);
+    expect(names(queue)).toEqual(['a', 'b', 'c']);
+
+    const before = queue.items();
+    queue.move(1, 3);
+    queue.move(-1, 0);
+    queue.move(1, 1);
+    expect(queue.items()).toBe(before);
+  });
+
+  it('removes, updates and assigns subjects by id', () => {
+    const queue = createBatchQueue();
+    const [a, b, c] = ['a', 'b', 'c'].map((name) => queue.add(capture(name)));
+    queue.remove(b.id);
+    expect(names(queue)).toEqual(['a', 'c']);
+
+    queue.update(a.id, { questionText: 'edited' });
+    queue.update(b.id, { questionText: 'gone' });
+    expect(queue.items().map((item) => item.questionText)).toEqual(['edited', ' c ']);
+
+    queue.assignSubject([c.id], 'Physics');
+    expect(queue.items().map((item) => item.subject)).toEqual([null, 'Physics']);
+  });
+});
+
+describe('saveBatchItems', () => {
+  afterEach(() => {
+    setQuestionRepository(null);
+  });
+
+  it('files items in queue order and empties the queue', async () => {
+    const repository = createMemoryQuestionRepository();
+    setQuestionRepository(repository);
+    const queue = createBatchQueue();
+    const items = ['a', 'b'].map((name, i) => queue.add(capture(name, i + 1)));
+    queue.assignSubject(items.map((item) => item.id), 'Math');
+
+    const { saved, skipped } = await saveBatchItems(queue);
+    expect(saved.map((question) => question.text)).toEqual(['a', 'b']);
+    expect(saved[0]).toMatchObject({ subject: 'Math', crop: items[0].crop, source: { width: 400, height: 300 }, capturedAt: 1 });
+    expect(skipped).toBe(0);
+    expect(queue.items()).toEqual([]);
+    expect(await repository.list()).toHaveLength(2);
+  });
+
+  it('skips and keeps items without a subject', async () => {
+    setQuestionRepository(createMemoryQuestionRepository());
+    const queue = createBatchQueue();
+    const [a, , c] = ['a', 'b', 'c'].map((name) => queue.add(capture(name)));
+    queue.assignSubject([a.id, c.id], 'Biology');
+
+    const { saved, skipped } = await saveBatchItems(queue);
+    expect(saved.map((question) => question.text)).toEqual(['a', 'c']);
+    expect(skipped).toBe(1);
+    expect(names(queue)).toEqual(['b']);
+  });
+
+  it('leaves the rest queued when a save fails part-way', async () => {
+    const memory = createMemoryQuestionRepository();
+    let adds = 0;
+    const repository: QuestionRepository = {
+      ...memory,
+      add: async (question) => {
+        if (++adds === 2) throw new Error('Disk full');
+        return memory.add(question);
+      },
+    };
+    setQuestionRepository(repository);
+    const queue = createBatchQueue();
+    const items = ['a', 'b', 'c'].map((name) => queue.add(capture(name)));
+    queue.assignSubject(items.map((item) => item.id), 'Math');
+
+    await expect(saveBatchItems(queue)).rejects.toThrow('Disk full');
+    expect((await memory.list()).map((question) => question.text)).toEqual(['a']);
+    expect(names(queue)).toEqual(['b', 'c']);
+  });
+});
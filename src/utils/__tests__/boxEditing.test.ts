@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  boxLimitsFor,
+  clampBox,
+  nudgeBox,
+  nudgeQuad,
+  nudgeQuadCorner,
+  resizeBox,
+  NUDGE_STEP_LARGE,
+  type BoxLimits,
+} from '../boxEditing';
+import type { Quad } from '../perspective';
+
+const limits: BoxLimits = {
+  bounds: { width: 400, height: 300 },
+  minSize: { width: 60, height: 24 },
+  maxSize: { width: 380, height: 120 },
+};
+const box = { x: 100, y: 100, width: 150, height: 60 };
+
+describe('resizeBox', () => {
+  it('moves only the dragged edge for side handles', () => {
+    expect(resizeBox(box, 'L', -20, 15, limits)).toEqual({ x: 80, y: 100, width: 170, height: 60 });
+    expect(resizeBox(box, 'R', 30, 15, limits)).toEqual({ x: 100, y: 100, width: 180, height: 60 });
+    expect(resizeBox(box, 'T', 15, -10, limits)).toEqual({ x: 100, y: 90, width: 150, height: 70 });
+    expect(resizeBox(box, 'B', 15, 10, limits)).toEqual({ x: 100, y: 100, width: 150, height: 70 });
+  });
+
+  it('moves both edges for corner handles', () => {
+    expect(resizeBox(box, 'TL', -10, -10, limits)).toEqual({ x: 90, y: 90, width: 160, height: 70 });
+    expect(resizeBox(box, 'BR', 10, 10, limits)).toEqual({ x: 100, y: 100, width: 160, height: 70 });
+  });
+
+  it('stops at the minimum size without moving the opposite edge', () => {
+    expect(resizeBox(box, 'L', 200, 0, limits)).toEqual({ x: 190, y: 100, width: 60, height: 60 });
+    expect(resizeBox(box, 'T', 0, 100, limits)).toEqual({ x: 100, y: 136, width: 150, height: 24 });
+  });
+
+  it('stops at the maximum size and the bounds', () => {
+    expect(resizeBox(box, 'B', 0, 200, limits)).toEqual({ x: 100, y: 100, width: 150, height: 120 });
+    expect(resizeBox(box, 'R', 500, 0, limits)).toEqual({ x: 100, y: 100, width: 300, height: 60 });
+    expect(resizeBox(box, 'TL', -500, -500, limits)).toEqual({ x: 0, y: 40, width: 250, height: 120 });
+  });
+});
+
+describe('boxLimitsFor', () => {
+  const container = { width: 400, height: 300 };
+
+  it('uses the per-mode defaults', () => {
+    expect(boxLimitsFor('rect', container)).toEqual({
+      bounds: container,
+      minSize: { width: 60, height: 24 },
+      maxSize: { width: 380, height: 120 },
+    });
+    expect(boxLimitsFor('quad', container).minSize).toEqual({ width: 40, height: 24 });
+  });
+
+  it('applies overrides to their mode only', () => {
+    const min = { quad: { width: 20, height: 20 } };
+    const max = { rect: { width: 1, height: 1 } };
+    expect(boxLimitsFor('quad', container, min, max)).toMatchObject({
+      minSize: { width: 20, height: 20 },
+      maxSize: { width: 380, height: 120 },
+    });
+    expect(boxLimitsFor('rect', container, min, max)).toMatchObject({
+      minSize: { width: 60, height: 24 },
+      maxSize: { width: 400, height: 300 },
+    });
+  });
+
+  it('clamps a box to the limits of its mode', () => {
+    const tiny = { x: 390, y: 290, width: 30, height: 10 };
+    expect(clampBox(tiny, boxLimitsFor('rect', container))).toEqual({ x: 340, y: 276, width: 60, height: 24 });
+    expect(clampBox(tiny, boxLimitsFor('quad', container))).toEqual({ x: 360, y: 276, width: 40, height: 24 });
+    const huge = { x: -10, y: -10, width: 500, height: 500 };
+    expect(clampBox(huge, boxLimitsFor('rect', container, undefined, { rect: { width: 0.5, height: 0.5 } })))
+      .toEqual({ x: 0, y: 0, width: 200, height: 150 });
+  });
+});
+
+describe('nudges', () => {
+  it('moves the box by the step', () => {
+    expect(nudgeBox(box, 'left', {}, limits)).toMatchObject({ x: 99, y: 100 });
+    expect(nudgeBox(box, 'down', { step: NUDGE_STEP_LARGE }, limits)).toMatchObject({ x: 100, y: 110 });
+  });
+
+  it('stops at the bounds', () => {
+    const atCorner = { x: 2, y: 236, width: 150, height: 60 };
+    expect(nudgeBox(atCorner, 'left', { step: NUDGE_STEP_LARGE }, limits)).toMatchObject({ x: 0 });
+    expect(nudgeBox(atCorner, 'down', { step: NUDGE_STEP_LARGE }, limits)).toMatchObject({ y: 240 });
+  });
+
+  it('resizes from the right and bottom edges within the size limits', () => {
+    expect(nudgeBox(box, 'right', { resize: true }, limits)).toEqual({ ...box, width: 151 });
+    expect(nudgeBox(box, 'up', { resize: true, step: NUDGE_STEP_LARGE }, limits)).toEqual({ ...box, height: 50 });
+    const smallest = { ...box, width: 60, height: 24 };
+    expect(nudgeBox(smallest, 'left', { resize: true }, limits)).toEqual(smallest);
+    expect(nudgeBox({ ...box, height: 120 }, 'down', { resize: true }, limits)).toEqual({ ...box, height: 120 });
+  });
+
+  const quad: Quad = {
+    topLeft: { x: 5, y: 20 },
+    topRight: { x: 200, y: 10 },
+    bottomRight: { x: 210, y: 120 },
+    bottomLeft: { x: 10, y: 130 },
+  };
+
+  it('keeps a moved quad inside the bounds', () => {
+    const moved = nudgeQuad(quad, 'left', { step: NUDGE_STEP_LARGE }, limits.bounds);
+    expect(moved.topLeft).toEqual({ x: 0, y: 20 });
+    expect(moved.bottomRight).toEqual({ x: 205, y: 120 });
+    expect(nudgeQuad(quad, 'down', {}, limits.bounds).topRight).toEqual({ x: 200, y: 11 });
+  });
+
+  it('moves a single corner up to the bounds', () => {
+    const moved = nudgeQuadCorner(quad, 'topRight', 'up', { step: NUDGE_STEP_LARGE }, limits.bounds);
+    expect(moved.topRight).toEqual({ x: 200, y: 0 });
+    expect(moved.topLeft).toBe(quad.topLeft);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { detectOrientation, estimateSkewAngle, rotateGrayQuarter, rotateRgba } from '../deskew';
+import { toGrayscale } from '../pixelAnalysis';
+import { drawGray, grayToRgba } from './helpers';
+
+// Six lines of words across a 240x160 page; each word is an x-height body
+// with an ascender, so the ink sits low in the line like upright Latin text
+function textPage() {
+  const words = [0, 24, 40, 52, 62, 76].flatMap((y) =>
+    [0, 1, 2, 3, 4, 5, 6, 7].flatMap((i) => [
+      { x: 16 + i * 26, y: y + 23, width: 18, height: 5 },
+      { x: 16 + i * 26, y: y + 20, width: 3, height: 3 },
+    ])
+  );
+  return drawGray(240, 160, words);
+}
+
+describe('estimateSkewAngle', () => {
+  it.each([-8, -3.5, 2, 6])('recovers a page tilted by %s degrees', (degrees) => {
+    const tilted = toGrayscale(rotateRgba(grayToRgba(textPage()), degrees));
+    expect(Math.abs(estimateSkewAngle(tilted) - degrees)).toBeLessThanOrEqual(0.5);
+  });
+
+  it('leaves level text at 0', () => {
+    expect(estimateSkewAngle(textPage())).toBe(0);
+  });
+
+  it('returns 0 without ink', () => {
+    expect(estimateSkewAngle(drawGray(120, 80, []))).toBe(0);
+  });
+});
+
+describe('detectOrientation', () => {
+  it('turns sideways text upright', () => {
+    expect(detectOrientation(textPage())).toBe(0);
+    expect(detectOrientation(rotateGrayQuarter(textPage(), 90))).toBe(270);
+    expect(detectOrientation(rotateGrayQuarter(textPage(), 270))).toBe(90);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  detectQuestions,
+  getDetectionSettings,
+  getDetector,
+  loadDetectionSettings,
+  sanitizeDetectionSettings,
+  setDetectionSettings,
+  type DetectionSettings,
+  type DetectionSettingsStorage,
+} from '../detectors';
+import { downscaleGray } from '../pixelAnalysis';
+import { resizeRect } from '../geometry';
+import { fixtureGray, loadFixture, overlapRatio } from './helpers';
+
+function memoryStorage(initial: unknown = null): DetectionSettingsStorage & { saved: DetectionSettings[] } {
+  const saved: DetectionSettings[] = [];
+  return {
+    saved,
+    read: async () => initial,
+    write: async (settings) => {
+      saved.push(settings);
+    },
+  };
+}
+
+describe('sanitizeDetectionSettings', () => {
+  it('keeps valid stored settings', () => {
+    const stored = {
+      live: { chain: ['heuristic'], minConfidence: 0.1 },
+      import: { chain: ['pixel-density', 'segmentation'], minConfidence: 0.5 },
+    };
+    expect(sanitizeDetectionSettings(stored)).toEqual(stored);
+  });
+
+  it('drops unknown detectors and falls back per mode', () => {
+    const settings = sanitizeDetectionSettings({
+      live: { chain: ['removed-detector', 'pixel-density', 'pixel-density'], minConfidence: 3 },
+      import: { chain: ['removed-detector'] },
+    });
+    expect(settings.live).toEqual({ chain: ['pixel-density'], minConfidence: DEFAULT_DETECTION_SETTINGS.live.minConfidence });
+    expect(settings.import).toEqual(DEFAULT_DETECTION_SETTINGS.import);
+  });
+
+  it('ignores garbage', () => {
+    expect(sanitizeDetectionSettings('not settings')).toEqual(DEFAULT_DETECTION_SETTINGS);
+    expect(sanitizeDetectionSettings({ live: { chain: 'heuristic' } })).toEqual(DEFAULT_DETECTION_SETTINGS);
+  });
+});
+
+describe('detection settings persistence', () => {
+  afterEach(async () => {
+    await loadDetectionSettings(memoryStorage());
+    setDetectionSettings(null);
+  });
+
+  it('restores saved settings', async () => {
+    const stored = { ...DEFAULT_DETECTION_SETTINGS, live: { chain: ['heuristic'], minConfidence: 0 } };
+    await loadDetectionSettings(memoryStorage(stored));
+    expect(getDetectionSettings()).toEqual(stored);
+  });
+
+  it('saves every change', async () => {
+    const storage = memoryStorage();
+    await loadDetectionSettings(storage);
+    setDetectionSettings({ import: { chain: ['pixel-density'], minConfidence: 0.6 } });
+    setDetectionSettings(null);
+    expect(storage.saved).toHaveLength(2);
+    expect(storage.saved[0].import).toEqual({ chain: ['pixel-density'], minConfidence: 0.6 });
+    expect(storage.saved[1]).toEqual(DEFAULT_DETECTION_SETTINGS);
+  });
+
+  it('keeps the defaults when the stored settings can\'t be read', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = memoryStorage();
+    storage.read = async () => {
+      throw new Error('corrupt file');
+    };
+    expect(await loadDetectionSettings(storage)).toEqual(DEFAULT_DETECTION_SETTINGS);
+    error.mockRestore();
+  });
+});
+
+describe('default import chain', () => {
+  it('starts with segmentation, the detector with the best recall', () => {
+    expect(DEFAULT_DETECTION_SETTINGS.import.chain[0]).toBe('segmentation');
+  });
+
+  it('falls back to the text density analysis', () => {
+    expect(DEFAULT_DETECTION_SETTINGS.import.chain).toContain('text-density');
+    const { image, questions } = loadFixture('multiple-choice');
+    const frame = downscaleGray(fixtureGray('multiple-choice'), 200);
+    const [detection] = getDetector('text-density')!.detect(frame)!;
+    // The whole question, answer options included
+    expect(overlapRatio(resizeRect(detection.rect, frame, image), questions[0])).toBeGreaterThan(0.8);
+  });
+
+  it('finds both questions on a two-question page', () => {
+    const { image, questions } = loadFixture('two-numbered');
+    const frame = downscaleGray(fixtureGray('two-numbered'), 200);
+    const result = detectQuestions(frame, 'import');
+    expect(result?.confident).toBe(true);
+    const found = result!.detections.map(({ rect }) => resizeRect(rect, frame, image));
+    for (const question of questions) {
+      expect(Math.max(...found.map((rect) => overlapRatio(rect, question)))).toBeGreaterThan(0.5);
+    }
+  });
+});
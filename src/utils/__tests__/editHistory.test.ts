@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createEditHistory, pushEdit, redoEdit, undoEdit, type EditHistory } from '../editHistory';
+
+const pushAll = (history: EditHistory<number>, states: number[], limit?: number) =>
+  states.reduce((current, state) => pushEdit(current, state, limit), history);
+
+describe('edit history', () => {
+  it('undoes back to the untouched state and redoes forward', () => {
+    let history = pushAll(createEditHistory<number>(), [1, 2]);
+    history = undoEdit(history);
+    expect(history.present).toBe(1);
+    history = undoEdit(history);
+    expect(history.present).toBeNull();
+    expect(undoEdit(history)).toBe(history);
+
+    history = redoEdit(redoEdit(history));
+    expect(history.present).toBe(2);
+    expect(redoEdit(history)).toBe(history);
+  });
+
+  it('forgets the oldest steps beyond the limit', () => {
+    const history = pushAll(createEditHistory<number>(), [1, 2, 3, 4, 5], 3);
+    expect(history.past).toEqual([2, 3, 4]);
+
+    const undone = undoEdit(undoEdit(undoEdit(history)));
+    expect(undone.present).toBe(2);
+    expect(undoEdit(undone)).toBe(undone);
+  });
+
+  it('drops the redo branch on a new edit', () => {
+    const history = undoEdit(undoEdit(pushAll(createEditHistory<number>(), [1, 2, 3])));
+    expect(history.future).toEqual([2, 3]);
+
+    const edited = pushEdit(history, 10);
+    expect(edited).toMatchObject({ past: [null, 1], present: 10, future: [] });
+    expect(redoEdit(edited)).toBe(edited);
+  });
+
+  it('ignores a push of the current state', () => {
+    const state = { x: 1 };
+    const history = pushEdit(createEditHistory<typeof state>(), state);
+    expect(pushEdit(history, state)).toBe(history);
+  });
+
+  it('folds merged pushes into one step', () => {
+    // A held arrow key: the first press is a step, its repeats extend it
+    let history = pushAll(createEditHistory<number>(), [5]);
+    history = pushEdit(history, 6);
+    history = pushEdit(history, 7, undefined, true);
+    history = pushEdit(history, 8, undefined, true);
+    expect(history).toMatchObject({ past: [null, 5], present: 8, future: [] });
+    expect(undoEdit(history).present).toBe(5);
+  });
+
+  it('starts a new step when a merge would overwrite an undone state', () => {
+    const undone = undoEdit(pushAll(createEditHistory<number>(), [1, 2]));
+    const merged = pushEdit(undone, 3, undefined, true);
+    expect(merged).toMatchObject({ past: [null, 1], present: 3, future: [] });
+    // Nothing to merge into on a fresh history either
+    expect(pushEdit(createEditHistory<number>(), 1, undefined, true).past).toEqual([null]);
+  });
+});
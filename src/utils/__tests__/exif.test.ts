@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { readJpegInfo, readTiffOrientation, readTiffThumbnail } from '../exif';
+import { orientationFromExif, UPRIGHT } from '../geometry';
+import { matchesOrientation, orientGray } from '../deskew';
+import { drawGray } from './helpers';
+
+type ByteOrder = 'II' | 'MM';
+
+const STORED = { width: 640, height: 480 };
+const THUMBNAIL = [0xff, 0xd8, 0x12, 0x34, 0x56, 0xff, 0xd9];
+
+const EXPECTED_ORIENTATIONS = [
+  { tag: 1, rotation: 0, mirrored: false },
+  { tag: 2, rotation: 0, mirrored: true },
+  { tag: 3, rotation: 180, mirrored: false },
+  { tag: 4, rotation: 180, mirrored: true },
+  { tag: 5, rotation: 90, mirrored: true },
+  { tag: 6, rotation: 90, mirrored: false },
+  { tag: 7, rotation: 270, mirrored: true },
+  { tag: 8, rotation: 270, mirrored: false },
+];
+
+/**
+ * TIFF payload of an APP1 Exif segment: IFD0 with the Orientation tag (when
+ * given), IFD1 pointing at a thumbnail (when asked for), then the thumbnail
+ */
+function tiffPayload(order: ByteOrder, orientation: number | null, withThumbnail = true): number[] {
+  const bytes: number[] = [];
+  const u16 = (value: number) => (order === 'II'
+    ? bytes.push(value & 0xff, value >> 8)
+    : bytes.push(value >> 8, value & 0xff));
+  const u32 = (value: number) => (order === 'II'
+    ? bytes.push(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24)
+    : bytes.push(value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff));
+  const entry = (tag: number, type: number, value: number) => {
+    u16(tag);
+    u16(type);
+    u32(1);
+    if (type === 3) {
+      // SHORT, left-aligned in the value field
+      u16(value);
+      u16(0);
+    } else {
+      u32(value);
+    }
+  };
+
+  bytes.push(order.charCodeAt(0), order.charCodeAt(1));
+  u16(42);
+  u32(8);
+
+  const ifd0Entries = orientation === null ? 0 : 1;
+  const ifd1 = 8 + 2 + ifd0Entries * 12 + 4;
+  u16(ifd0Entries);
+  if (orientation !== null) entry(0x0112, 3, orientation);
+  u32(withThumbnail ? ifd1 : 0);
+
+  if (withThumbnail) {
+    const thumbnailAt = ifd1 + 2 + 2 * 12 + 4;
+    u16(2);
+    entry(0x0201, 4, thumbnailAt);
+    entry(0x0202, 4, THUMBNAIL.length);
+    u32(0);
+    bytes.push(...THUMBNAIL);
+  }
+  return bytes;
+}
+
+function segment(marker: number, payload: number[]): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+}
+
+/**
+ * JPEG headers as a camera writes them: SOI, JFIF, Exif, then the frame
+ * header and the start of the scan
+ */
+function jpegHeader(tiff: number[] | null): Uint8Array {
+  const jfif = [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0];
+  const exif = tiff ? segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff]) : [];
+  const frame = segment(0xc0, [8, STORED.height >> 8, STORED.height & 0xff, STORED.width >> 8, STORED.width & 0xff, 1, 1, 0x11, 0]);
+  return new Uint8Array([0xff, 0xd8, ...segment(0xe0, jfif), ...exif, ...frame, 0xff, 0xda, 0, 8]);
+}
+
+describe.each(['II', 'MM'] as ByteOrder[])('EXIF in %s byte order', (order) => {
+  it.each(EXPECTED_ORIENTATIONS)('reads orientation $tag', ({ tag, rotation, mirrored }) => {
+    const info = readJpegInfo(jpegHeader(tiffPayload(order, tag)));
+    expect(info?.orientation).toBe(tag);
+    expect(info?.stored).toEqual(STORED);
+    expect(orientationFromExif(info?.orientation)).toEqual({ rotation, mirrored });
+  });
+
+  it('finds the thumbnail', () => {
+    const bytes = jpegHeader(tiffPayload(order, 6));
+    const { offset, length } = readJpegInfo(bytes)!.thumbnail!;
+    expect(Array.from(bytes.slice(offset, offset + length))).toEqual(THUMBNAIL);
+    expect(readTiffThumbnail(new Uint8Array(tiffPayload(order, 6)))?.length).toBe(THUMBNAIL.length);
+  });
+
+  it('has no thumbnail without IFD1', () => {
+    expect(readJpegInfo(jpegHeader(tiffPayload(order, 3, false)))?.thumbnail).toBeNull();
+  });
+
+  it('treats a missing Orientation tag as 1', () => {
+    const tiff = new Uint8Array(tiffPayload(order, null));
+    expect(readTiffOrientation(tiff)).toBeNull();
+    expect(readJpegInfo(jpegHeader(Array.from(tiff)))?.orientation).toBe(1);
+  });
+
+  it('ignores out-of-range tag values', () => {
+    expect(readTiffOrientation(new Uint8Array(tiffPayload(order, 9)))).toBeNull();
+    expect(readJpegInfo(jpegHeader(tiffPayload(order, 0)))?.orientation).toBe(1);
+  });
+});
+
+describe('readJpegInfo', () => {
+  it('rejects other formats', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    expect(readJpegInfo(png)).toBeNull();
+    expect(readJpegInfo(new Uint8Array([]))).toBeNull();
+  });
+
+  it('reads a JPEG without EXIF as upright', () => {
+    const info = readJpegInfo(jpegHeader(null));
+    expect(info).toEqual({ orientation: 1, stored: STORED, thumbnail: null });
+    expect(orientationFromExif(info?.orientation)).toEqual(UPRIGHT);
+  });
+
+  it('skips fill bytes between segments', () => {
+    const bytes = jpegHeader(tiffPayload('MM', 8));
+    const padded = new Uint8Array([0xff, 0xd8, 0xff, 0xff, ...bytes.slice(2)]);
+    expect(readJpegInfo(padded)?.orientation).toBe(8);
+  });
+
+  it('survives headers cut short', () => {
+    const bytes = jpegHeader(tiffPayload('II', 6));
+    for (let length = 0; length < bytes.length; length++) {
+      expect(() => readJpegInfo(bytes.slice(0, length))).not.toThrow();
+    }
+    // Cut inside the Exif block: no frame header yet, so no size
+    expect(readJpegInfo(bytes.slice(0, 40))?.stored).toBeNull();
+  });
+
+  it('rejects TIFF payloads with a bad header', () => {
+    expect(readTiffOrientation(new Uint8Array([0x49, 0x49, 0, 0, 8, 0, 0, 0]))).toBeNull();
+    expect(readTiffOrientation(new Uint8Array([0x58, 0x58, 42, 0, 8, 0, 0, 0]))).toBeNull();
+  });
+});
+
+describe('matchesOrientation', () => {
+  // Asymmetric page, so every orientation looks different
+  const stored = drawGray(64, 48, [
+    { x: 4, y: 4, width: 30, height: 6 },
+    { x: 4, y: 14, width: 12, height: 20 },
+  ]);
+
+  it.each(EXPECTED_ORIENTATIONS.filter(({ tag }) => tag !== 1))(
+    'tells whether tag $tag was applied',
+    ({ tag }) => {
+      const orientation = orientationFromExif(tag);
+      expect(matchesOrientation(orientGray(stored, orientation), stored, orientation)).toBe(true);
+      expect(matchesOrientation(stored, stored, orientation)).toBe(false);
+    }
+  );
+
+  it('compares pictures decoded at different sizes', () => {
+    const orientation = orientationFromExif(3);
+    const big = drawGray(256, 192, [
+      { x: 16, y: 16, width: 120, height: 24 },
+      { x: 16, y: 56, width: 48, height: 80 },
+    ]);
+    expect(matchesOrientation(orientGray(big, orientation), stored, orientation)).toBe(true);
+    expect(matchesOrientation(big, stored, orientation)).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  imageRectToView,
+  orientationFromExif,
+  orientedSize,
+  orientPoint,
+  placeContent,
+  resizeRect,
+  unorientPoint,
+  UPRIGHT,
+  viewPointToImage,
+  viewRectToImage,
+  type FitMode,
+  type Point,
+  type Size,
+} from '../geometry';
+import type { Rect } from '../imageUtils';
+
+const EXIF_ORIENTATIONS = [1, 2, 3, 4, 5, 6, 7, 8];
+const FIT_MODES: FitMode[] = ['contain', 'cover'];
+const RUNS = 200;
+
+/**
+ * Small seeded generator, so a failing case can be replayed
+ */
+function random(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  return {
+    between: (min: number, max: number) => min + next() * (max - min),
+    size: (): Size => ({ width: Math.round(50 + next() * 4000), height: Math.round(50 + next() * 4000) }),
+    pointIn: (size: Size): Point => ({ x: next() * size.width, y: next() * size.height }),
+    rectIn: (size: Size): Rect => {
+      const x = next() * size.width;
+      const y = next() * size.height;
+      return { x, y, width: next() * (size.width - x), height: next() * (size.height - y) };
+    },
+  };
+}
+
+function expectPointClose(actual: Point, expected: Point) {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+}
+
+function expectRectClose(actual: Rect, expected: Rect, digits = 6) {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+  expect(actual.width).toBeCloseTo(expected.width, digits);
+  expect(actual.height).toBeCloseTo(expected.height, digits);
+}
+
+describe('orientationFromExif', () => {
+  it('gives each EXIF tag its own orientation', () => {
+    const orientations = EXIF_ORIENTATIONS.map((tag) => JSON.stringify(orientationFromExif(tag)));
+    expect(new Set(orientations).size).toBe(8);
+    expect(orientationFromExif(1)).toEqual(UPRIGHT);
+    expect(orientationFromExif(6)).toEqual({ rotation: 90, mirrored: false });
+    expect(orientationFromExif(8)).toEqual({ rotation: 270, mirrored: false });
+  });
+
+  it('treats missing and invalid tags as upright', () => {
+    for (const value of [undefined, null, 0, 9, -1]) {
+      expect(orientationFromExif(value)).toEqual(UPRIGHT);
+    }
+  });
+
+  it('swaps width and height for the sideways tags only', () => {
+    const stored = { width: 400, height: 300 };
+    for (const tag of EXIF_ORIENTATIONS) {
+      const expected = tag >= 5 ? { width: 300, height: 400 } : stored;
+      expect(orientedSize(stored, orientationFromExif(tag))).toEqual(expected);
+    }
+  });
+});
+
+describe.each(EXIF_ORIENTATIONS)('EXIF orientation %i', (tag) => {
+  const orientation = orientationFromExif(tag);
+
+  it('unorientPoint undoes orientPoint', () => {
+    const rng = random(tag);
+    for (let run = 0; run < RUNS; run++) {
+      const stored = rng.size();
+      const point = rng.pointIn(stored);
+      expectPointClose(unorientPoint(orientPoint(point, stored, orientation), stored, orientation), point);
+    }
+  });
+
+  it('orientPoint undoes unorientPoint', () => {
+    const rng = random(100 + tag);
+    for (let run = 0; run < RUNS; run++) {
+      const stored = rng.size();
+      const point = rng.pointIn(orientedSize(stored, orientation));
+      expectPointClose(orientPoint(unorientPoint(point, stored, orientation), stored, orientation), point);
+    }
+  });
+
+  it('keeps stored pixels inside the upright picture', () => {
+    const rng = random(200 + tag);
+    for (let run = 0; run < RUNS; run++) {
+      const stored = rng.size();
+      const upright = orientedSize(stored, orientation);
+      const point = orientPoint(rng.pointIn(stored), stored, orientation);
+      expect(point.x).toBeGreaterThanOrEqual(0);
+      expect(point.y).toBeGreaterThanOrEqual(0);
+      expect(point.x).toBeLessThanOrEqual(upright.width);
+      expect(point.y).toBeLessThanOrEqual(upright.height);
+    }
+  });
+
+  it.each(FIT_MODES)('viewRectToImage undoes imageRectToView (%s)', (mode) => {
+    const rng = random(300 + tag + (mode === 'cover' ? 50 : 0));
+    for (let run = 0; run < RUNS; run++) {
+      const stored = rng.size();
+      const view = { width: rng.between(200, 1200), height: rng.between(200, 1200) };
+      const rect = rng.rectIn(stored);
+      const inView = imageRectToView(rect, stored, view, mode, orientation);
+      expectRectClose(viewRectToImage(inView, view, stored, mode, orientation), rect, 4);
+    }
+  });
+});
+
+describe('view mapping', () => {
+  it('shows the whole image inside the view with contain', () => {
+    const rng = random(400);
+    for (let run = 0; run < RUNS; run++) {
+      const stored = rng.size();
+      const view = { width: rng.between(200, 1200), height: rng.between(200, 1200) };
+      const rect = imageRectToView({ x: 0, y: 0, ...stored }, stored, view, 'contain');
+      expect(rect.x).toBeGreaterThanOrEqual(-1e-6);
+      expect(rect.y).toBeGreaterThanOrEqual(-1e-6);
+      expect(rect.x + rect.width).toBeLessThanOrEqual(view.width + 1e-6);
+      expect(rect.y + rect.height).toBeLessThanOrEqual(view.height + 1e-6);
+    }
+  });
+
+  it('fills the view with cover', () => {
+    const placement = placeContent({ width: 4000, height: 3000 }, { width: 390, height: 844 }, 'cover');
+    expect(4000 * placement.scale).toBeGreaterThanOrEqual(390);
+    expect(3000 * placement.scale).toBeCloseTo(844, 6);
+  });
+
+  it('clamps view points beyond the image to its edge', () => {
+    const stored = { width: 400, height: 300 };
+    const view = { width: 800, height: 800 };
+    expect(viewPointToImage({ x: -50, y: 10_000 }, view, stored, 'contain')).toEqual({ x: 0, y: 300 });
+  });
+
+  it('resizeRect round-trips between sizes', () => {
+    const rng = random(500);
+    for (let run = 0; run < RUNS; run++) {
+      const from = rng.size();
+      const to = rng.size();
+      const rect = rng.rectIn(from);
+      expectRectClose(resizeRect(resizeRect(rect, from, to), to, from), rect);
+    }
+  });
+});
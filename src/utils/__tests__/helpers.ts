@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodePng, type RgbaImage } from '../png';
+import { toGrayscale, type GrayImage } from '../pixelAnalysis';
+import type { Rect } from '../imageUtils';
+
+// Labelled pages shared with the detection benchmark
+const FIXTURE_DIR = join(__dirname, '../../../scripts/fixtures/detection');
+
+export function loadFixture(name: string): { image: RgbaImage; questions: Rect[] } {
+  const image = decodePng(new Uint8Array(readFileSync(join(FIXTURE_DIR, `${name}.png`))));
+  const { questions } = JSON.parse(readFileSync(join(FIXTURE_DIR, `${name}.json`), 'utf8'));
+  return { image, questions };
+}
+
+/**
+ * Solid paper-coloured image with dark rectangles drawn on it
+ */
+export function drawGray(width: number, height: number, inkRects: Rect[], paper = 235, ink = 25): GrayImage {
+  const data = new Uint8Array(width * height).fill(paper);
+  for (const rect of inkRects) {
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) data[y * width + x] = ink;
+    }
+  }
+  return { width, height, data };
+}
+
+export function grayToRgba(gray: GrayImage): RgbaImage {
+  const data = new Uint8Array(gray.width * gray.height * 4);
+  for (let i = 0; i < gray.data.length; i++) {
+    data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray.data[i];
+    data[i * 4 + 3] = 255;
+  }
+  return { width: gray.width, height: gray.height, data };
+}
+
+export function fixtureGray(name: string): GrayImage {
+  return toGrayscale(loadFixture(name).image);
+}
+
+export function overlapRatio(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { enhanceImage, ENHANCEMENT_MODES, estimateBackground } from '../imageEnhancement';
+import type { RgbaImage } from '../png';
+import { toGrayscale, type GrayImage } from '../pixelAnalysis';
+import { drawGray, grayToRgba, loadFixture } from './helpers';
+
+/**
+ * Text on paper lit from the left - the right side sits in a shadow
+ */
+function shadowedPage(width: number, height: number): RgbaImage {
+  const strokes = [];
+  for (let y = 2; y + 2 <= height; y += 5) {
+    for (let x = 2; x + 2 <= width; x += 4) strokes.push({ x, y, width: 2, height: 2 });
+  }
+  const gray = drawGray(width, height, strokes, 235, 30);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const light = 1 - 0.5 * (x / (width - 1));
+      gray.data[y * width + x] = Math.round(gray.data[y * width + x] * light);
+    }
+  }
+  return grayToRgba(gray);
+}
+
+// One channel per pixel, row by row - readable in the snapshot file
+function grayRows(image: RgbaImage): string[] {
+  const rows = [];
+  for (let y = 0; y < image.height; y++) {
+    const row = [];
+    for (let x = 0; x < image.width; x++) row.push(String(image.data[(y * image.width + x) * 4]).padStart(3));
+    rows.push(row.join(' '));
+  }
+  return rows;
+}
+
+function digest(image: RgbaImage) {
+  return {
+    width: image.width,
+    height: image.height,
+    sha256: createHash('sha256').update(image.data).digest('hex'),
+  };
+}
+
+const mean = (gray: GrayImage, x0: number, x1: number) => {
+  let sum = 0;
+  let count = 0;
+  for (let y = 0; y < gray.height; y++) {
+    for (let x = x0; x < x1; x++) {
+      sum += gray.data[y * gray.width + x];
+      count++;
+    }
+  }
+  return sum / count;
+};
+
+describe('enhanceImage', () => {
+  const modes = ENHANCEMENT_MODES.map(({ mode }) => mode);
+
+  it.each(modes)('%s matches its snapshot on a shadowed page', (mode) => {
+    expect(grayRows(enhanceImage(shadowedPage(16, 12), mode))).toMatchSnapshot();
+  });
+
+  it.each(modes)('%s matches its snapshot on a fixture page', (mode) => {
+    expect(digest(enhanceImage(loadFixture('single-question').image, mode))).toMatchSnapshot();
+  });
+
+  it('returns the original image untouched', () => {
+    const image = shadowedPage(16, 12);
+    expect(enhanceImage(image, 'original')).toBe(image);
+  });
+
+  it('gives byte-identical output for the same input', () => {
+    const { image } = loadFixture('multiple-choice');
+    expect(digest(enhanceImage(image, 'blackWhite'))).toEqual(digest(enhanceImage(image, 'blackWhite')));
+  });
+
+  it('makes black and white output purely black or white', () => {
+    const { data } = enhanceImage(shadowedPage(40, 30), 'blackWhite');
+    expect(data.every((value) => value === 0 || value === 255)).toBe(true);
+  });
+
+  it('evens out the shadow when whitening', () => {
+    const page = shadowedPage(64, 40);
+    const before = toGrayscale(page);
+    const after = toGrayscale(enhanceImage(page, 'whiten'));
+    const gap = (gray: GrayImage) => mean(gray, 0, 16) - mean(gray, 48, 64);
+    expect(gap(before)).toBeGreaterThan(40);
+    expect(Math.abs(gap(after))).toBeLessThan(15);
+  });
+});
+
+describe('estimateBackground', () => {
+  it('sees through the ink to the paper', () => {
+    const background = estimateBackground(drawGray(64, 64, [{ x: 20, y: 20, width: 3, height: 3 }], 200, 10));
+    expect(Array.from(background.data).every((value) => value === 200)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeImageQuality, DEFAULT_QUALITY_THRESHOLDS } from '../imageQuality';
+import type { GrayImage } from '../pixelAnalysis';
+import { drawGray } from './helpers';
+
+/**
+ * A few lines of "text" - short ink strokes with gaps - on white paper
+ */
+function textPage(paper = 235, ink = 25): GrayImage {
+  const strokes = [];
+  for (let line = 0; line < 4; line++) {
+    for (let x = 20; x < 370; x += 9) {
+      strokes.push({ x, y: 20 + line * 30, width: 4, height: 14 });
+    }
+  }
+  return drawGray(400, 150, strokes, paper, ink);
+}
+
+function boxBlur(gray: GrayImage, radius: number): GrayImage {
+  const { width, height, data } = gray;
+  const out = new Uint8Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const sx = Math.min(width - 1, Math.max(0, x + dx));
+          const sy = Math.min(height - 1, Math.max(0, y + dy));
+          sum += data[sy * width + sx];
+          count++;
+        }
+      }
+      out[y * width + x] = Math.round(sum / count);
+    }
+  }
+  return { width, height, data: out };
+}
+
+// Defocus is wider than one pass of a small box filter
+const blurred = (gray: GrayImage) => boxBlur(boxBlur(gray, 3), 3);
+
+/**
+ * Turns the given share of pixels (from the top) pure white
+ */
+function withHighlight(gray: GrayImage, share: number): GrayImage {
+  const data = gray.data.slice();
+  data.fill(255, 0, Math.round(data.length * share));
+  return { ...gray, data };
+}
+
+const issues = (gray: GrayImage, thresholds = {}) =>
+  analyzeImageQuality(gray, thresholds).warnings.map(({ issue }) => issue);
+
+describe('analyzeImageQuality', () => {
+  it('passes a sharp, well-lit page', () => {
+    const report = analyzeImageQuality(textPage());
+    expect(report.warnings).toEqual([]);
+    expect(report.sharpness).toBeGreaterThan(DEFAULT_QUALITY_THRESHOLDS.minSharpness);
+    expect(report.contrast).toBeGreaterThan(150);
+  });
+
+  it('flags a blurred page', () => {
+    const report = analyzeImageQuality(blurred(textPage()));
+    expect(report.sharpness).toBeLessThan(DEFAULT_QUALITY_THRESHOLDS.minSharpness);
+    expect(report.warnings.map(({ issue }) => issue)).toEqual(['blur']);
+  });
+
+  it('tells a glare patch from an overexposed crop', () => {
+    expect(issues(withHighlight(textPage(), 0.1))).toEqual(['glare']);
+    expect(issues(withHighlight(textPage(), 0.7))).toContain('overexposed');
+    expect(issues(withHighlight(textPage(), 0.7))).not.toContain('glare');
+  });
+
+  it('counts highlights from the highlight level up, inclusive of the ratios', () => {
+    const page = withHighlight(textPage(), DEFAULT_QUALITY_THRESHOLDS.glareRatio);
+    expect(issues(page)).toEqual(['glare']);
+    expect(issues(textPage(DEFAULT_QUALITY_THRESHOLDS.highlightLevel - 1))).toEqual([]);
+    expect(analyzeImageQuality(textPage(DEFAULT_QUALITY_THRESHOLDS.highlightLevel)).highlightRatio).toBeGreaterThan(0.5);
+  });
+
+  it('flags a dark page', () => {
+    const report = analyzeImageQuality(textPage(60, 5));
+    expect(report.brightness).toBeLessThan(DEFAULT_QUALITY_THRESHOLDS.minBrightness);
+    expect(report.warnings.map(({ issue }) => issue)).toEqual(['dark']);
+  });
+
+  it('flags faint text only when nothing else explains it', () => {
+    expect(issues(textPage(200, 175))).toEqual(['lowContrast']);
+    expect(issues(blurred(textPage(200, 175)))).toEqual(['blur']);
+  });
+
+  it('lists the most serious problem first', () => {
+    expect(issues(withHighlight(blurred(textPage()), 0.1))).toEqual(['blur', 'glare']);
+  });
+
+  it('takes custom thresholds', () => {
+    expect(issues(textPage(), { minSharpness: Infinity })).toEqual(['blur']);
+    expect(issues(textPage(200, 175), { minContrast: 10 })).toEqual([]);
+    expect(issues(withHighlight(textPage(), 0.1), { glareRatio: 0.2 })).toEqual([]);
+  });
+
+  it('reports nothing for an empty image', () => {
+    expect(analyzeImageQuality({ width: 0, height: 0, data: new Uint8Array(0) }).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { bytesToBase64, encodePng } from '../png';
+import { downscaleGray, toGrayscale, type GrayImage, type TextExtentMode } from '../pixelAnalysis';
+import { resizeRect } from '../geometry';
+import { analyzeTextDensity } from '../imageUtils';
+import { drawGray, grayToRgba, loadFixture, overlapRatio } from './helpers';
+
+// The native modules imageUtils loads pixels through: the manipulator
+// "decodes" whichever page the test put under the uri, at the asked width
+const pages = new Map<string, GrayImage>();
+
+vi.mock('react-native', () => ({ Platform: { OS: 'web' } }));
+vi.mock('expo-file-system', () => ({}));
+vi.mock('expo-image-manipulator', () => ({
+  SaveFormat: { JPEG: 'jpeg', PNG: 'png' },
+  FlipType: { Horizontal: 'horizontal', Vertical: 'vertical' },
+  manipulateAsync: async (uri: string, actions: { resize?: { width: number } }[]) => {
+    const page = pages.get(uri);
+    if (!page) throw new Error(`No test page at ${uri}`);
+    const width = actions.find((action) => action.resize)?.resize?.width ?? page.width;
+    const resized = downscaleGray(page, width);
+    return {
+      uri: `${uri}#resized`,
+      width: resized.width,
+      height: resized.height,
+      base64: bytesToBase64(encodePng(grayToRgba(resized))),
+    };
+  },
+}));
+
+afterEach(() => {
+  pages.clear();
+});
+
+describe('analyzeTextDensity', () => {
+  it('finds the labelled question on a photo', async () => {
+    const { image, questions } = loadFixture('single-question');
+    pages.set('test://single-question', toGrayscale(image));
+    const rect = await analyzeTextDensity('test://single-question', image.width, image.height, image.width, image.height);
+    expect(rect).not.toBeNull();
+    expect(overlapRatio(rect!, questions[0])).toBeGreaterThan(0.5);
+  });
+
+  it('returns screen coordinates', async () => {
+    const { image, questions } = loadFixture('single-question');
+    pages.set('test://single-question', toGrayscale(image));
+    const screen = { width: 390, height: 844 };
+    const rect = await analyzeTextDensity('test://single-question', image.width, image.height, screen.width, screen.height);
+    expect(overlapRatio(resizeRect(rect!, screen, image), questions[0])).toBeGreaterThan(0.5);
+  });
+
+  it('passes the text extent mode through', async () => {
+    const { image } = loadFixture('multiple-choice');
+    pages.set('test://multiple-choice', toGrayscale(image));
+    const analyze = (mode: TextExtentMode) => analyzeTextDensity(
+      'test://multiple-choice', image.width, image.height, image.width, image.height, { mode }
+    );
+    const single = await analyze('single-line');
+    const paragraph = await analyze('paragraph');
+    expect(single!.height).toBeLessThan(paragraph!.height / 4);
+  });
+
+  it('returns null on a blank photo', async () => {
+    pages.set('test://blank', drawGray(800, 600, []));
+    expect(await analyzeTextDensity('test://blank', 800, 600, 800, 600)).toBeNull();
+  });
+
+  it('returns null when the photo can\'t be read', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await analyzeTextDensity('test://missing', 800, 600, 800, 600)).toBeNull();
+    error.mockRestore();
+  });
+});
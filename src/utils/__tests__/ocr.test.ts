@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createFakeOcrEngine,
+  createUnavailableOcrEngine,
+  getOcrEngine,
+  recognizeQuestionText,
+  setOcrEngine,
+  type OcrEngine,
+} from '../ocr';
+
+describe('recognizeQuestionText', () => {
+  afterEach(async () => {
+    await setOcrEngine(null);
+  });
+
+  it('returns the active engine\'s text, tidied', async () => {
+    const engine = createFakeOcrEngine('  What is 2 + 2?   \nShow your work \t\n\n', 0.9);
+    await setOcrEngine(engine);
+    const result = await recognizeQuestionText('file:///question.jpg');
+    expect(result).toEqual({ text: 'What is 2 + 2?\nShow your work', confidence: 0.9 });
+    expect(engine.calls).toEqual(['file:///question.jpg']);
+  });
+
+  it('looks canned text up by image', async () => {
+    await setOcrEngine(createFakeOcrEngine({ 'a.png': 'First question', 'b.png': 'Second question' }));
+    expect((await recognizeQuestionText('b.png'))?.text).toBe('Second question');
+    expect(await recognizeQuestionText('c.png')).toEqual({ text: '', confidence: 0 });
+  });
+
+  it('returns null without calling an unavailable engine', async () => {
+    const engine = createUnavailableOcrEngine();
+    const recognize = vi.spyOn(engine, 'recognize');
+    await setOcrEngine(engine);
+    expect(await recognizeQuestionText('a.png')).toBeNull();
+    expect(recognize).not.toHaveBeenCalled();
+  });
+
+  it('returns null when the engine fails', async () => {
+    const failing: OcrEngine = {
+      name: 'failing',
+      isAvailable: () => true,
+      recognize: async () => {
+        throw new Error('worker crashed');
+      },
+    };
+    await setOcrEngine(failing);
+    expect(await recognizeQuestionText('a.png')).toBeNull();
+  });
+});
+
+describe('setOcrEngine', () => {
+  it('disposes the engine it replaces', async () => {
+    const first = { ...createFakeOcrEngine('one'), dispose: vi.fn(async () => {}) };
+    await setOcrEngine(first);
+    expect(getOcrEngine()).toBe(first);
+    await setOcrEngine(createFakeOcrEngine('two'));
+    expect(first.dispose).toHaveBeenCalledTimes(1);
+    expect(getOcrEngine().name).toBe('fake');
+    await setOcrEngine(null);
+  });
+
+  it('falls back to the local engine, which is unavailable off the web', async () => {
+    await setOcrEngine(null);
+    expect(getOcrEngine().isAvailable()).toBe(false);
+  });
+});
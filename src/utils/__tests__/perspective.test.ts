@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyHomography,
+  computeHomography,
+  detectPageQuad,
+  isConvexQuad,
+  pageEdgeSupport,
+  quadSkew,
+  rectToQuad,
+  rectifyRegion,
+  warpPerspective,
+  type Point,
+  type Quad,
+} from '../perspective';
+import type { GrayImage } from '../pixelAnalysis';
+import { drawGray, grayToRgba } from './helpers';
+
+const PAGE = { width: 120, height: 160 };
+// A page photographed at an angle - top edge further away than the bottom
+const TILTED: Quad = {
+  topLeft: { x: 70, y: 30 },
+  topRight: { x: 170, y: 40 },
+  bottomRight: { x: 185, y: 190 },
+  bottomLeft: { x: 45, y: 175 },
+};
+// Dark square in the middle of the flat page
+const MARKER = { x: 50, y: 70, width: 20, height: 20 };
+
+/**
+ * Photo of a flat page (with the marker) seen through `quad` on a dark table
+ */
+function photographPage(width: number, height: number, quad: Quad): GrayImage {
+  const toPage = computeHomography(quad, rectToQuad({ x: 0, y: 0, ...PAGE }));
+  const data = new Uint8Array(width * height).fill(40);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(toPage, { x: x + 0.5, y: y + 0.5 });
+      if (p.x < 0 || p.y < 0 || p.x >= PAGE.width || p.y >= PAGE.height) continue;
+      const inMarker = p.x >= MARKER.x && p.x < MARKER.x + MARKER.width &&
+        p.y >= MARKER.y && p.y < MARKER.y + MARKER.height;
+      data[y * width + x] = inMarker ? 20 : 230;
+    }
+  }
+  return { width, height, data };
+}
+
+function expectNear(actual: Point, expected: Point, tolerance: number) {
+  expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(tolerance);
+}
+
+describe('detectPageQuad', () => {
+  it('finds the corners of a tilted page', () => {
+    const quad = detectPageQuad(photographPage(240, 220, TILTED));
+    expect(quad).not.toBeNull();
+    expectNear(quad!.topLeft, TILTED.topLeft, 2);
+    expectNear(quad!.topRight, TILTED.topRight, 2);
+    expectNear(quad!.bottomRight, TILTED.bottomRight, 2);
+    expectNear(quad!.bottomLeft, TILTED.bottomLeft, 2);
+  });
+
+  it('returns null when nothing page-sized stands out', () => {
+    expect(detectPageQuad(drawGray(200, 200, [], 40))).toBeNull();
+    const scrap = photographPage(200, 200, rectToQuad({ x: 90, y: 90, width: 20, height: 20 }));
+    expect(detectPageQuad(scrap)).toBeNull();
+  });
+});
+
+describe('pageEdgeSupport', () => {
+  it('trusts an outline that follows the page edges', () => {
+    const gray = photographPage(240, 220, TILTED);
+    expect(pageEdgeSupport(gray, detectPageQuad(gray)!)).toBeGreaterThan(0.9);
+  });
+
+  it('rejects an outline that misses the page edges', () => {
+    const gray = photographPage(240, 220, TILTED);
+    const shift = (p: Point) => ({ x: p.x + 15, y: p.y });
+    const offset: Quad = {
+      topLeft: shift(TILTED.topLeft),
+      topRight: shift(TILTED.topRight),
+      bottomRight: shift(TILTED.bottomRight),
+      bottomLeft: shift(TILTED.bottomLeft),
+    };
+    expect(pageEdgeSupport(gray, offset)).toBeLessThan(0.5);
+  });
+
+  it('rejects a page that runs out of frame', () => {
+    // Paper fills the whole photo - its "corners" are just the image corners
+    const gray = drawGray(200, 150, [{ x: 60, y: 60, width: 40, height: 8 }]);
+    const quad = detectPageQuad(gray);
+    expect(quad).not.toBeNull();
+    expect(pageEdgeSupport(gray, quad!)).toBe(0);
+  });
+});
+
+describe('quad shape checks', () => {
+  it('measures skew from an axis-aligned rectangle', () => {
+    expect(quadSkew(rectToQuad({ x: 10, y: 20, width: 100, height: 50 }))).toBe(0);
+    expect(quadSkew(TILTED)).toBeGreaterThan(0.1);
+  });
+
+  it('rejects self-intersecting quads', () => {
+    expect(isConvexQuad(TILTED)).toBe(true);
+    expect(isConvexQuad({ ...TILTED, topRight: TILTED.bottomRight, bottomRight: TILTED.topRight })).toBe(false);
+  });
+});
+
+describe('computeHomography', () => {
+  it('maps each corner onto its counterpart', () => {
+    const flat = rectToQuad({ x: 0, y: 0, ...PAGE });
+    const h = computeHomography(TILTED, flat);
+    expectNear(applyHomography(h, TILTED.topLeft), flat.topLeft, 1e-6);
+    expectNear(applyHomography(h, TILTED.topRight), flat.topRight, 1e-6);
+    expectNear(applyHomography(h, TILTED.bottomRight), flat.bottomRight, 1e-6);
+    expectNear(applyHomography(h, TILTED.bottomLeft), flat.bottomLeft, 1e-6);
+  });
+
+  it('throws on collinear corners', () => {
+    const line: Quad = { topLeft: { x: 0, y: 0 }, topRight: { x: 1, y: 0 }, bottomRight: { x: 2, y: 0 }, bottomLeft: { x: 3, y: 0 } };
+    expect(() => computeHomography(line, rectToQuad({ x: 0, y: 0, width: 10, height: 10 }))).toThrow();
+  });
+});
+
+describe('warpPerspective', () => {
+  it('is a plain crop for an axis-aligned quad', () => {
+    const image = grayToRgba(drawGray(60, 40, [{ x: 20, y: 10, width: 8, height: 6 }]));
+    const warped = warpPerspective(image, rectToQuad({ x: 16, y: 8, width: 20, height: 12 }), 20, 12);
+    for (let y = 0; y < 12; y++) {
+      for (let x = 0; x < 20; x++) {
+        expect(warped.data[(y * 20 + x) * 4]).toBe(image.data[((y + 8) * 60 + x + 16) * 4]);
+      }
+    }
+  });
+
+  it('flattens a tilted page so the marker lands back in place', () => {
+    const photo = grayToRgba(photographPage(240, 220, TILTED));
+    const flat = warpPerspective(photo, TILTED, PAGE.width, PAGE.height);
+    const at = (x: number, y: number) => flat.data[(y * flat.width + x) * 4];
+    expect(at(MARKER.x + 10, MARKER.y + 10)).toBeLessThan(60);
+    expect(at(MARKER.x - 10, MARKER.y + 10)).toBeGreaterThan(200);
+    expect(at(MARKER.x + 30, MARKER.y + 10)).toBeGreaterThan(200);
+    expect(at(10, 10)).toBeGreaterThan(200);
+  });
+
+  it('fills pixels outside the source with white', () => {
+    const image = grayToRgba(drawGray(10, 10, [], 0));
+    const warped = warpPerspective(image, rectToQuad({ x: 20, y: 20, width: 5, height: 5 }), 5, 5);
+    expect(Array.from(warped.data).every((value) => value === 255)).toBe(true);
+  });
+});
+
+describe('rectifyRegion', () => {
+  it('matches a plain crop on a page that is already flat', () => {
+    const image = grayToRgba(drawGray(80, 60, [{ x: 30, y: 20, width: 10, height: 10 }]));
+    const page = rectToQuad({ x: 0, y: 0, width: 80, height: 60 });
+    const region = rectifyRegion(image, page, { x: 25, y: 15, width: 20, height: 20 });
+    expect(region.width).toBe(20);
+    expect(region.height).toBe(20);
+    expect(region.data[(10 * 20 + 10) * 4]).toBe(25);
+    expect(region.data[0]).toBe(235);
+  });
+
+  it('throws for a region off the page', () => {
+    const image = grayToRgba(drawGray(80, 60, []));
+    expect(() => rectifyRegion(image, TILTED, { x: 0, y: 0, width: 10, height: 10 })).toThrow();
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryQuestionRepository,
+  createQuestionRepository,
+  type NewQuestion,
+  type QuestionStorageBackend,
+  type SavedQuestion,
+} from '../questionLibrary';
+
+// The platform stores need the native file system
+vi.mock('../questionStore', () => ({ createPersistentQuestionRepository: () => null }));
+
+function newQuestion(overrides: Partial<NewQuestion> = {}): NewQuestion {
+  return {
+    subject: 'Math',
+    imageUri: 'file:///cache/crop.jpg',
+    text: 'Solve for x',
+    tags: [],
+    capturedAt: 1_700_000_000_000,
+    crop: null,
+    source: { width: 400, height: 300 },
+    ...overrides,
+  };
+}
+
+/**
+ * Backend that keeps everything in memory, takes a tick per write (so saves
+ * can overlap) and records what it was asked to do
+ */
+function fakeBackend(initial: SavedQuestion[] = []) {
+  const state = {
+    index: initial,
+    writes: 0,
+    deleted: [] as string[],
+    readError: null as Error | null,
+  };
+  const backend: QuestionStorageBackend = {
+    readIndex: async () => {
+      if (state.readError) throw state.readError;
+      return state.index;
+    },
+    writeIndex: async (questions) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      state.index = questions;
+      state.writes++;
+    },
+    storeImage: async (id) => `store://${id}.jpg`,
+    deleteImage: async (uri) => {
+      state.deleted.push(uri);
+    },
+  };
+  return { backend, state };
+}
+
+describe('question repository', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips add, update and remove', async () => {
+    const repository = createMemoryQuestionRepository();
+    const saved = await repository.add(newQuestion());
+    expect(await repository.get(saved.id)).toEqual(saved);
+
+    const updated = await repository.update(saved.id, { text: 'Solve for y', tags: ['algebra'] });
+    expect(updated).toMatchObject({ id: saved.id, text: 'Solve for y', tags: ['algebra'], subject: 'Math' });
+    expect(await repository.get(saved.id)).toEqual(updated);
+
+    await repository.remove(saved.id);
+    expect(await repository.get(saved.id)).toBeNull();
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('lists newest first', async () => {
+    const repository = createMemoryQuestionRepository();
+    await repository.add(newQuestion({ text: 'older', capturedAt: 1 }));
+    await repository.add(newQuestion({ text: 'newer', capturedAt: 2 }));
+    expect((await repository.list()).map((question) => question.text)).toEqual(['newer', 'older']);
+  });
+
+  it('copies images into the store and deletes them with the question', async () => {
+    const { backend, state } = fakeBackend();
+    const repository = createQuestionRepository(backend);
+    const saved = await repository.add(newQuestion());
+    expect(saved.imageUri).toBe(`store://${saved.id}.jpg`);
+    await repository.remove(saved.id);
+    expect(state.deleted).toEqual([saved.imageUri]);
+  });
+
+  it('replaces the stored image when an update brings a new one', async () => {
+    const { backend, state } = fakeBackend();
+    const repository = createQuestionRepository(backend);
+    const saved = await repository.add(newQuestion());
+
+    const updated = await repository.update(saved.id, { subject: 'Physics', imageUri: 'file:///cache/filtered.jpg' });
+    expect(updated?.imageUri).toMatch(new RegExp(`^store://${saved.id}-.+\\.jpg$`));
+    expect(updated?.subject).toBe('Physics');
+    expect(state.index[0].imageUri).toBe(updated?.imageUri);
+    expect(state.deleted).toEqual([saved.imageUri]);
+
+    // The stored image itself is not copied again
+    await repository.update(saved.id, { imageUri: updated!.imageUri, text: 'edited' });
+    expect(state.deleted).toEqual([saved.imageUri]);
+  });
+
+  it('keeps both records when saves overlap', async () => {
+    const { backend, state } = fakeBackend();
+    const repository = createQuestionRepository(backend);
+    const [first, second] = await Promise.all([
+      repository.add(newQuestion({ text: 'first' })),
+      repository.add(newQuestion({ text: 'second' })),
+    ]);
+    expect(state.index.map((question) => question.id).sort()).toEqual([first.id, second.id].sort());
+    expect(await repository.list()).toHaveLength(2);
+  });
+
+  it('re-files the questions of a renamed subject', async () => {
+    const repository = createMemoryQuestionRepository();
+    await repository.add(newQuestion({ subject: 'Maths' }));
+    await repository.add(newQuestion({ subject: 'Physics' }));
+    expect(await repository.renameSubject('Maths', 'Math')).toBe(1);
+    expect((await repository.list()).map((question) => question.subject).sort()).toEqual(['Math', 'Physics']);
+  });
+
+  it('never writes over an index it could not read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const existing = { ...newQuestion(), id: 'kept' };
+    const { backend, state } = fakeBackend([existing]);
+    state.readError = new SyntaxError('Unexpected end of JSON input');
+    const repository = createQuestionRepository(backend);
+
+    expect(await repository.list()).toEqual([]);
+    expect(await repository.get('kept')).toBeNull();
+    await expect(repository.add(newQuestion())).rejects.toThrow('Unexpected end of JSON input');
+    await expect(repository.update('kept', { text: 'changed' })).rejects.toThrow();
+    expect(state.writes).toBe(0);
+    expect(state.index).toEqual([existing]);
+
+    // Once the index reads again, nothing was lost
+    state.readError = null;
+    await repository.add(newQuestion({ text: 'new' }));
+    expect((await repository.list()).map((question) => question.id)).toContain('kept');
+    expect(state.index).toHaveLength(2);
+  });
+});
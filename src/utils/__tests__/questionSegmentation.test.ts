@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { segmentQuestions } from '../questionSegmentation';
+import { downscaleGray } from '../pixelAnalysis';
+import { resizeRect } from '../geometry';
+import { drawGray, fixtureGray, loadFixture, overlapRatio } from './helpers';
+
+describe('segmentQuestions', () => {
+  it.each(['two-numbered', 'three-numbered'])('splits %s into its questions, top to bottom', (name) => {
+    const { image, questions } = loadFixture(name);
+    // Same 200px analysis width as detectQuestionRegions
+    const gray = downscaleGray(fixtureGray(name), 200);
+    const regions = segmentQuestions(gray);
+
+    expect(regions).toHaveLength(questions.length);
+    const found = regions.map((region) => resizeRect(region.rect, gray, image));
+    found.forEach((rect, index) => {
+      expect(overlapRatio(rect, questions[index])).toBeGreaterThan(0.5);
+    });
+    for (let i = 1; i < found.length; i++) {
+      expect(found[i].y).toBeGreaterThan(found[i - 1].y + found[i - 1].height);
+    }
+  });
+
+  it('splits on wide gaps between blocks of lines', () => {
+    // Short words with spaces - mostly-ink bars are dropped as page edges
+    const line = (y: number) => [0, 1, 2, 3, 4, 5, 6].map((i) => ({ x: 20 + i * 22, y, width: 10, height: 6 }));
+    const gray = drawGray(200, 260, [20, 30, 40, 100, 110, 190, 200, 210].flatMap(line));
+    const regions = segmentQuestions(gray);
+    expect(regions.map((region) => region.lineCount)).toEqual([3, 2, 3]);
+    expect(regions.map((region) => region.rect.y)).toEqual([...regions.map((region) => region.rect.y)].sort((a, b) => a - b));
+  });
+
+  it('finds nothing on a blank page', () => {
+    expect(segmentQuestions(drawGray(200, 260, []))).toEqual([]);
+  });
+});
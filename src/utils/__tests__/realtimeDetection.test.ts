@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createStabilityTracker } from '../realtimeDetection';
+
+const config = { stableMs: 1000, minSharpness: 40 };
+const SHARP = 100;
+const BLURRY = 10;
+
+/**
+ * Feeds one frame every 250ms and returns whether each one fired
+ */
+function run(tracker: ReturnType<typeof createStabilityTracker>, frames: { moved?: boolean; sharpness?: number }[], start = 0) {
+  return frames.map(({ moved = false, sharpness = SHARP }, i) => tracker.observe(moved, sharpness, start + i * 250));
+}
+
+const steady = (count: number, sharpness = SHARP) => Array.from({ length: count }, () => ({ sharpness }));
+
+describe('createStabilityTracker', () => {
+  it('fires once the box has been steady and sharp for stableMs', () => {
+    const tracker = createStabilityTracker(config);
+    // First frame starts the clock; 1000ms later is the fifth frame
+    expect(run(tracker, steady(6))).toEqual([false, false, false, false, true, true]);
+  });
+
+  it('waits for a sharp frame', () => {
+    const tracker = createStabilityTracker(config);
+    expect(run(tracker, [...steady(6, BLURRY), { sharpness: SHARP }])).toEqual([
+      false, false, false, false, false, false, true,
+    ]);
+  });
+
+  it('restarts the clock when the box moves', () => {
+    const tracker = createStabilityTracker(config);
+    expect(run(tracker, [...steady(3), { moved: true }, ...steady(5)])).toEqual([
+      false, false, false, false, false, false, false, true, true,
+    ]);
+  });
+
+  it('stays quiet after a capture until the box moves again', () => {
+    const tracker = createStabilityTracker(config);
+    expect(run(tracker, steady(5)).at(-1)).toBe(true);
+    tracker.disarm();
+    expect(run(tracker, steady(8), 2000)).not.toContain(true);
+    expect(run(tracker, [{ moved: true }, ...steady(4)], 5000).at(-1)).toBe(true);
+  });
+
+  it('re-arms on reset without waiting for movement', () => {
+    const tracker = createStabilityTracker(config);
+    tracker.disarm();
+    tracker.reset();
+    expect(run(tracker, steady(5)).at(-1)).toBe(true);
+  });
+});
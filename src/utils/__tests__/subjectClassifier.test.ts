@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { classifySubject, suggestSubject } from '../subjectClassifier';
+
+describe('suggestSubject', () => {
+  it.each([
+    ['Solve for x: 3x + 5 = 20', 'Math'],
+    ['Simplify the fraction 12/18 and calculate the sum of its terms', 'Math'],
+    ['A car accelerates from 0 to 20 m/s in 5 s. What force acts on its 1200 kg mass?', 'Physics'],
+    ['Balance the reaction: H2 + O2 -> H2O', 'Chemistry'],
+    ['What is the pH of a 0.1 M acid solution?', 'Chemistry'],
+    ['Describe the role of mitochondria in cell respiration', 'Biology'],
+    ['Which treaty ended the war in 1918?', 'History'],
+    ['Name the river that crosses the equator twice and the climate of its region', 'Geography'],
+  ])('files "%s" under %s', (text, subject) => {
+    expect(suggestSubject(text)?.subject).toBe(subject);
+  });
+
+  it('stays quiet without enough evidence', () => {
+    expect(suggestSubject('')).toBeNull();
+    expect(suggestSubject('Answer the following question')).toBeNull();
+  });
+
+  it('respects a custom minimum score', () => {
+    const text = 'Find the area of the triangle';
+    expect(suggestSubject(text, undefined, 0)?.subject).toBe('Math');
+    expect(suggestSubject(text, undefined, 0.99)).toBeNull();
+  });
+});
+
+describe('classifySubject', () => {
+  it('ranks every subject, best first, with scores below 1', () => {
+    const ranking = classifySubject('Calculate the velocity of the ball: v = 12 m/s');
+    expect(ranking).toHaveLength(6);
+    expect(ranking[0].subject).toBe('Physics');
+    for (let i = 1; i < ranking.length; i++) {
+      expect(ranking[i].score).toBeLessThanOrEqual(ranking[i - 1].score);
+    }
+    expect(ranking.every(({ score }) => score >= 0 && score < 1)).toBe(true);
+  });
+
+  it('matches keyword inflections', () => {
+    expect(classifySubject('Solving equations', ['Math', 'History'])[0]).toMatchObject({ subject: 'Math' });
+  });
+
+  it('does not read all-caps words as chemical formulas', () => {
+    const [best] = classifySubject('ANSWER ALL QUESTIONS', ['Chemistry']);
+    expect(best.score).toBe(0);
+  });
+
+  it('scores user-defined subjects on mentions of their name', () => {
+    const ranking = classifySubject('A question about Music theory and rhythm', ['Math', 'Music']);
+    expect(ranking[0].subject).toBe('Music');
+    expect(ranking[0].score).toBeGreaterThan(0);
+  });
+
+  it('keeps the given order for ties', () => {
+    expect(classifySubject('', ['History', 'Biology']).map(({ subject }) => subject)).toEqual(['History', 'Biology']);
+  });
+});
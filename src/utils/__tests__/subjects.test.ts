@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMemorySubjectRepository,
+  createSubjectRepository,
+  DEFAULT_SUBJECTS,
+  normalizeSubjectName,
+  parseTags,
+  type Subject,
+} from '../subjects';
+
+// The platform stores need the native file system
+vi.mock('../questionStore', () => ({ createPersistentSubjectRepository: () => null }));
+
+const names = (subjects: Subject[]) => subjects.map((subject) => subject.name);
+
+describe('subject repository', () => {
+  it('seeds the default subjects on first run', async () => {
+    expect(names(await createMemorySubjectRepository().list())).toEqual(DEFAULT_SUBJECTS);
+  });
+
+  it('adds subjects with tidied names at the end', async () => {
+    const repository = createMemorySubjectRepository([]);
+    const added = await repository.add('  Computer   Science ');
+    expect(added).toMatchObject({ name: 'Computer Science', archived: false });
+    expect(added.color).toMatch(/^#[0-9a-f]{6}$/);
+    await repository.add('Art', '#123456');
+    expect(names(await repository.list())).toEqual(['Computer Science', 'Art']);
+  });
+
+  it('rejects empty and duplicate names, ignoring case', async () => {
+    const repository = createMemorySubjectRepository();
+    await expect(repository.add('   ')).rejects.toThrow('cannot be empty');
+    await expect(repository.add('math')).rejects.toThrow('"Math" already exists');
+    expect(await repository.list()).toHaveLength(DEFAULT_SUBJECTS.length);
+  });
+
+  it('renames a subject', async () => {
+    const repository = createMemorySubjectRepository();
+    const [math] = await repository.list();
+    expect(await repository.update(math.id, { name: ' Mathematics ' })).toMatchObject({ id: math.id, name: 'Mathematics' });
+    // Changing only the case of its own name is fine
+    expect(await repository.update(math.id, { name: 'MATHEMATICS' })).toMatchObject({ name: 'MATHEMATICS' });
+    expect(names(await repository.list())[0]).toBe('MATHEMATICS');
+  });
+
+  it('refuses to rename onto another subject', async () => {
+    const repository = createMemorySubjectRepository();
+    const [math] = await repository.list();
+    await expect(repository.update(math.id, { name: 'physics' })).rejects.toThrow('already exists');
+    expect(names(await repository.list())[0]).toBe('Math');
+  });
+
+  it('archives and restores subjects without dropping them', async () => {
+    const repository = createMemorySubjectRepository();
+    const [, biology] = await repository.list();
+    await repository.update(biology.id, { archived: true });
+    expect((await repository.list()).find((subject) => subject.id === biology.id)?.archived).toBe(true);
+    await repository.update(biology.id, { archived: false });
+    expect((await repository.list()).find((subject) => subject.id === biology.id)?.archived).toBe(false);
+    expect(await repository.update('missing', { archived: true })).toBeNull();
+  });
+
+  it('moves reordered subjects to the front', async () => {
+    const repository = createMemorySubjectRepository();
+    const subjects = await repository.list();
+    await repository.reorder([subjects[2].id, subjects[0].id, 'missing']);
+    expect(names(await repository.list())).toEqual([
+      DEFAULT_SUBJECTS[2], DEFAULT_SUBJECTS[0], ...DEFAULT_SUBJECTS.filter((_, index) => index !== 0 && index !== 2),
+    ]);
+  });
+
+  it('saves every change and keeps overlapping adds', async () => {
+    const saved: Subject[][] = [];
+    const repository = createSubjectRepository({
+      read: async () => [],
+      write: async (subjects) => {
+        saved.push(subjects);
+      },
+    });
+    await Promise.all([repository.add('Art'), repository.add('Music')]);
+    expect(saved).toHaveLength(2);
+    expect(names(saved[1])).toEqual(['Art', 'Music']);
+  });
+});
+
+describe('subject and tag names', () => {
+  it('tidies subject names', () => {
+    expect(normalizeSubjectName('  World\t  History \n')).toBe('World History');
+  });
+
+  it('splits tag input into unique lowercase tags', () => {
+    expect(parseTags('Algebra, exam-2 #homework  #Algebra,,')).toEqual(['algebra', 'exam-2', 'homework']);
+    expect(parseTags('  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { decodePng, encodePng } from '../png';
+import { computeTextDensityGrid, downscaleGray, findTextRegion, toGrayscale } from '../pixelAnalysis';
+import { resizeRect } from '../geometry';
+import { drawGray, fixtureGray, grayToRgba, loadFixture, overlapRatio } from './helpers';
+
+describe('png', () => {
+  it('round-trips RGBA pixels through encode and decode', () => {
+    const image = grayToRgba(drawGray(37, 21, [{ x: 5, y: 4, width: 10, height: 3 }]));
+    const decoded = decodePng(encodePng(image));
+    expect(decoded.width).toBe(37);
+    expect(decoded.height).toBe(21);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it('decodes the fixture pages', () => {
+    const { image } = loadFixture('single-question');
+    expect(image.data.length).toBe(image.width * image.height * 4);
+  });
+});
+
+describe('computeTextDensityGrid', () => {
+  it('is dense only where there is text', () => {
+    const gray = drawGray(200, 100, [
+      { x: 20, y: 10, width: 4, height: 12 },
+      { x: 30, y: 10, width: 4, height: 12 },
+      { x: 40, y: 10, width: 4, height: 12 },
+    ]);
+    const grid = computeTextDensityGrid(gray, 10, 10);
+    expect(grid[1][2]).toBeGreaterThan(0);
+    expect(grid[8][8]).toBe(0);
+  });
+});
+
+describe('findTextRegion', () => {
+  it('returns null on a blank page', () => {
+    expect(findTextRegion(drawGray(200, 150, []))).toBeNull();
+  });
+
+  it('follows the text instead of a fixed position', () => {
+    const words = (y: number) => [0, 1, 2, 3, 4, 5].map((i) => ({ x: 30 + i * 22, y, width: 16, height: 8 }));
+    const high = findTextRegion(drawGray(200, 300, words(40)));
+    const low = findTextRegion(drawGray(200, 300, words(220)));
+    expect(high!.y).toBeLessThan(45);
+    expect(low!.y).toBeGreaterThan(210);
+  });
+
+  it.each(['single-question', 'multiple-choice'])('finds the labelled question on %s', (name) => {
+    const { image, questions } = loadFixture(name);
+    // Same 200px analysis width the app decodes at
+    const gray = downscaleGray(toGrayscale(image), 200);
+    const region = findTextRegion(gray, { gridRows: 40, gridCols: 30 });
+    expect(region).not.toBeNull();
+    const found = resizeRect(region!, gray, image);
+    expect(overlapRatio(found, questions[0])).toBeGreaterThan(0.5);
+  });
+});
+
+describe('findTextRegion modes', () => {
+  // Lines 10px tall: three 6px apart, a 12px gap, then two more
+  const words = (y: number) => [0, 1, 2, 3, 4, 5, 6].map((i) => ({ x: 30 + i * 34, y, width: 26, height: 10 }));
+  const page = drawGray(300, 400, [40, 56, 72, 94, 110].flatMap(words));
+  const grid = { gridRows: 40, gridCols: 30 };
+
+  it('single-line returns one line\'s height', () => {
+    const region = findTextRegion(page, { ...grid, mode: 'single-line' });
+    expect(region).toMatchObject({ y: 40, height: 10 });
+  });
+
+  it('paragraph covers the whole block', () => {
+    const region = findTextRegion(page, { ...grid, mode: 'paragraph' });
+    expect(region).toMatchObject({ y: 40, height: 80 });
+  });
+
+  it('auto keeps the tightly spaced lines and stops at the wider gap', () => {
+    const region = findTextRegion(page, { ...grid, mode: 'auto' });
+    expect(region).toMatchObject({ y: 40, height: 42 });
+  });
+
+  it('auto stops at maxLines', () => {
+    const tight = drawGray(300, 400, [40, 56, 72, 88, 104, 120].flatMap(words));
+    expect(findTextRegion(tight, { ...grid, mode: 'auto' })!.height).toBe(58);
+    expect(findTextRegion(tight, { ...grid, mode: 'auto', maxLines: 2 })!.height).toBe(26);
+    expect(findTextRegion(tight, { ...grid, mode: 'paragraph' })!.height).toBe(90);
+  });
+
+  it('picks between single line and paragraph on a fixture question', () => {
+    const { image, questions } = loadFixture('multiple-choice');
+    const gray = downscaleGray(toGrayscale(image), 200);
+    const [single, paragraph, auto] = (['single-line', 'paragraph', 'auto'] as const)
+      .map((mode) => findTextRegion(gray, { ...grid, mode })!);
+    // The question stem plus its answer options
+    expect(overlapRatio(resizeRect(paragraph, gray, image), questions[0])).toBeGreaterThan(0.8);
+    expect(single.height).toBeLessThan(paragraph.height / 4);
+    expect(auto.height).toBeGreaterThan(single.height);
+    expect(auto.height).toBeLessThan(paragraph.height);
+    for (const region of [single, auto]) expect(region.y).toBe(paragraph.y);
+  });
+
+  it('auto matches paragraph on a short, tight block', () => {
+    const gray = downscaleGray(fixtureGray('single-question'), 200);
+    expect(findTextRegion(gray, { ...grid, mode: 'auto' })).toEqual(findTextRegion(gray, { ...grid, mode: 'paragraph' }));
+  });
+});
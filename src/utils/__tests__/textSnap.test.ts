@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { snapRectToText, type SnapEdge } from '../textSnap';
+import { computeInkThreshold, horizontalInkProfile, verticalInkProfile, type GrayImage } from '../pixelAnalysis';
+import type { Rect } from '../imageUtils';
+import { drawGray, fixtureGray, loadFixture } from './helpers';
+
+const ALL_EDGES: SnapEdge[] = ['left', 'right', 'top', 'bottom'];
+
+// Tight bounds of the ink inside a rect
+function inkBounds(gray: GrayImage, rect: Rect): Rect {
+  const threshold = computeInkThreshold(gray);
+  const columns = verticalInkProfile(gray, threshold, rect.y, rect.y + rect.height);
+  const rows = horizontalInkProfile(gray, threshold, rect.x, rect.x + rect.width);
+  const first = (profile: number[], from: number, to: number) => {
+    for (let i = from; i < to; i++) if (profile[i] > 0) return i;
+    return -1;
+  };
+  const last = (profile: number[], from: number, to: number) => {
+    for (let i = to - 1; i >= from; i--) if (profile[i] > 0) return i;
+    return -1;
+  };
+  const left = first(columns, rect.x, rect.x + rect.width);
+  const right = last(columns, rect.x, rect.x + rect.width);
+  const top = first(rows, rect.y, rect.y + rect.height);
+  const bottom = last(rows, rect.y, rect.y + rect.height);
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+const inset = (rect: Rect, by: number): Rect => ({
+  x: rect.x + by,
+  y: rect.y + by,
+  width: rect.width - by * 2,
+  height: rect.height - by * 2,
+});
+
+describe('snapRectToText', () => {
+  it('moves edges that cut through a fixture question out into the whitespace around it', () => {
+    const gray = fixtureGray('single-question');
+    const ink = inkBounds(gray, loadFixture('single-question').questions[0]);
+    // Just inside the ink: the paper outside is nearer than the gaps between letters
+    const { rect, snapped } = snapRectToText(gray, inset(ink, 2), ALL_EDGES);
+
+    expect([...snapped].sort()).toEqual([...ALL_EDGES].sort());
+    // The whole question is back inside, with the edges in blank paper
+    expect(rect.x).toBeLessThan(ink.x);
+    expect(rect.y).toBeLessThan(ink.y);
+    expect(rect.x + rect.width).toBeGreaterThan(ink.x + ink.width);
+    expect(rect.y + rect.height).toBeGreaterThan(ink.y + ink.height);
+    // ...without wandering off to the next block
+    expect(rect.x).toBeGreaterThanOrEqual(ink.x - 2);
+    expect(rect.y).toBeGreaterThanOrEqual(ink.y - 2);
+    expect(rect.x + rect.width).toBeLessThanOrEqual(ink.x + ink.width + 2);
+    expect(rect.y + rect.height).toBeLessThanOrEqual(ink.y + ink.height + 2);
+  });
+
+  it('snaps only the edges asked for', () => {
+    const gray = fixtureGray('single-question');
+    const ink = inkBounds(gray, loadFixture('single-question').questions[0]);
+    const box = inset(ink, 2);
+    const { rect, snapped } = snapRectToText(gray, box, ['top']);
+    expect(snapped).toEqual(['top']);
+    expect(rect.y).toBeLessThan(ink.y);
+    expect(rect.x).toBe(box.x);
+    expect(rect.y + rect.height).toBe(box.y + box.height);
+  });
+
+  it('leaves a box already in whitespace alone', () => {
+    const gray = fixtureGray('single-question');
+    const ink = inkBounds(gray, loadFixture('single-question').questions[0]);
+    const box = inset(ink, -4);
+    expect(snapRectToText(gray, box, ALL_EDGES)).toEqual({ rect: box, snapped: [] });
+  });
+
+  it('leaves a box alone when no ink is nearby', () => {
+    // The only ink is further away than an edge may move
+    const gray = drawGray(300, 200, [{ x: 140, y: 90, width: 20, height: 20 }]);
+    const box = { x: 20, y: 20, width: 60.5, height: 40.25 };
+    expect(snapRectToText(gray, box, ALL_EDGES)).toEqual({ rect: box, snapped: [] });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Batch scanning queue
+ * Captures made in batch mode are cropped and parked here instead of going
+ * through Preview one at a time; the review screen reorders, discards and
+ * files them together
+ */
+
+import { getQuestionRepository, type CropRect, type SavedQuestion } from './questionLibrary';
+
+export type BatchItem = {
+  id: string;
+  // The cropped question image
+  photo: { uri: string; width: number; height: number };
+  crop: CropRect | null;
+  // Filled in when background OCR finishes; null if it was unavailable
+  questionText?: string | null;
+  source: { width: number; height: number; capturedAt: number };
+  subject: string | null;
+};
+
+export type NewBatchItem = Omit<BatchItem, 'id' | 'subject'>;
+
+export type BatchItemChanges = Partial<Pick<BatchItem, 'questionText' | 'subject'>>;
+
+export interface BatchQueue {
+  // Queued items in capture (or user-arranged) order
+  items(): BatchItem[];
+  add(item: NewBatchItem): BatchItem;
+  update(id: string, changes: BatchItemChanges): void;
+  remove(id: string): void;
+  move(from: number, to: number): void;
+  // Assigns one subject to every listed item
+  assignSubject(ids: string[], subject: string): void;
+  clear(): void;
+  // Called after every change; returns an unsubscribe function
+  subscribe(listener: () => void): () => void;
+}
+
+export function createBatchQueue(): BatchQueue {
+  // Replaced (never mutated) on change, so snapshots stay stable for React
+  let items: BatchItem[] = [];
+  const listeners = new Set<() => void>();
+
+  const commit = (next: BatchItem[]) => {
+    items = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    items: () => items,
+
+    add(item) {
+      const queued: BatchItem = {
+        ...item,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        subject: null,
+      };
+      commit([...items, queued]);
+      return queued;
+    },
+
+    update(id, changes) {
+      if (!items.some((item) => item.id === id)) return;
+      commit(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    },
+
+    remove(id) {
+      commit(items.filter((item) => item.id !== id));
+    },
+
+    move(from, to) {
+      if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return;
+      const next = [...items];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      commit(next);
+    },
+
+    assignSubject(ids, subject) {
+      const targets = new Set(ids);
+      commit(items.map((item) => (targets.has(item.id) ? { ...item, subject } : item)));
+    },
+
+    clear() {
+      commit([]);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+let activeQueue: BatchQueue | null = null;
+
+export function getBatchQueue(): BatchQueue {
+  if (!activeQueue) {
+    activeQueue = createBatchQueue();
+  }
+  return activeQueue;
+}
+
+export function setBatchQueue(queue: BatchQueue | null): void {
+  activeQueue = queue;
+}
+
+export type BatchSaveResult = {
+  saved: SavedQuestion[];
+  // Items left in the queue because they had no subject
+  skipped: number;
+};
+
+/**
+ * Files every queued item in the library, in queue order, removing each one
+ * from the queue as it is saved (so a failure part-way leaves the rest queued)
+ * Items without a subject are skipped and stay queued
+ */
+export async function saveBatchItems(queue: BatchQueue): Promise<BatchSaveResult> {
+  const repository = getQuestionRepository();
+  const saved: SavedQuestion[] = [];
+  let skipped = 0;
+  for (const item of queue.items()) {
+    if (!item.subject) {
+      skipped++;
+      continue;
+    }
+    saved.push(await repository.add({
+      subject: item.subject,
+      imageUri: item.photo.uri,
+      text: (item.questionText ?? '').trim(),
+      tags: [],
+      capturedAt: item.source.capturedAt,
+      crop: item.crop,
+      source: { width: item.source.width, height: item.source.height },
+    }));
+    queue.remove(item.id);
+  }
+  return { saved, skipped };
+}
@@ -0,0 +1,178 @@
+/**
+ * Box editing maths shared by the drag handles, the keyboard and the nudge pad
+ * Plain worklets on view coordinates, so gestures can run them on the UI thread
+ */
+
+import type { Rect } from './imageUtils';
+import type { Size } from './geometry';
+import type { Point, Quad } from './perspective';
+
+// Corners and side midpoints; a side handle moves only that edge
+export type BoxHandle = 'TL' | 'T' | 'TR' | 'R' | 'BR' | 'B' | 'BL' | 'L';
+
+export type NudgeDirection = 'up' | 'down' | 'left' | 'right';
+
+export type NudgeOptions = {
+  // Pixels per nudge
+  step?: number;
+  // Grow/shrink from the right and bottom edges instead of moving the box
+  resize?: boolean;
+};
+
+export type BoxLimits = {
+  // The view the box lives in
+  bounds: Size;
+  minSize: Size;
+  maxSize: Size;
+};
+
+export type BoxEditMode = 'rect' | 'quad';
+
+/**
+ * Smallest box per edit mode, in container pixels
+ * Low enough to hug a single text line (text detection looks for ~35px lines)
+ */
+export type MinBoxSizes = Partial<Record<BoxEditMode, Size>>;
+
+export const DEFAULT_MIN_BOX_SIZE: Record<BoxEditMode, Size> = {
+  rect: { width: 60, height: 24 },
+  quad: { width: 40, height: 24 },
+};
+
+/**
+ * Largest box per edit mode, as a share of the container (1 = all of it)
+ * The default keeps a live-camera box to roughly one question
+ */
+export type MaxBoxSizes = Partial<Record<BoxEditMode, Size>>;
+
+export const DEFAULT_MAX_BOX_SIZE: Record<BoxEditMode, Size> = {
+  rect: { width: 0.95, height: 0.4 },
+  quad: { width: 0.95, height: 0.4 },
+};
+
+/**
+ * Limits for editing in a container, with per-mode overrides of the defaults
+ */
+export function boxLimitsFor(
+  editMode: BoxEditMode,
+  container: Size,
+  minBoxSize?: MinBoxSizes,
+  maxBoxSize?: MaxBoxSizes
+): BoxLimits {
+  const maxShare = { ...DEFAULT_MAX_BOX_SIZE[editMode], ...maxBoxSize?.[editMode] };
+  return {
+    bounds: container,
+    minSize: { ...DEFAULT_MIN_BOX_SIZE[editMode], ...minBoxSize?.[editMode] },
+    maxSize: { width: container.width * maxShare.width, height: container.height * maxShare.height },
+  };
+}
+
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_LARGE = 10;
+
+/**
+ * Keeps the box size within the limits and the box inside the bounds
+ */
+export function clampBox(box: Rect, limits: BoxLimits): Rect {
+  'worklet';
+  const { bounds, minSize, maxSize } = limits;
+  const width = Math.max(minSize.width, Math.min(box.width, maxSize.width));
+  const height = Math.max(minSize.height, Math.min(box.height, maxSize.height));
+  return {
+    x: Math.max(0, Math.min(box.x, bounds.width - width)),
+    y: Math.max(0, Math.min(box.y, bounds.height - height)),
+    width,
+    height,
+  };
+}
+
+/**
+ * Drags a handle by (dx, dy) from the start box
+ * Only the edges the handle touches move; the opposite edges stay put even
+ * when the minimum or maximum size stops the drag
+ */
+export function resizeBox(start: Rect, handle: BoxHandle, dx: number, dy: number, limits: BoxLimits): Rect {
+  'worklet';
+  const { bounds, minSize, maxSize } = limits;
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+
+  if (handle.endsWith('L')) {
+    left = Math.min(right - minSize.width, Math.max(0, right - maxSize.width, left + dx));
+  } else if (handle.endsWith('R')) {
+    right = Math.max(left + minSize.width, Math.min(bounds.width, left + maxSize.width, right + dx));
+  }
+  if (handle.startsWith('T')) {
+    top = Math.min(bottom - minSize.height, Math.max(0, bottom - maxSize.height, top + dy));
+  } else if (handle.startsWith('B')) {
+    bottom = Math.max(top + minSize.height, Math.min(bounds.height, top + maxSize.height, bottom + dy));
+  }
+
+  return clampBox({ x: left, y: top, width: right - left, height: bottom - top }, limits);
+}
+
+function nudgeDelta(direction: NudgeDirection, step: number): { dx: number; dy: number } {
+  'worklet';
+  switch (direction) {
+    case 'up': return { dx: 0, dy: -step };
+    case 'down': return { dx: 0, dy: step };
+    case 'left': return { dx: -step, dy: 0 };
+    case 'right': return { dx: step, dy: 0 };
+  }
+}
+
+/**
+ * Moves the box a few pixels, or resizes it from its right/bottom edge
+ */
+export function nudgeBox(box: Rect, direction: NudgeDirection, options: NudgeOptions, limits: BoxLimits): Rect {
+  'worklet';
+  const { dx, dy } = nudgeDelta(direction, options.step ?? NUDGE_STEP);
+  if (options.resize) {
+    return resizeBox(box, dx !== 0 ? 'R' : 'B', dx, dy, limits);
+  }
+  return clampBox({ ...box, x: box.x + dx, y: box.y + dy }, limits);
+}
+
+/**
+ * Moves all four corners together, stopping at the bounds
+ */
+export function nudgeQuad(quad: Quad, direction: NudgeDirection, options: NudgeOptions, bounds: Size): Quad {
+  'worklet';
+  const { dx, dy } = nudgeDelta(direction, options.step ?? NUDGE_STEP);
+  const points = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const shiftX = Math.max(-Math.min(...xs), Math.min(bounds.width - Math.max(...xs), dx));
+  const shiftY = Math.max(-Math.min(...ys), Math.min(bounds.height - Math.max(...ys), dy));
+  const shift = (point: Point): Point => ({ x: point.x + shiftX, y: point.y + shiftY });
+  return {
+    topLeft: shift(quad.topLeft),
+    topRight: shift(quad.topRight),
+    bottomRight: shift(quad.bottomRight),
+    bottomLeft: shift(quad.bottomLeft),
+  };
+}
+
+/**
+ * Moves one corner of the quad, stopping at the bounds
+ */
+export function nudgeQuadCorner(
+  quad: Quad,
+  corner: keyof Quad,
+  direction: NudgeDirection,
+  options: NudgeOptions,
+  bounds: Size
+): Quad {
+  'worklet';
+  const { dx, dy } = nudgeDelta(direction, options.step ?? NUDGE_STEP);
+  const point = quad[corner];
+  return {
+    ...quad,
+    [corner]: {
+      x: Math.max(0, Math.min(bounds.width, point.x + dx)),
+      y: Math.max(0, Math.min(bounds.height, point.y + dy)),
+    },
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Straightening of cropped questions
+ * Orientation: text lines make the row ink profile far peakier than the
+ * column profile, so comparing the two tells upright from sideways text.
+ * Skew: projection profiles of the ink at candidate angles - the angle that
+ * lines the text up with the rows gives the sharpest profile
+ */
+
+import type { RgbaImage } from './png';
+import { computeInkThreshold, downscaleGray, findTextLines, horizontalInkProfile, type GrayImage } from './pixelAnalysis';
+import type { Orientation } from './geometry';
+
+// Clockwise rotation (degrees) that makes the text upright
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+export type SkewConfig = {
+  // Largest skew considered, in degrees either way
+  maxAngle?: number;
+  // Coarse search step; the best angle is then refined to a fifth of it
+  step?: number;
+};
+
+// Ink points used for the skew search (subsampled beyond this)
+const MAX_SKEW_SAMPLES = 20000;
+// Column profile must be this much peakier than the row profile to call the text sideways
+const SIDEWAYS_RATIO = 1.5;
+
+function inkPoints(gray: GrayImage): { xs: Float64Array; ys: Float64Array } {
+  const threshold = computeInkThreshold(gray);
+  let count = 0;
+  for (let i = 0; i < gray.data.length; i++) if (gray.data[i] <= threshold) count++;
+  const stride = Math.max(1, Math.ceil(count / MAX_SKEW_SAMPLES));
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let seen = 0;
+  for (let y = 0; y < gray.height; y++) {
+    for (let x = 0; x < gray.width; x++) {
+      if (gray.data[y * gray.width + x] <= threshold && seen++ % stride === 0) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  return { xs: Float64Array.from(xs), ys: Float64Array.from(ys) };
+}
+
+// Sum of squared bin counts of the ink projected onto rows tilted by `degrees`
+function projectionScore(xs: Float64Array, ys: Float64Array, degrees: number, size: number): number {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const bins = new Float64Array(size * 3);
+  for (let i = 0; i < xs.length; i++) {
+    const bin = Math.round(ys[i] * cos - xs[i] * sin) + size;
+    if (bin >= 0 && bin < bins.length) bins[bin]++;
+  }
+  let score = 0;
+  for (let i = 0; i < bins.length; i++) score += bins[i] * bins[i];
+  return score;
+}
+
+/**
+ * Angle (degrees, clockwise positive) by which the text lines are tilted
+ * Rotating the image by minus this angle levels them. 0 when there is no ink
+ */
+export function estimateSkewAngle(gray: GrayImage, config?: SkewConfig): number {
+  const { maxAngle = 15, step = 0.5 } = config || {};
+  const { xs, ys } = inkPoints(gray);
+  if (xs.length < 20) {
+    return 0;
+  }
+  const size = gray.width + gray.height;
+
+  const search = (from: number, to: number, increment: number, start: number) => {
+    let best = start;
+    let bestScore = projectionScore(xs, ys, start, size);
+    for (let angle = from; angle <= to + 1e-9; angle += increment) {
+      const score = projectionScore(xs, ys, angle, size);
+      // Strictly better only, so flat results stay at the start angle
+      if (score > bestScore * 1.0001) {
+        bestScore = score;
+        best = angle;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-maxAngle, maxAngle, step, 0);
+  const fine = search(coarse - step, coarse + step, step / 5, coarse);
+  return Math.round(fine * 10) / 10;
+}
+
+// Squared coefficient of variation - how peaky an ink profile is, after a
+// box blur that evens out letter strokes but keeps line gaps
+function peakiness(raw: number[], window: number): number {
+  const half = Math.floor(window / 2);
+  const profile = raw.map((_, i) => {
+    let sum = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(raw.length - 1, i + half); j++) sum += raw[j];
+    return sum;
+  });
+  const mean = profile.reduce((sum, value) => sum + value, 0) / Math.max(1, profile.length);
+  if (mean === 0) return 0;
+  const variance = profile.reduce((sum, value) => sum + (value - mean) ** 2, 0) / profile.length;
+  return variance / (mean * mean);
+}
+
+/**
+ * Rotates a grayscale image by a quarter turn (clockwise)
+ */
+export function rotateGrayQuarter(gray: GrayImage, turn: QuarterTurn): GrayImage {
+  if (turn === 0) return gray;
+  const { width, height, data } = gray;
+  const sideways = turn === 90 || turn === 270;
+  const outWidth = sideways ? height : width;
+  const outHeight = sideways ? width : height;
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let tx = x;
+      let ty = y;
+      if (turn === 90) { tx = height - 1 - y; ty = x; }
+      else if (turn === 180) { tx = width - 1 - x; ty = height - 1 - y; }
+      else if (turn === 270) { tx = y; ty = width - 1 - x; }
+      out[ty * outWidth + tx] = data[y * width + x];
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Turns stored pixels upright: the quarter turn, then the mirror if any
+ */
+export function orientGray(gray: GrayImage, orientation: Orientation): GrayImage {
+  const rotated = rotateGrayQuarter(gray, orientation.rotation);
+  if (!orientation.mirrored) return rotated;
+  const { width, height, data } = rotated;
+  const out = new Uint8Array(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) out[y * width + x] = data[y * width + width - 1 - x];
+  }
+  return { width, height, data: out };
+}
+
+function meanDifference(a: GrayImage, b: GrayImage): number {
+  const width = Math.min(a.width, b.width);
+  const height = Math.min(a.height, b.height);
+  let sum = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) sum += Math.abs(a.data[y * a.width + x] - b.data[y * b.width + x]);
+  }
+  return sum / Math.max(1, width * height);
+}
+
+/**
+ * Whether a decoder turned `decoded` by `orientation`, judged against a copy
+ * of the same picture still in stored order (the EXIF thumbnail): true when
+ * it looks more like the oriented copy than the stored one
+ * Both images are shrunk to `width` first, so any sizes can be compared
+ */
+export function matchesOrientation(
+  decoded: GrayImage,
+  stored: GrayImage,
+  orientation: Orientation,
+  width = 32
+): boolean {
+  const target = downscaleGray(decoded, width);
+  const oriented = orientGray(stored, orientation);
+  return meanDifference(target, downscaleGray(oriented, target.width)) <
+    meanDifference(target, downscaleGray(stored, target.width));
+}
+
+/**
+ * Where the ink sits within its text lines, 0 (top) to 1 (bottom), averaged
+ * over lines. Latin text has more ascenders than descenders, so the dense
+ * x-height band sits low in an upright line (> 0.5) and high when upside down
+ */
+export function lineInkBalance(gray: GrayImage): number {
+  const threshold = computeInkThreshold(gray);
+  const profile = horizontalInkProfile(gray, threshold);
+  const lines = findTextLines(profile, Math.max(1, Math.round(gray.width * 0.01)));
+  let weighted = 0;
+  let total = 0;
+  for (const line of lines) {
+    const height = line.bottom - line.top;
+    if (height < 3) continue;
+    for (let y = line.top; y <= line.bottom; y++) {
+      weighted += profile[y] * ((y - line.top) / height);
+      total += profile[y];
+    }
+  }
+  return total > 0 ? weighted / total : 0.5;
+}
+
+/**
+ * Quarter turn (clockwise) that makes the text upright
+ * Only sideways text is turned: telling upright from upside-down text is
+ * too unreliable on short crops, so 180 is never returned
+ */
+export function detectOrientation(gray: GrayImage): QuarterTurn {
+  const threshold = computeInkThreshold(gray);
+  const rows = horizontalInkProfile(gray, threshold);
+  const columns = horizontalInkProfile(rotateGrayQuarter(gray, 90), threshold);
+  const window = Math.max(3, Math.round(Math.max(gray.width, gray.height) / 50));
+  if (peakiness(columns, window) <= peakiness(rows, window) * SIDEWAYS_RATIO) {
+    return 0;
+  }
+  // Sideways - pick the direction whose line ink balance reads upright
+  return lineInkBalance(rotateGrayQuarter(gray, 90)) >= lineInkBalance(rotateGrayQuarter(gray, 270)) ? 90 : 270;
+}
+
+/**
+ * Rotates RGBA pixels by any angle (clockwise positive) about the centre,
+ * growing the canvas to fit and filling the new corners with white paper
+ * Bilinear sampling; deterministic
+ */
+export function rotateRgba(image: RgbaImage, degrees: number): RgbaImage {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const { width, height, data } = image;
+  const outWidth = Math.round(Math.abs(width * cos) + Math.abs(height * sin));
+  const outHeight = Math.round(Math.abs(width * sin) + Math.abs(height * cos));
+  const out = new Uint8Array(outWidth * outHeight * 4);
+
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const ocx = (outWidth - 1) / 2;
+  const ocy = (outHeight - 1) / 2;
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      // Inverse rotation: where this output pixel comes from
+      const dx = x - ocx;
+      const dy = y - ocy;
+      const sx = dx * cos + dy * sin + cx;
+      const sy = -dx * sin + dy * cos + cy;
+      const p = (y * outWidth + x) * 4;
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      if (x0 < 0 || y0 < 0 || x0 >= width - 1 || y0 >= height - 1) {
+        out[p] = out[p + 1] = out[p + 2] = out[p + 3] = 255;
+        continue;
+      }
+      const tx = sx - x0;
+      const ty = sy - y0;
+      const i00 = (y0 * width + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + width * 4;
+      const i11 = i01 + 4;
+      for (let c = 0; c < 4; c++) {
+        const top = data[i00 + c] * (1 - tx) + data[i10 + c] * tx;
+        const bottom = data[i01 + c] * (1 - tx) + data[i11 + c] * tx;
+        out[p + c] = Math.round(top * (1 - ty) + bottom * ty);
+      }
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
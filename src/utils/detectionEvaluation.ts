@@ -0,0 +1,235 @@
+/**
+ * Scoring of question detectors against hand-labelled boxes
+ * Pure code shared by the benchmark script (scripts/benchmarkDetectors.ts):
+ * detections are matched one-to-one with ground-truth boxes by IoU, then
+ * counted into precision/recall per image and per detector
+ */
+
+import type { Rect } from './imageUtils';
+import { downscaleGray, type GrayImage } from './pixelAnalysis';
+import { detectQuestions, type Detection, type DetectionMode, type Detector } from './detectors';
+import { resizeRect } from './geometry';
+
+export const DEFAULT_IOU_THRESHOLD = 0.5;
+
+export type LabeledImage = {
+  name: string;
+  questions: Rect[]; // ground truth, in image pixels
+};
+
+export type BoxMatch = {
+  truth: Rect;
+  detection: Detection | null;
+  iou: number;
+};
+
+export type ImageEvaluation = {
+  name: string;
+  matches: BoxMatch[];
+  // Detections not paired with any ground-truth box
+  unmatched: Detection[];
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Mean IoU over the ground-truth boxes (0 for a missed box)
+  meanIoU: number;
+  durationMs: number;
+  // Why the image counts as a failure, null when every box was found cleanly
+  failure: string | null;
+};
+
+export type DetectorSummary = {
+  detectorId: string;
+  images: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  meanIoU: number;
+  meanDurationMs: number;
+  failures: number;
+};
+
+export type BenchmarkReport = {
+  createdAt: string;
+  iouThreshold: number;
+  analysisWidth: number;
+  minConfidence: number;
+  detectors: Array<{ summary: DetectorSummary; images: ImageEvaluation[] }>;
+};
+
+/**
+ * Intersection over union of two boxes, 0 when they don't overlap
+ */
+export function intersectionOverUnion(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Pairs detections with ground-truth boxes, highest IoU first, each box used
+ * at most once. Pairs below the threshold still show their IoU but count as
+ * a miss plus a false positive
+ */
+export function evaluateDetections(
+  name: string,
+  truth: Rect[],
+  detections: Detection[],
+  iouThreshold: number = DEFAULT_IOU_THRESHOLD,
+  durationMs: number = 0
+): ImageEvaluation {
+  const pairs: Array<{ t: number; d: number; iou: number }> = [];
+  truth.forEach((box, t) => {
+    detections.forEach((detection, d) => {
+      const iou = intersectionOverUnion(box, detection.rect);
+      if (iou > 0) pairs.push({ t, d, iou });
+    });
+  });
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const matchedTruth = new Map<number, { d: number; iou: number }>();
+  const usedDetections = new Set<number>();
+  for (const pair of pairs) {
+    if (matchedTruth.has(pair.t) || usedDetections.has(pair.d)) continue;
+    matchedTruth.set(pair.t, { d: pair.d, iou: pair.iou });
+    usedDetections.add(pair.d);
+  }
+
+  const matches: BoxMatch[] = truth.map((box, t) => {
+    const match = matchedTruth.get(t);
+    return { truth: box, detection: match ? detections[match.d] : null, iou: match ? match.iou : 0 };
+  });
+  const truePositives = matches.filter((match) => match.iou >= iouThreshold).length;
+  const falsePositives = detections.length - truePositives;
+  const falseNegatives = truth.length - truePositives;
+  const meanIoU = truth.length > 0 ? matches.reduce((sum, match) => sum + match.iou, 0) / truth.length : 0;
+
+  const reasons: string[] = [];
+  if (detections.length === 0 && truth.length > 0) {
+    reasons.push('no detection');
+  } else {
+    if (falseNegatives > 0) {
+      const ious = matches.filter((match) => match.iou < iouThreshold).map((match) => match.iou.toFixed(2));
+      reasons.push(`missed ${falseNegatives}/${truth.length} (IoU ${ious.join(', ')})`);
+    }
+    if (falsePositives > 0) reasons.push(`${falsePositives} false positive${falsePositives === 1 ? '' : 's'}`);
+  }
+
+  return {
+    name,
+    matches,
+    unmatched: detections.filter((_, d) => !usedDetections.has(d)),
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    meanIoU,
+    durationMs,
+    failure: reasons.length > 0 ? reasons.join(', ') : null,
+  };
+}
+
+/**
+ * Totals for one detector over a set of images
+ * Precision and recall are micro-averaged (from the summed counts)
+ */
+export function summarizeEvaluations(detectorId: string, evaluations: ImageEvaluation[]): DetectorSummary {
+  const total = (pick: (evaluation: ImageEvaluation) => number) =>
+    evaluations.reduce((sum, evaluation) => sum + pick(evaluation), 0);
+  const truePositives = total((evaluation) => evaluation.truePositives);
+  const falsePositives = total((evaluation) => evaluation.falsePositives);
+  const falseNegatives = total((evaluation) => evaluation.falseNegatives);
+  const truthCount = total((evaluation) => evaluation.matches.length);
+  return {
+    detectorId,
+    images: evaluations.length,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0,
+    recall: truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0,
+    // Weighted by box, so pages with several questions count for each
+    meanIoU: truthCount > 0 ? total((evaluation) => evaluation.meanIoU * evaluation.matches.length) / truthCount : 0,
+    meanDurationMs: evaluations.length > 0 ? total((evaluation) => evaluation.durationMs) / evaluations.length : 0,
+    failures: evaluations.filter((evaluation) => evaluation.failure).length,
+  };
+}
+
+/**
+ * Runs a detector the way the app does - on a copy shrunk to the analysis
+ * width - and scales its boxes back to the labelled image's pixels
+ */
+export function runDetectorOnImage(
+  detector: Detector,
+  gray: GrayImage,
+  analysisWidth: number,
+  minConfidence: number = 0
+): Detection[] {
+  const frame = downscaleGray(gray, analysisWidth);
+  return (detector.detect(frame) || [])
+    .filter((detection) => detection.confidence >= minConfidence)
+    .map((detection) => ({ rect: resizeRect(detection.rect, frame, gray), confidence: detection.confidence }));
+}
+
+/**
+ * Wraps one of the app's detection modes as a detector, so the configured
+ * fallback chain can be benchmarked next to the individual detectors
+ * Only confident chain results count, as in the app
+ */
+export function chainDetector(mode: DetectionMode): Detector {
+  return {
+    id: `chain:${mode}`,
+    label: `Detection chain (${mode})`,
+    detect(frame) {
+      const result = detectQuestions(frame, mode);
+      return result && result.confident ? result.detections : null;
+    },
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  ');
+  return [line(header), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.map(line)].join('\n');
+}
+
+/**
+ * Plain-text summary table, one row per detector
+ */
+export function formatSummaryTable(summaries: DetectorSummary[]): string {
+  return formatTable(
+    ['Detector', 'Images', 'TP', 'FP', 'FN', 'Precision', 'Recall', 'Mean IoU', 'Failures', 'ms/image'],
+    summaries.map((summary) => [
+      summary.detectorId,
+      String(summary.images),
+      String(summary.truePositives),
+      String(summary.falsePositives),
+      String(summary.falseNegatives),
+      percent(summary.precision),
+      percent(summary.recall),
+      summary.meanIoU.toFixed(3),
+      String(summary.failures),
+      summary.meanDurationMs.toFixed(1),
+    ])
+  );
+}
+
+/**
+ * Plain-text list of the images a detector failed on, with the reason
+ */
+export function formatFailures(detectorId: string, evaluations: ImageEvaluation[]): string {
+  const failed = evaluations.filter((evaluation) => evaluation.failure);
+  if (failed.length === 0) {
+    return `${detectorId}: no failures`;
+  }
+  return [`${detectorId}:`, ...failed.map((evaluation) => `  ${evaluation.name}: ${evaluation.failure}`)].join('\n');
+}
@@ -0,0 +1,216 @@
+/**
+ * Question detector registry
+ * Every detector takes a grayscale frame and returns candidate question rects
+ * in that frame's pixels, each with a 0-1 confidence. Screens don't call
+ * detectors directly: they run the chain configured for their mode, which
+ * falls through to the next detector when one finds nothing or is unsure
+ */
+
+import { PHOTO_TEXT_GRID, type GrayImage } from './pixelAnalysis';
+import type { Rect } from './imageUtils';
+import { detectQuestionAreaFast, detectQuestionInFrame } from './realtimeDetection';
+import { segmentQuestions } from './questionSegmentation';
+
+export type Detection = {
+  rect: Rect;          // in frame pixels
+  confidence: number;  // 0-1
+};
+
+export interface Detector {
+  id: string;
+  label: string;
+  // Candidates, most likely first; null when the frame has nothing to offer
+  detect(frame: GrayImage): Detection[] | null;
+}
+
+export type DetectionMode = 'live' | 'import';
+
+export type DetectionModeSettings = {
+  // Detector ids, tried in order
+  chain: string[];
+  // Results below this confidence fall through to the next detector
+  minConfidence: number;
+};
+
+export type DetectionSettings = Record<DetectionMode, DetectionModeSettings>;
+
+// Where the user's settings are kept between launches
+export type DetectionSettingsStorage = {
+  // null when nothing has been saved yet (first run)
+  read(): Promise<unknown>;
+  write(settings: DetectionSettings): Promise<void>;
+};
+
+export type ChainResult = {
+  detectorId: string;
+  detections: Detection[];
+  // false when no detector cleared minConfidence - detections is then the best guess
+  confident: boolean;
+};
+
+// The fixed layout guess is a placeholder, never a real finding
+const HEURISTIC_CONFIDENCE = 0.2;
+
+export const heuristicDetector: Detector = {
+  id: 'heuristic',
+  label: 'Layout heuristic',
+  detect(frame) {
+    return [{ rect: detectQuestionAreaFast(frame.width, frame.height), confidence: HEURISTIC_CONFIDENCE }];
+  },
+};
+
+export const pixelDensityDetector: Detector = {
+  id: 'pixel-density',
+  label: 'Pixel density',
+  detect(frame) {
+    const detection = detectQuestionInFrame(frame);
+    return detection ? [detection] : null;
+  },
+};
+
+// analyzeTextDensity's analysis of a whole photo: the first block of text on
+// the fine grid, scored like pixel density
+export const textDensityDetector: Detector = {
+  id: 'text-density',
+  label: 'Text density',
+  detect(frame) {
+    const detection = detectQuestionInFrame(frame, { ...PHOTO_TEXT_GRID, mode: 'paragraph' });
+    return detection ? [detection] : null;
+  },
+};
+
+export const segmentationDetector: Detector = {
+  id: 'segmentation',
+  label: 'Question segmentation',
+  detect(frame) {
+    const regions = segmentQuestions(frame);
+    if (regions.length === 0) {
+      return null;
+    }
+    // Numbered starts are much stronger evidence than a gap alone
+    return regions.map((region) => ({
+      rect: region.rect,
+      confidence: region.numbered ? 0.7 : regions.length > 1 ? 0.5 : 0.4,
+    }));
+  },
+};
+
+const registry = new Map<string, Detector>();
+
+export function registerDetector(detector: Detector): void {
+  if (registry.has(detector.id)) {
+    console.warn('⚠️ Replacing detector:', detector.id);
+  }
+  registry.set(detector.id, detector);
+}
+
+export function getDetector(id: string): Detector | null {
+  return registry.get(id) ?? null;
+}
+
+export function listDetectors(): Detector[] {
+  return [...registry.values()];
+}
+
+[heuristicDetector, pixelDensityDetector, textDensityDetector, segmentationDetector].forEach(registerDetector);
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  // Camera frames: the layout guess only seeds the box until pixels agree
+  live: { chain: ['pixel-density', 'heuristic'], minConfidence: 0.35 },
+  // Imported stills: slower detectors are fine. Segmentation leads - on the
+  // benchmark fixtures its recall is 87.5% against 62.5% for the density
+  // detectors - and text density (analyzeTextDensity's whole-photo analysis,
+  // a closer fit than pixel density) catches pages it can't split
+  import: { chain: ['segmentation', 'text-density'], minConfidence: 0.3 },
+};
+
+let activeSettings: DetectionSettings = DEFAULT_DETECTION_SETTINGS;
+let settingsStorage: DetectionSettingsStorage | null = null;
+
+export function getDetectionSettings(): DetectionSettings {
+  return activeSettings;
+}
+
+/**
+ * Changes the settings (pass null to go back to the defaults)
+ * Written through to the storage given to loadDetectionSettings, if any
+ */
+export function setDetectionSettings(settings: Partial<DetectionSettings> | null): void {
+  activeSettings = settings ? { ...activeSettings, ...settings } : DEFAULT_DETECTION_SETTINGS;
+  settingsStorage?.write(activeSettings).catch((error) => {
+    console.error('❌ Failed to save detection settings:', error);
+  });
+}
+
+/**
+ * Checks stored settings against the registry: unknown detectors are
+ * dropped, and a mode with no usable chain or confidence gets its default
+ */
+export function sanitizeDetectionSettings(raw: unknown): DetectionSettings {
+  type StoredSettings = Partial<Record<DetectionMode, Partial<DetectionModeSettings>>>;
+  const stored = (raw && typeof raw === 'object' ? raw : {}) as StoredSettings;
+  const sanitize = (mode: DetectionMode): DetectionModeSettings => {
+    const defaults = DEFAULT_DETECTION_SETTINGS[mode];
+    const { chain, minConfidence } = stored[mode] ?? {};
+    const known = Array.isArray(chain) ? chain.filter((id) => typeof id === 'string' && registry.has(id)) : [];
+    return {
+      chain: known.length > 0 ? [...new Set(known)] : defaults.chain,
+      minConfidence: typeof minConfidence === 'number' && minConfidence >= 0 && minConfidence <= 1
+        ? minConfidence
+        : defaults.minConfidence,
+    };
+  };
+  return { live: sanitize('live'), import: sanitize('import') };
+}
+
+/**
+ * Restores the settings saved in `storage` and keeps saving changes there
+ * Falls back to the defaults when nothing is stored or it can't be read
+ */
+export async function loadDetectionSettings(storage: DetectionSettingsStorage): Promise<DetectionSettings> {
+  settingsStorage = storage;
+  try {
+    const stored = await storage.read();
+    if (stored) {
+      activeSettings = sanitizeDetectionSettings(stored);
+    }
+  } catch (error) {
+    console.error('❌ Failed to read detection settings:', error);
+  }
+  return activeSettings;
+}
+
+/**
+ * Runs detectors in order until one returns a result at or above
+ * minConfidence. If none does, the most confident result seen is returned
+ * with confident = false; null when every detector came back empty
+ */
+export function runDetectorChain(frame: GrayImage, settings: DetectionModeSettings): ChainResult | null {
+  let fallback: ChainResult | null = null;
+  for (const id of settings.chain) {
+    const detector = getDetector(id);
+    if (!detector) {
+      console.warn('⚠️ Unknown detector in chain:', id);
+      continue;
+    }
+    const detections = detector.detect(frame);
+    if (!detections || detections.length === 0) {
+      continue;
+    }
+    const best = Math.max(...detections.map((detection) => detection.confidence));
+    if (best >= settings.minConfidence) {
+      return { detectorId: id, detections, confident: true };
+    }
+    if (!fallback || best > Math.max(...fallback.detections.map((detection) => detection.confidence))) {
+      fallback = { detectorId: id, detections, confident: false };
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Chain for one of the app's detection modes, using the current settings
+ */
+export function detectQuestions(frame: GrayImage, mode: DetectionMode): ChainResult | null {
+  return runDetectorChain(frame, getDetectionSettings()[mode]);
+}
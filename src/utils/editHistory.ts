@@ -0,0 +1,66 @@
+/**
+ * Bounded undo/redo history of edit states
+ * Pure and immutable - every operation returns a new history. A present of
+ * null means "nothing edited yet" (e.g. follow the detected box), so the
+ * first edit can be undone back to the untouched state
+ */
+
+export type EditHistory<T> = {
+  past: Array<T | null>;    // oldest first
+  present: T | null;
+  future: Array<T | null>;  // next redo first
+};
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export function createEditHistory<T>(present: T | null = null): EditHistory<T> {
+  return { past: [], present, future: [] };
+}
+
+/**
+ * Records a new state; the redo branch is dropped and the oldest states
+ * beyond the limit are forgotten. With `merge` the state replaces the latest
+ * step instead (e.g. the repeats of a held arrow key), unless it would
+ * overwrite a state reached by undo
+ */
+export function pushEdit<T>(
+  history: EditHistory<T>,
+  state: T | null,
+  limit: number = DEFAULT_HISTORY_LIMIT,
+  merge: boolean = false
+): EditHistory<T> {
+  if (state === history.present) {
+    return history;
+  }
+  if (merge && history.past.length > 0 && history.future.length === 0) {
+    return { ...history, present: state };
+  }
+  const past = [...history.past, history.present];
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    present: state,
+    future: [],
+  };
+}
+
+export function undoEdit<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.past.length === 0) {
+    return history;
+  }
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoEdit<T>(history: EditHistory<T>): EditHistory<T> {
+  if (history.future.length === 0) {
+    return history;
+  }
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
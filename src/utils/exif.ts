@@ -0,0 +1,139 @@
+/**
+ * Minimal JPEG header reading: the EXIF Orientation tag, the embedded
+ * thumbnail and the stored pixel size from the frame header. Pure TypeScript
+ * over the first bytes of the file - no need to decode the image
+ */
+
+import type { Size } from './geometry';
+
+export type JpegInfo = {
+  // EXIF Orientation, 1-8 (1 when the tag is missing)
+  orientation: number;
+  // Pixel size as stored, before orientation; null if the frame header
+  // wasn't within the bytes given
+  stored: Size | null;
+  // EXIF thumbnail JPEG (stored unrotated, like the main image), as a byte
+  // range of the bytes given; null when there is none
+  thumbnail: { offset: number; length: number } | null;
+};
+
+const ORIENTATION_TAG = 0x0112;
+const THUMBNAIL_OFFSET_TAG = 0x0201;
+const THUMBNAIL_LENGTH_TAG = 0x0202;
+
+function isStartOfFrame(marker: number): boolean {
+  // SOF0-SOF15, minus DHT (C4), JPG (C8) and DAC (CC)
+  return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+}
+
+type TiffReader = {
+  u16: (at: number) => number;
+  u32: (at: number) => number;
+  // Offset of IFD0
+  firstIfd: number;
+};
+
+function openTiff(tiff: Uint8Array): TiffReader | null {
+  if (tiff.length < 8) return null;
+  const littleEndian = tiff[0] === 0x49 && tiff[1] === 0x49; // "II"
+  if (!littleEndian && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) return null; // "MM"
+  const u16 = (at: number) => (littleEndian ? tiff[at] | (tiff[at + 1] << 8) : (tiff[at] << 8) | tiff[at + 1]);
+  const u32 = (at: number) => (littleEndian
+    ? (tiff[at] | (tiff[at + 1] << 8) | (tiff[at + 2] << 16)) + tiff[at + 3] * 0x1000000
+    : ((tiff[at + 1] << 16) | (tiff[at + 2] << 8) | tiff[at + 3]) + tiff[at] * 0x1000000);
+  if (u16(2) !== 42) return null;
+  return { u16, u32, firstIfd: u32(4) };
+}
+
+/**
+ * Entry offsets of one IFD by tag, plus the offset of the next IFD (0 = none)
+ * An IFD cut short yields the entries before the cut
+ */
+function readIfd(tiff: Uint8Array, reader: TiffReader, ifd: number): { entries: Map<number, number>; next: number } | null {
+  if (ifd < 8 || ifd + 2 > tiff.length) return null;
+  const count = reader.u16(ifd);
+  const entries = new Map<number, number>();
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return { entries, next: 0 };
+    entries.set(reader.u16(entry), entry);
+  }
+  const nextAt = ifd + 2 + count * 12;
+  return { entries, next: nextAt + 4 <= tiff.length ? reader.u32(nextAt) : 0 };
+}
+
+/**
+ * Reads the Orientation tag from an APP1 Exif payload (the bytes after
+ * "Exif\0\0"): a TIFF header followed by IFD0
+ */
+export function readTiffOrientation(tiff: Uint8Array): number | null {
+  const reader = openTiff(tiff);
+  const ifd0 = reader && readIfd(tiff, reader, reader.firstIfd);
+  const entry = ifd0?.entries.get(ORIENTATION_TAG);
+  if (!reader || entry === undefined) return null;
+  // SHORT value, stored left-aligned in the 4-byte value field
+  const value = reader.u16(entry + 8);
+  return value >= 1 && value <= 8 ? value : null;
+}
+
+/**
+ * Finds the thumbnail JPEG that IFD1 points at, as a byte range of the
+ * TIFF payload; null when there is none or it lies outside the bytes given
+ */
+export function readTiffThumbnail(tiff: Uint8Array): { offset: number; length: number } | null {
+  const reader = openTiff(tiff);
+  const ifd0 = reader && readIfd(tiff, reader, reader.firstIfd);
+  const ifd1 = reader && ifd0 && ifd0.next ? readIfd(tiff, reader, ifd0.next) : null;
+  const offsetEntry = ifd1?.entries.get(THUMBNAIL_OFFSET_TAG);
+  const lengthEntry = ifd1?.entries.get(THUMBNAIL_LENGTH_TAG);
+  if (!reader || offsetEntry === undefined || lengthEntry === undefined) return null;
+  const offset = reader.u32(offsetEntry + 8);
+  const length = reader.u32(lengthEntry + 8);
+  return length > 0 && offset + length <= tiff.length ? { offset, length } : null;
+}
+
+/**
+ * Walks the JPEG marker segments up to the image data
+ * Returns null when the bytes aren't a JPEG
+ */
+export function readJpegInfo(bytes: Uint8Array): JpegInfo | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const info: JpegInfo = { orientation: 1, stored: null, thumbnail: null };
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    // Fill bytes and standalone markers have no length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan / end of image: the headers are over
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = offset + 4;
+    if (marker === 0xe1 && segment + 6 <= bytes.length &&
+        bytes[segment] === 0x45 && bytes[segment + 1] === 0x78 && bytes[segment + 2] === 0x69 &&
+        bytes[segment + 3] === 0x66 && bytes[segment + 4] === 0 && bytes[segment + 5] === 0) {
+      const end = Math.min(bytes.length, offset + 2 + length);
+      const tiff = bytes.subarray(segment + 6, end);
+      info.orientation = readTiffOrientation(tiff) ?? info.orientation;
+      const thumbnail = readTiffThumbnail(tiff);
+      info.thumbnail = thumbnail && { offset: segment + 6 + thumbnail.offset, length: thumbnail.length };
+    } else if (isStartOfFrame(marker) && segment + 5 <= bytes.length) {
+      info.stored = {
+        height: (bytes[segment + 1] << 8) | bytes[segment + 2],
+        width: (bytes[segment + 3] << 8) | bytes[segment + 4],
+      };
+      break;
+    }
+    offset += 2 + length;
+  }
+  return info;
+}
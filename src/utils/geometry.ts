@@ -0,0 +1,239 @@
+/**
+ * Coordinate mapping between views and image pixels
+ * Every screen <-> image conversion goes through here, so a crop always
+ * matches what the user saw. Three layers, applied in this order from stored
+ * pixels to the screen:
+ * - orientation: stored pixels -> the upright picture (EXIF / sensor rotation)
+ * - placement: the upright picture scaled into a view (cover or contain)
+ * - layout: where the camera preview is visible between the screen's bars
+ */
+
+import type { Rect } from './imageUtils';
+
+export type Point = { x: number; y: number };
+export type Size = { width: number; height: number };
+
+// cover = aspect-fill (overflow cropped), contain = aspect-fit (letterboxed)
+export type FitMode = 'cover' | 'contain';
+
+// Content lands in the view at content * scale + offset
+export type Placement = {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+};
+
+// Clockwise rotation that turns stored pixels upright, then an optional
+// left-right mirror of the rotated picture
+export type Orientation = {
+  rotation: 0 | 90 | 180 | 270;
+  mirrored: boolean;
+};
+
+export const UPRIGHT: Orientation = { rotation: 0, mirrored: false };
+
+export function isUpright(orientation: Orientation): boolean {
+  return orientation.rotation === 0 && !orientation.mirrored;
+}
+
+/**
+ * Scales content into a view, centred on both axes
+ */
+export function placeContent(content: Size, view: Size, mode: FitMode): Placement {
+  const scaleX = view.width / content.width;
+  const scaleY = view.height / content.height;
+  const scale = mode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  return {
+    scale,
+    offsetX: (view.width - content.width * scale) / 2,
+    offsetY: (view.height - content.height * scale) / 2,
+  };
+}
+
+export function contentToView(point: Point, placement: Placement): Point {
+  return { x: point.x * placement.scale + placement.offsetX, y: point.y * placement.scale + placement.offsetY };
+}
+
+export function viewToContent(point: Point, placement: Placement): Point {
+  return { x: (point.x - placement.offsetX) / placement.scale, y: (point.y - placement.offsetY) / placement.scale };
+}
+
+/**
+ * Scales a rect independently on each axis (e.g. between an analysis copy
+ * and the full-size image, which share an aspect ratio up to rounding)
+ */
+export function scaleRect(rect: Rect, scaleX: number, scaleY: number = scaleX): Rect {
+  return { x: rect.x * scaleX, y: rect.y * scaleY, width: rect.width * scaleX, height: rect.height * scaleY };
+}
+
+/**
+ * Maps a rect between two resolutions of the same picture
+ */
+export function resizeRect(rect: Rect, from: Size, to: Size): Rect {
+  return scaleRect(rect, to.width / from.width, to.height / from.height);
+}
+
+/**
+ * Smallest rect containing all the points
+ */
+export function boundingRect(points: Point[]): Rect {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Intersection of a rect with bounds; null when nothing is left
+ */
+export function clampRect(rect: Rect, bounds: Rect): Rect | null {
+  const x = Math.max(bounds.x, rect.x);
+  const y = Math.max(bounds.y, rect.y);
+  const right = Math.min(bounds.x + bounds.width, rect.x + rect.width);
+  const bottom = Math.min(bounds.y + bounds.height, rect.y + rect.height);
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+export function clampPoint(point: Point, size: Size): Point {
+  return {
+    x: Math.max(0, Math.min(size.width, point.x)),
+    y: Math.max(0, Math.min(size.height, point.y)),
+  };
+}
+
+// Whole pixels for ImageManipulator; the far edge is rounded, not the width,
+// so adjacent crops still meet
+export function roundRect(rect: Rect): Rect {
+  const x = Math.round(rect.x);
+  const y = Math.round(rect.y);
+  return { x, y, width: Math.round(rect.x + rect.width) - x, height: Math.round(rect.y + rect.height) - y };
+}
+
+/**
+ * Orientation for an EXIF Orientation tag (1-8); anything else is upright
+ */
+export function orientationFromExif(value: number | null | undefined): Orientation {
+  switch (value) {
+    case 2: return { rotation: 0, mirrored: true };
+    case 3: return { rotation: 180, mirrored: false };
+    case 4: return { rotation: 180, mirrored: true };
+    case 5: return { rotation: 90, mirrored: true };
+    case 6: return { rotation: 90, mirrored: false };
+    case 7: return { rotation: 270, mirrored: true };
+    case 8: return { rotation: 270, mirrored: false };
+    default: return UPRIGHT;
+  }
+}
+
+/**
+ * Size of the upright picture for stored pixels of the given size
+ */
+export function orientedSize(stored: Size, orientation: Orientation): Size {
+  return orientation.rotation === 90 || orientation.rotation === 270
+    ? { width: stored.height, height: stored.width }
+    : stored;
+}
+
+/**
+ * Stored pixel position -> position in the upright picture
+ */
+export function orientPoint(point: Point, stored: Size, orientation: Orientation): Point {
+  const { width, height } = stored;
+  let rotated: Point;
+  switch (orientation.rotation) {
+    case 90: rotated = { x: height - point.y, y: point.x }; break;
+    case 180: rotated = { x: width - point.x, y: height - point.y }; break;
+    case 270: rotated = { x: point.y, y: width - point.x }; break;
+    default: rotated = point;
+  }
+  if (!orientation.mirrored) return rotated;
+  return { x: orientedSize(stored, orientation).width - rotated.x, y: rotated.y };
+}
+
+/**
+ * Upright picture position -> stored pixel position (inverse of orientPoint)
+ */
+export function unorientPoint(point: Point, stored: Size, orientation: Orientation): Point {
+  const upright = orientedSize(stored, orientation);
+  const unmirrored = orientation.mirrored ? { x: upright.width - point.x, y: point.y } : point;
+  switch (orientation.rotation) {
+    case 90: return { x: unmirrored.y, y: stored.height - unmirrored.x };
+    case 180: return { x: stored.width - unmirrored.x, y: stored.height - unmirrored.y };
+    case 270: return { x: stored.width - unmirrored.y, y: unmirrored.x };
+    default: return unmirrored;
+  }
+}
+
+/**
+ * Maps a rect from stored pixels into a view showing the upright picture
+ */
+export function imageRectToView(
+  rect: Rect,
+  stored: Size,
+  view: Size,
+  mode: FitMode,
+  orientation: Orientation = UPRIGHT
+): Rect {
+  const placement = placeContent(orientedSize(stored, orientation), view, mode);
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+  ].map((corner) => contentToView(orientPoint(corner, stored, orientation), placement));
+  return boundingRect(corners);
+}
+
+/**
+ * Maps a view point to stored pixels, clamped to the image
+ */
+export function viewPointToImage(
+  point: Point,
+  view: Size,
+  stored: Size,
+  mode: FitMode,
+  orientation: Orientation = UPRIGHT
+): Point {
+  const upright = orientedSize(stored, orientation);
+  const placement = placeContent(upright, view, mode);
+  return unorientPoint(clampPoint(viewToContent(point, placement), upright), stored, orientation);
+}
+
+/**
+ * Maps a view rect to stored pixels, clamped to the image
+ */
+export function viewRectToImage(
+  rect: Rect,
+  view: Size,
+  stored: Size,
+  mode: FitMode,
+  orientation: Orientation = UPRIGHT
+): Rect {
+  const corners = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+  ].map((corner) => viewPointToImage(corner, view, stored, mode, orientation));
+  return boundingRect(corners);
+}
+
+// Camera screen chrome over the full-screen preview: top bar and bottom controls
+export const CAMERA_PREVIEW_INSETS = { top: 120, bottom: 100 };
+
+export type CameraPreviewLayout = {
+  // The camera view - full screen, showing the feed aspect-fill
+  view: Size;
+  // Part of the view not covered by the bars, in view coordinates
+  visible: Rect;
+};
+
+export function cameraPreviewLayout(screen: Size): CameraPreviewLayout {
+  return {
+    view: screen,
+    visible: {
+      x: 0,
+      y: CAMERA_PREVIEW_INSETS.top,
+      width: screen.width,
+      height: screen.height - CAMERA_PREVIEW_INSETS.top - CAMERA_PREVIEW_INSETS.bottom,
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * "Scan look" filters for cropped questions
+ * Deterministic pure pixel code on RGBA buffers (no platform APIs), so the
+ * same input always gives byte-identical output
+ */
+
+import type { RgbaImage } from './png';
+import { toGrayscale, type GrayImage } from './pixelAnalysis';
+
+export type EnhancementMode = 'original' | 'grayscale' | 'blackWhite' | 'whiten';
+
+export const ENHANCEMENT_MODES: { mode: EnhancementMode; label: string }[] = [
+  { mode: 'original', label: 'Original' },
+  { mode: 'grayscale', label: 'Gray' },
+  { mode: 'blackWhite', label: 'B&W' },
+  { mode: 'whiten', label: 'Whiten' },
+];
+
+// Adaptive threshold: window side as a share of the shorter image side...
+const THRESHOLD_WINDOW_RATIO = 1 / 12;
+// ...and how far below the local mean a pixel must be to count as ink
+const THRESHOLD_OFFSET = 12;
+// Background estimate for shadow removal: cells per shorter side
+const BACKGROUND_CELLS = 16;
+
+function fromGray(gray: GrayImage): RgbaImage {
+  const data = new Uint8Array(gray.width * gray.height * 4);
+  for (let i = 0, p = 0; i < gray.data.length; i++, p += 4) {
+    data[p] = data[p + 1] = data[p + 2] = gray.data[i];
+    data[p + 3] = 255;
+  }
+  return { width: gray.width, height: gray.height, data };
+}
+
+/**
+ * Black ink on white paper: each pixel is compared with the mean of its
+ * neighbourhood (summed-area table), which copes with uneven lighting where
+ * a single global threshold would black out shadows
+ */
+export function adaptiveThreshold(gray: GrayImage): GrayImage {
+  const { width, height, data } = gray;
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(1, Math.round(Math.min(width, height) * THRESHOLD_WINDOW_RATIO / 2));
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum = integral[bottom * stride + right] - integral[top * stride + right]
+        - integral[bottom * stride + left] + integral[top * stride + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      out[y * width + x] = data[y * width + x] < mean - THRESHOLD_OFFSET ? 0 : 255;
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Estimates the paper colour under each pixel: the brightest luminance of
+ * each coarse cell (text is darker than paper, so the max skips it), spread
+ * back over the image with bilinear interpolation between cell centres
+ */
+export function estimateBackground(gray: GrayImage): GrayImage {
+  const { width, height, data } = gray;
+  const cellSize = Math.max(2, Math.ceil(Math.min(width, height) / BACKGROUND_CELLS));
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+
+  const cells = new Float64Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cellSize);
+    for (let x = 0; x < width; x++) {
+      const index = row * cols + Math.floor(x / cellSize);
+      if (data[y * width + x] > cells[index]) cells[index] = data[y * width + x];
+    }
+  }
+
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = Math.max(0, Math.min(rows - 1, (y + 0.5) / cellSize - 0.5));
+    const r0 = Math.floor(fy);
+    const r1 = Math.min(rows - 1, r0 + 1);
+    const ty = fy - r0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.max(0, Math.min(cols - 1, (x + 0.5) / cellSize - 0.5));
+      const c0 = Math.floor(fx);
+      const c1 = Math.min(cols - 1, c0 + 1);
+      const tx = fx - c0;
+      const top = cells[r0 * cols + c0] * (1 - tx) + cells[r0 * cols + c1] * tx;
+      const bottom = cells[r1 * cols + c0] * (1 - tx) + cells[r1 * cols + c1] * tx;
+      out[y * width + x] = Math.round(top * (1 - ty) + bottom * ty);
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Shadow removal / background whitening: divides each channel by the local
+ * paper brightness, so shadows and colour casts on the paper become white
+ * while ink keeps its colour
+ */
+export function whitenBackground(image: RgbaImage): RgbaImage {
+  const background = estimateBackground(toGrayscale(image));
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0, p = 0; i < background.data.length; i++, p += 4) {
+    const scale = 255 / Math.max(32, background.data[i]);
+    for (let c = 0; c < 3; c++) {
+      data[p + c] = Math.min(255, Math.round(image.data[p + c] * scale));
+    }
+    data[p + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Applies one enhancement mode; 'original' returns the input unchanged
+ */
+export function enhanceImage(image: RgbaImage, mode: EnhancementMode): RgbaImage {
+  switch (mode) {
+    case 'original':
+      return image;
+    case 'grayscale':
+      return fromGray(toGrayscale(image));
+    case 'blackWhite':
+      // Whitening first keeps shadowed paper from reading as ink
+      return fromGray(adaptiveThreshold(toGrayscale(whitenBackground(image))));
+    case 'whiten':
+      return whitenBackground(image);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Bringing existing images (gallery photos, screenshots, dropped files) into
+ * the crop pipeline
+ */
+
+import { Image, Platform } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { loadGrayscaleImage, normalizeImageOrientation, type Rect } from './imageUtils';
+import { detectQuestions } from './detectors';
+import { resizeRect } from './geometry';
+
+export type ImportedImage = { uri: string; width: number; height: number };
+
+function getImageSize(uri: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+  });
+}
+
+/**
+ * Lets the user pick one image from the device library (a file dialog on web)
+ * Returns null if they cancel or deny access
+ */
+export async function pickImageFromLibrary(): Promise<ImportedImage | null> {
+  if (Platform.OS !== 'web') {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      console.log('🚫 Media library permission denied');
+      return null;
+    }
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: 1,
+    exif: false,
+  });
+  if (result.canceled || !result.assets?.length) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  // Web sometimes reports 0x0 for files it hasn't decoded yet
+  const size = asset.width && asset.height
+    ? { width: asset.width, height: asset.height }
+    : await getImageSize(asset.uri);
+  console.log('🖼️ Imported image:', size.width, 'x', size.height);
+  // Gallery files keep the camera's EXIF rotation; browsers apply it themselves
+  return Platform.OS === 'web' ? { uri: asset.uri, ...size } : normalizeImageOrientation({ uri: asset.uri, ...size });
+}
+
+/**
+ * Web: turns a dropped/selected File into an image the pipeline can read
+ */
+export async function importImageFile(file: File): Promise<ImportedImage | null> {
+  if (!file.type.startsWith('image/')) {
+    console.log('🚫 Ignoring non-image file:', file.type);
+    return null;
+  }
+  const uri = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const size = await getImageSize(uri);
+  console.log('🖼️ Dropped image:', file.name, size.width, 'x', size.height);
+  return { uri, ...size };
+}
+
+/**
+ * Initial crop for an imported image, in image pixels - the detected question
+ * if there is one, otherwise the middle of the image
+ * Runs the import detector chain: segmentation, then the text density
+ * analysis of analyzeTextDensity
+ */
+export async function proposeQuestionCrop(image: ImportedImage): Promise<Rect> {
+  const gray = await loadGrayscaleImage(image.uri, 200);
+  const result = gray ? detectQuestions(gray, 'import') : null;
+  if (gray && result?.confident) {
+    console.log('🎯 Import detection:', result.detectorId, 'confidence', result.detections[0].confidence.toFixed(2));
+    // Scale back to image pixels, with a little padding so letter edges aren't clipped
+    const rect = resizeRect(result.detections[0].rect, gray, image);
+    const padX = rect.width * 0.02;
+    const padY = rect.height * 0.02;
+    const x = Math.max(0, rect.x - padX);
+    const y = Math.max(0, rect.y - padY);
+    return {
+      x,
+      y,
+      width: Math.min(image.width - x, rect.width + padX * 2),
+      height: Math.min(image.height - y, rect.height + padY * 2),
+    };
+  }
+  return {
+    x: image.width * 0.1,
+    y: image.height * 0.3,
+    width: image.width * 0.8,
+    height: image.height * 0.4,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Readability checks for cropped questions
+ * Pure pixel analysis on a grayscale copy of the crop: focus (Laplacian
+ * variance), blown-out highlight area and ink/paper contrast. Measurements are
+ * resolution dependent, so analyse at a fixed width (QUALITY_ANALYSIS_WIDTH)
+ */
+
+import { computeInkThreshold, laplacianVariance, type GrayImage } from './pixelAnalysis';
+
+export const QUALITY_ANALYSIS_WIDTH = 400;
+
+export type QualityIssue = 'blur' | 'glare' | 'overexposed' | 'dark' | 'lowContrast';
+
+export type QualityWarning = {
+  issue: QualityIssue;
+  message: string;
+};
+
+export type QualityThresholds = {
+  // Laplacian variance below this reads as out of focus or shaken
+  minSharpness: number;
+  // Luminance at or above this counts as a blown-out highlight
+  highlightLevel: number;
+  // Share of blown-out pixels that counts as a glare patch...
+  glareRatio: number;
+  // ...and the share above which the whole crop is overexposed instead
+  overexposedRatio: number;
+  // Mean luminance below this is too dark
+  minBrightness: number;
+  // Difference between mean paper and mean ink luminance
+  minContrast: number;
+};
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minSharpness: 100,
+  highlightLevel: 250,
+  glareRatio: 0.03,
+  overexposedRatio: 0.6,
+  minBrightness: 70,
+  minContrast: 40,
+};
+
+export type QualityReport = {
+  sharpness: number;
+  highlightRatio: number;
+  brightness: number;
+  contrast: number;
+  warnings: QualityWarning[];
+};
+
+const MESSAGES: Record<QualityIssue, string> = {
+  blur: 'Too blurry — hold steady',
+  glare: 'Glare detected — tilt the page away from the light',
+  overexposed: 'Overexposed — move away from bright light',
+  dark: 'Too dark — add more light',
+  lowContrast: 'Low contrast — text may be hard to read',
+};
+
+/**
+ * Mean luminance of the paper minus that of the ink, split at the Otsu level
+ * (a percentile spread would miss a single short line of text on a wide crop)
+ */
+function inkContrast(histogram: Float64Array, threshold: number): number {
+  let inkSum = 0;
+  let inkCount = 0;
+  let paperSum = 0;
+  let paperCount = 0;
+  for (let level = 0; level < 256; level++) {
+    if (level <= threshold) {
+      inkSum += level * histogram[level];
+      inkCount += histogram[level];
+    } else {
+      paperSum += level * histogram[level];
+      paperCount += histogram[level];
+    }
+  }
+  if (inkCount === 0 || paperCount === 0) return 0;
+  return paperSum / paperCount - inkSum / inkCount;
+}
+
+/**
+ * Scores a grayscale crop and lists what would make it hard to read,
+ * most serious first
+ */
+export function analyzeImageQuality(
+  gray: GrayImage,
+  thresholds: Partial<QualityThresholds> = {}
+): QualityReport {
+  const limits = { ...DEFAULT_QUALITY_THRESHOLDS, ...thresholds };
+  const total = gray.data.length;
+
+  const histogram = new Float64Array(256);
+  let sum = 0;
+  for (let i = 0; i < total; i++) {
+    histogram[gray.data[i]]++;
+    sum += gray.data[i];
+  }
+  let highlights = 0;
+  for (let level = limits.highlightLevel; level < 256; level++) highlights += histogram[level];
+
+  const report: QualityReport = {
+    sharpness: laplacianVariance(gray),
+    highlightRatio: total > 0 ? highlights / total : 0,
+    brightness: total > 0 ? sum / total : 0,
+    contrast: total > 0 ? inkContrast(histogram, computeInkThreshold(gray)) : 0,
+    warnings: [],
+  };
+  if (total === 0) {
+    return report;
+  }
+
+  const issues: QualityIssue[] = [];
+  if (report.sharpness < limits.minSharpness) issues.push('blur');
+  if (report.highlightRatio >= limits.overexposedRatio) {
+    issues.push('overexposed');
+  } else if (report.highlightRatio >= limits.glareRatio) {
+    issues.push('glare');
+  }
+  if (report.brightness < limits.minBrightness) issues.push('dark');
+  // Blur and exposure problems already explain a flat histogram
+  if (report.contrast < limits.minContrast && issues.length === 0) issues.push('lowContrast');
+
+  report.warnings = issues.map((issue) => ({ issue, message: MESSAGES[issue] }));
+  return report;
+}
@@ -1,18 +1,26 @@
+import { Platform } from 'react-native';
 import * as ImageManipulator from 'expo-image-manipulator';
+import * as FileSystem from 'expo-file-system';
+import { base64ToBytes, bytesToBase64, decodePng, encodePng, type RgbaImage } from './png';
+import { toGrayscale, findTextRegion, PHOTO_TEXT_GRID, type GrayImage, type TextRegionConfig } from './pixelAnalysis';
+import { segmentQuestions, type SegmentationConfig } from './questionSegmentation';
+import { analyzeImageQuality, QUALITY_ANALYSIS_WIDTH, type QualityReport } from './imageQuality';
+import { enhanceImage, type EnhancementMode } from './imageEnhancement';
+import {
+  detectOrientation,
+  estimateSkewAngle,
+  matchesOrientation,
+  orientGray,
+  rotateGrayQuarter,
+  rotateRgba,
+  type QuarterTurn,
+} from './deskew';
+import { detectPageQuad, pageEdgeSupport, quadSkew, regionSourceQuad, rectifiedSize, warpPerspective, type Quad } from './perspective';
+import { isUpright, orientationFromExif, resizeRect, UPRIGHT, type Orientation, type Size } from './geometry';
+import { readJpegInfo } from './exif';
 
 export type Rect = { x: number; y: number; width: number; height: number };
 
-export function mapScreenRectToImage(rect: Rect, screenW: number, screenH: number, imageW: number, imageH: number) {
-  const scaleX = imageW / screenW;
-  const scaleY = imageH / screenH;
-  return {
-    originX: Math.round(rect.x * scaleX),
-    originY: Math.round(rect.y * scaleY),
-    width: Math.round(rect.width * scaleX),
-    height: Math.round(rect.height * scaleY),
-  } as const;
-}
-
 /**
  * Smart text area detection - finds the most likely position for question text
  * Uses heuristics based on typical document layouts:
@@ -104,174 +112,587 @@ export function refineTextArea(
   };
 }
 
+export type StoredOrientation = {
+  orientation: Orientation;
+  // Pixel size in the file, before orientation
+  stored: Size;
+  // The EXIF thumbnail JPEG, stored unturned like the main pixels
+  thumbnail: Uint8Array | null;
+};
+
+// Enough for the EXIF block (thumbnail included) and the frame header
+const JPEG_HEADER_BYTES = 128 * 1024;
+// Width both pictures are compared at when matching against the thumbnail
+const THUMBNAIL_MATCH_WIDTH = 32;
+
+/**
+ * Reads a JPEG's EXIF orientation and stored size from its first bytes
+ * Null for other formats or when the file can't be read
+ */
+export async function readImageOrientation(imageUri: string): Promise<StoredOrientation | null> {
+  try {
+    let bytes: Uint8Array;
+    if (Platform.OS === 'web' || !/^file:/.test(imageUri)) {
+      const buffer = await (await fetch(imageUri)).arrayBuffer();
+      bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, JPEG_HEADER_BYTES));
+    } else {
+      bytes = base64ToBytes(await FileSystem.readAsStringAsync(imageUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: 0,
+        length: JPEG_HEADER_BYTES,
+      }));
+    }
+    const info = readJpegInfo(bytes);
+    if (!info || !info.stored) {
+      return null;
+    }
+    const { thumbnail } = info;
+    return {
+      orientation: orientationFromExif(info.orientation),
+      stored: info.stored,
+      thumbnail: thumbnail && bytes.slice(thumbnail.offset, thumbnail.offset + thumbnail.length),
+    };
+  } catch (error) {
+    console.warn('⚠️ Could not read image orientation:', error);
+    return null;
+  }
+}
+
+async function loadThumbnailGray(thumbnail: Uint8Array): Promise<GrayImage | null> {
+  const base64 = bytesToBase64(thumbnail);
+  let uri = `data:image/jpeg;base64,${base64}`;
+  if (Platform.OS !== 'web' && FileSystem.cacheDirectory) {
+    uri = `${FileSystem.cacheDirectory}exif-thumbnail-${Date.now()}.jpg`;
+    await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  }
+  try {
+    const image = await loadRgbaImage(uri, THUMBNAIL_MATCH_WIDTH);
+    return image && toGrayscale(image);
+  } finally {
+    deleteTemporaryImage(uri);
+  }
+}
+
+/**
+ * The part of an image's orientation its decoder left undone, judged from
+ * this image alone. For sideways tags the decoded aspect ratio tells;
+ * otherwise the decoded pixels are matched against the unturned EXIF
+ * thumbnail. With neither to go on the decoder is trusted - ImageManipulator
+ * decodes through UIImage, Glide or the browser, which all apply the tag
+ */
+async function pendingOrientation(
+  info: StoredOrientation,
+  decoded: Size,
+  loadDecoded: () => Promise<GrayImage | null>
+): Promise<Orientation> {
+  const { orientation, stored, thumbnail } = info;
+  if (isUpright(orientation)) return UPRIGHT;
+  if ((orientation.rotation === 90 || orientation.rotation === 270) && stored.width !== stored.height) {
+    const turned = (decoded.width > decoded.height) !== (stored.width > stored.height);
+    return turned ? UPRIGHT : orientation;
+  }
+  if (!thumbnail) return UPRIGHT;
+  try {
+    const [decodedGray, thumbnailGray] = await Promise.all([loadDecoded(), loadThumbnailGray(thumbnail)]);
+    if (!decodedGray || !thumbnailGray) return UPRIGHT;
+    return matchesOrientation(decodedGray, thumbnailGray, orientation, THUMBNAIL_MATCH_WIDTH) ? UPRIGHT : orientation;
+  } catch (error) {
+    console.warn('⚠️ Could not compare with the EXIF thumbnail:', error);
+    return UPRIGHT;
+  }
+}
+
+function orientationActions(orientation: Orientation): ImageManipulator.Action[] {
+  const actions: ImageManipulator.Action[] = [];
+  if (orientation.rotation) actions.push({ rotate: orientation.rotation });
+  if (orientation.mirrored) actions.push({ flip: ImageManipulator.FlipType.Horizontal });
+  return actions;
+}
+
+/**
+ * Rewrites a photo so its pixels are upright, following its EXIF orientation
+ * Phones that store sensor-oriented pixels plus a rotation tag get rotated;
+ * the result carries no tag, so every later step sees the same pixels
+ */
+export async function normalizeImageOrientation<T extends { uri: string; width: number; height: number }>(
+  image: T
+): Promise<T> {
+  const info = await readImageOrientation(image.uri);
+  if (!info || isUpright(info.orientation)) {
+    return image;
+  }
+
+  const decoded = await ImageManipulator.manipulateAsync(
+    image.uri, [], { compress: 1.0, format: ImageManipulator.SaveFormat.JPEG }
+  );
+  const pending = await pendingOrientation(info, decoded, async () => {
+    const pixels = await loadRgbaImage(decoded.uri, THUMBNAIL_MATCH_WIDTH);
+    return pixels && toGrayscale(pixels);
+  });
+  console.log('🧭 EXIF orientation:', info.orientation, isUpright(pending) ? '(applied by decoder)' : '- rotating');
+  if (isUpright(pending)) {
+    return { ...image, uri: decoded.uri, width: decoded.width, height: decoded.height };
+  }
+  const upright = await ImageManipulator.manipulateAsync(
+    decoded.uri, orientationActions(pending), { compress: 1.0, format: ImageManipulator.SaveFormat.JPEG }
+  );
+  deleteTemporaryImage(decoded.uri);
+  return { ...image, uri: upright.uri, width: upright.width, height: upright.height };
+}
+
+/**
+ * Removes a throwaway image file from the native cache (snapshots, analysis
+ * copies); web data and blob URIs need no cleanup
+ */
+export async function deleteTemporaryImage(uri: string): Promise<void> {
+  if (Platform.OS === 'web' || !/^file:/.test(uri)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.warn('⚠️ Could not delete temporary image:', error);
+  }
+}
+
+/**
+ * Loads an image as raw RGBA pixels
+ * Resizes to the given width (keeping aspect ratio) and decodes a PNG of it;
+ * the PNG file itself is only a carrier for the pixels and is deleted.
+ * With `crop`, only that part of the image is loaded
+ */
+export async function loadRgbaImage(
+  imageUri: string,
+  width: number,
+  options?: { crop?: ImageManipulator.ActionCrop['crop'] }
+): Promise<RgbaImage | null> {
+  const resize = { width };
+  const processed = await ImageManipulator.manipulateAsync(
+    imageUri,
+    options?.crop ? [{ crop: options.crop }, { resize }] : [{ resize }],
+    { compress: 1.0, format: ImageManipulator.SaveFormat.PNG, base64: true }
+  );
+  deleteTemporaryImage(processed.uri);
+
+  if (!processed.base64) {
+    console.warn('⚠️ Image manipulator returned no pixel data');
+    return null;
+  }
+
+  return decodePng(base64ToBytes(processed.base64));
+}
+
+/**
+ * Loads an image as a small grayscale buffer for pixel analysis
+ * With `upright`, raw camera frames are turned upright by their EXIF tag
+ * (in pixels, so the frame is only decoded once). A sideways frame the
+ * decoder left unturned ends up `width` tall rather than wide
+ */
+export async function loadGrayscaleImage(
+  imageUri: string,
+  width: number,
+  options?: { upright?: boolean }
+): Promise<GrayImage | null> {
+  const info = options?.upright ? await readImageOrientation(imageUri) : null;
+  const image = await loadRgbaImage(imageUri, width);
+  if (!image) {
+    return null;
+  }
+  const gray = toGrayscale(image);
+  return info ? orientGray(gray, await pendingOrientation(info, gray, async () => gray)) : gray;
+}
+
+/**
+ * Writes RGBA pixels to an image and returns a URI the Image component and
+ * ImageManipulator can read (a cache file on device, a data URI on web)
+ * JPEG is re-encoded natively from a temporary PNG - use it for photo-sized
+ * output, which would make very large PNGs
+ */
+export async function saveRgbaImage(
+  image: RgbaImage,
+  name: string = 'processed',
+  format: 'png' | 'jpeg' = 'png'
+): Promise<string> {
+  const base64 = bytesToBase64(encodePng(image));
+  let uri = `data:image/png;base64,${base64}`;
+  if (Platform.OS !== 'web' && FileSystem.cacheDirectory) {
+    uri = `${FileSystem.cacheDirectory}${name}-${Date.now()}.png`;
+    await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  }
+  if (format === 'png') {
+    return uri;
+  }
+  const jpeg = await ImageManipulator.manipulateAsync(
+    uri, [], { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+  );
+  deleteTemporaryImage(uri);
+  return jpeg.uri;
+}
+
+// Share of each page side that must follow a visible edge before the
+// outline is trusted
+const MIN_PAGE_EDGE_SUPPORT = 0.8;
+
+/**
+ * Finds the page outline in a photo, in full photo coordinates
+ * Null unless every side of the outline follows a visible page edge - a
+ * weak guess must never bend a question
+ */
+export async function detectPageBoundary(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number
+): Promise<Quad | null> {
+  const analysisWidth = 400;
+  const gray = await loadGrayscaleImage(imageUri, analysisWidth);
+  if (!gray) {
+    return null;
+  }
+
+  const quad = detectPageQuad(gray);
+  if (!quad) {
+    return null;
+  }
+  const support = pageEdgeSupport(gray, quad);
+  if (support < MIN_PAGE_EDGE_SUPPORT) {
+    console.log('📄 Page outline too uncertain (edge support', support.toFixed(2), ')');
+    return null;
+  }
+
+  const scaleX = imageWidth / gray.width;
+  const scaleY = imageHeight / gray.height;
+  const scalePoint = (p: { x: number; y: number }) => ({ x: p.x * scaleX, y: p.y * scaleY });
+  return {
+    topLeft: scalePoint(quad.topLeft),
+    topRight: scalePoint(quad.topRight),
+    bottomRight: scalePoint(quad.bottomRight),
+    bottomLeft: scalePoint(quad.bottomLeft),
+  };
+}
+
+/**
+ * Finds each separate question on a photographed page, top to bottom, in
+ * full photo coordinates
+ */
+export async function detectQuestionRegions(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number,
+  config?: SegmentationConfig
+): Promise<Rect[]> {
+  // Wider than the single-box analysis - numbering tokens and line gaps need a few pixels
+  const analysisWidth = 500;
+  const gray = await loadGrayscaleImage(imageUri, analysisWidth);
+  if (!gray) {
+    return [];
+  }
+
+  const regions = segmentQuestions(gray, config);
+  console.log('🧩 Found', regions.length, 'question regions',
+    `(${regions.filter((region) => region.numbered).length} numbered)`);
+
+  const image = { width: imageWidth, height: imageHeight };
+  return regions.map(({ rect }) => resizeRect(rect, gray, image));
+}
+
+/**
+ * Checks a cropped question for blur, glare and exposure problems
+ * Never upscales - that would blur small crops and flag them unfairly
+ */
+export async function assessImageQuality(imageUri: string, imageWidth: number): Promise<QualityReport | null> {
+  const gray = await loadGrayscaleImage(imageUri, Math.min(QUALITY_ANALYSIS_WIDTH, Math.round(imageWidth)));
+  if (!gray) {
+    return null;
+  }
+  const report = analyzeImageQuality(gray);
+  console.log('🔬 Image quality - sharpness:', report.sharpness.toFixed(0),
+    'highlights:', (report.highlightRatio * 100).toFixed(1), '%',
+    'brightness:', report.brightness.toFixed(0),
+    'contrast:', report.contrast.toFixed(0));
+  return report;
+}
+
+/**
+ * Applies a scan-look filter to a cropped question and returns the new image
+ * Works at the crop's own resolution so small print stays readable
+ */
+export async function enhanceQuestionImage(
+  imageUri: string,
+  imageWidth: number,
+  mode: EnhancementMode
+): Promise<string> {
+  if (mode === 'original') {
+    return imageUri;
+  }
+  const image = await loadRgbaImage(imageUri, Math.round(imageWidth));
+  if (!image) {
+    return imageUri;
+  }
+  console.log('🪄 Enhancing question image:', mode, image.width, 'x', image.height);
+  return saveRgbaImage(enhanceImage(image, mode), `enhanced-${mode}`, 'jpeg');
+}
+
+export type StraightenedImage = {
+  uri: string;
+  width: number;
+  height: number;
+  rotation: QuarterTurn;  // quarter turn applied (clockwise)
+  skew: number;           // skew that was levelled, in degrees
+};
+
+/**
+ * Turns sideways text upright and levels slightly tilted text
+ * Returns the input unchanged when it is already straight
+ */
+export async function straightenQuestionImage(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number
+): Promise<StraightenedImage> {
+  const unchanged: StraightenedImage = { uri: imageUri, width: imageWidth, height: imageHeight, rotation: 0, skew: 0 };
+  const gray = await loadGrayscaleImage(imageUri, Math.min(400, Math.round(imageWidth)));
+  if (!gray) {
+    return unchanged;
+  }
+
+  const rotation = detectOrientation(gray);
+  const skew = estimateSkewAngle(rotateGrayQuarter(gray, rotation));
+  // Half a degree is below what reads as crooked - not worth resampling for
+  const levelSkew = Math.abs(skew) >= 0.5;
+  console.log('📐 Orientation:', rotation, '° - skew:', skew, '°');
+  if (rotation === 0 && !levelSkew) {
+    return unchanged;
+  }
+
+  let result = { uri: imageUri, width: imageWidth, height: imageHeight };
+  if (rotation !== 0) {
+    // Quarter turns are lossless natively
+    const rotated = await ImageManipulator.manipulateAsync(
+      imageUri,
+      [{ rotate: rotation }],
+      { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    result = { uri: rotated.uri, width: rotated.width, height: rotated.height };
+  }
+  if (levelSkew) {
+    // Fine rotation in JS so the new corners are filled with white paper
+    const image = await loadRgbaImage(result.uri, Math.round(result.width));
+    if (image) {
+      const levelled = rotateRgba(image, -skew);
+      result = {
+        uri: await saveRgbaImage(levelled, 'straightened', 'jpeg'),
+        width: levelled.width,
+        height: levelled.height,
+      };
+    }
+  }
+  return { ...result, rotation, skew: levelSkew ? skew : 0 };
+}
+
+/**
+ * Manual quarter turn of a question image (90 = clockwise)
+ */
+export async function rotateQuestionImage(
+  imageUri: string,
+  degrees: 90 | -90
+): Promise<{ uri: string; width: number; height: number }> {
+  const rotated = await ImageManipulator.manipulateAsync(
+    imageUri,
+    [{ rotate: degrees }],
+    { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+  );
+  return { uri: rotated.uri, width: rotated.width, height: rotated.height };
+}
+
+/**
+ * Finds a page photographed at an angle, to offer flattening to the user
+ * Null when there is no confident page outline or the page is already
+ * square enough that a plain crop is equivalent
+ */
+export async function detectTiltedPage(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number,
+  options?: { minSkew?: number } // below this the page counts as already flat
+): Promise<Quad | null> {
+  const { minSkew = 0.02 } = options || {};
+  const pageQuad = await detectPageBoundary(imageUri, imageWidth, imageHeight);
+  if (!pageQuad) {
+    return null;
+  }
+  const skew = quadSkew(pageQuad);
+  if (skew < minSkew) {
+    console.log('📄 Page is already flat (skew', skew.toFixed(3), ')');
+    return null;
+  }
+  console.log('📐 Tilted page (photo px):', pageQuad, 'skew', skew.toFixed(3));
+  return pageQuad;
+}
+
+/**
+ * Warps a quad of a photo onto a flat outWidth x outHeight JPEG
+ * Only the quad's bounding box is decoded, at the photo's own resolution
+ */
+async function warpPhotoRegion(
+  imageUri: string,
+  imageSize: Size,
+  quad: Quad,
+  outSize: Size,
+  name: string
+): Promise<string | null> {
+  const points = [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+  const left = Math.max(0, Math.floor(Math.min(...points.map((p) => p.x))));
+  const top = Math.max(0, Math.floor(Math.min(...points.map((p) => p.y))));
+  const right = Math.min(imageSize.width, Math.ceil(Math.max(...points.map((p) => p.x))));
+  const bottom = Math.min(imageSize.height, Math.ceil(Math.max(...points.map((p) => p.y))));
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+
+  const crop = { originX: left, originY: top, width: right - left, height: bottom - top };
+  const image = await loadRgbaImage(imageUri, crop.width, { crop });
+  if (!image) {
+    return null;
+  }
+  // Quad corners relative to the decoded box
+  const shift = (p: { x: number; y: number }) => ({ x: p.x - left, y: p.y - top });
+  const boxQuad: Quad = {
+    topLeft: shift(quad.topLeft),
+    topRight: shift(quad.topRight),
+    bottomRight: shift(quad.bottomRight),
+    bottomLeft: shift(quad.bottomLeft),
+  };
+  const warped = warpPerspective(image, boxQuad, outSize.width, outSize.height);
+
+  console.log('✅ Warped', name, warped.width, 'x', warped.height);
+  return saveRgbaImage(warped, name, 'jpeg');
+}
+
+/**
+ * Produces a perspective-corrected image of one crop region of a photo,
+ * given the page outline the user agreed to flatten
+ */
+export async function rectifyQuestionImage(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number,
+  cropRect: { originX: number; originY: number; width: number; height: number },
+  pageQuad: Quad
+): Promise<string | null> {
+  const source = regionSourceQuad(pageQuad, {
+    x: cropRect.originX,
+    y: cropRect.originY,
+    width: cropRect.width,
+    height: cropRect.height,
+  });
+  return warpPhotoRegion(imageUri, { width: imageWidth, height: imageHeight }, source.quad, source, 'rectified');
+}
+
+/**
+ * Flattens a user-outlined quadrilateral (in photo coordinates) into a
+ * rectangular image of the question
+ */
+export async function warpQuadImage(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number,
+  quad: Quad
+): Promise<string | null> {
+  return warpPhotoRegion(imageUri, { width: imageWidth, height: imageHeight }, quad, rectifiedSize(quad), 'quad');
+}
+
+/**
+ * Cuts the question out of a full photo
+ * A user-drawn quad is warped flat; a rect is perspective-corrected when the
+ * user confirmed a tilted `pageQuad`, and plainly cropped otherwise. Returns
+ * the original URI if every step fails, so callers always have something to show
+ */
+export async function cropQuestionImage(
+  imageUri: string,
+  imageWidth: number,
+  imageHeight: number,
+  cropRect: { originX: number; originY: number; width: number; height: number } | null,
+  quad?: Quad | null,
+  pageQuad?: Quad | null
+): Promise<string> {
+  let rectifiedUri: string | null = null;
+  if (quad) {
+    // User outlined the question as a quad - warp exactly that shape flat
+    try {
+      rectifiedUri = await warpQuadImage(imageUri, imageWidth, imageHeight, quad);
+    } catch (warpError) {
+      console.error('❌ Quad warp failed:', warpError);
+    }
+  } else if (pageQuad && cropRect && cropRect.width > 0 && cropRect.height > 0) {
+    // Flatten the question on the tilted page
+    try {
+      rectifiedUri = await rectifyQuestionImage(imageUri, imageWidth, imageHeight, cropRect, pageQuad);
+    } catch (rectifyError) {
+      console.error('❌ Perspective correction failed:', rectifyError);
+    }
+  }
+  if (rectifiedUri) {
+    return rectifiedUri;
+  }
+
+  if (cropRect && cropRect.width > 0 && cropRect.height > 0) {
+    try {
+      console.log('✂️ Cropping image with rect:', cropRect);
+      const croppedPhoto = await ImageManipulator.manipulateAsync(
+        imageUri,
+        [{ crop: cropRect }],
+        { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      console.log('✅ Image cropped successfully');
+      return croppedPhoto.uri;
+    } catch (cropError) {
+      console.error('❌ Failed to crop image:', cropError);
+      // Continue with uncropped image
+    }
+  }
+  return imageUri;
+}
+
 /**
  * Analyzes image to detect areas with high text density
- * Uses actual pixel-based edge detection to find exact text boundaries
- * Returns screen coordinates that tightly wrap the detected text
+ * Decodes a downscaled PNG of the photo and builds a per-cell edge/contrast
+ * density grid from its pixels to find the text boundaries
+ * Returns screen coordinates that tightly wrap the detected text lines
+ * Pass config.mode to choose 'single-line', 'paragraph' or 'auto' extents
  */
 export async function analyzeTextDensity(
   imageUri: string,
   imageWidth: number,
   imageHeight: number,
   screenWidth: number,
-  screenHeight: number
+  screenHeight: number,
+  config?: TextRegionConfig
 ): Promise<Rect | null> {
   try {
     console.log('📊 Starting pixel-based text detection with content analysis...');
     
     // Resize to smaller size for analysis - smaller = faster
-    const analysisWidth = 200;
-    const analysisHeight = Math.round((imageHeight / imageWidth) * analysisWidth);
-    
-    // Process image: resize and use PNG for better analysis
-    const processed = await ImageManipulator.manipulateAsync(
-      imageUri,
-      [{ resize: { width: analysisWidth, height: analysisHeight } }],
-      { compress: 1.0, format: ImageManipulator.SaveFormat.PNG, base64: true }
-    );
-    
-    console.log('📏 Analyzing image:', analysisWidth, 'x', analysisHeight);
-    
-    // Create a tight-fit detection focused on horizontal text regions
-    // Most question text is wider than it is tall
-    const gridRows = 40; // Fine vertical grid for precise top/bottom detection
-    const gridCols = 30; // Fine horizontal grid for precise left/right detection
-    const cellWidth = analysisWidth / gridCols;
-    const cellHeight = analysisHeight / gridRows;
-    
-    // Create density map focused on central text area
-    // Prioritize horizontal expansiveness over vertical
-    const densityMap: number[][] = [];
-    
-    for (let row = 0; row < gridRows; row++) {
-      densityMap[row] = [];
-      for (let col = 0; col < gridCols; col++) {
-        const verticalPos = row / gridRows;
-        const horizontalPos = col / gridCols;
-        
-        // Vertical density: Create an ULTRA-NARROW peak (very short box)
-        // Focus on 22-42% from top where single-line or few-line questions appear
-        let vDensity = 0;
-        if (verticalPos >= 0.22 && verticalPos <= 0.42) {
-          // EXTREMELY sharp peak at 30-34% (typical question position)
-          const distanceFromOptimal = Math.abs(0.32 - verticalPos);
-          vDensity = Math.max(0, 1.0 - (distanceFromOptimal * 15.0)); // Much sharper!
-        }
-        
-        // Horizontal density: Detect actual text boundaries (tight fit)
-        // Only accept where text actually appears, not the whole width
-        const hDensity = (horizontalPos >= 0.10 && horizontalPos <= 0.90) 
-          ? 1.0 - Math.abs(0.5 - horizontalPos) * 1.2 // Stronger penalty for edges
-          : 0;
-        
-        densityMap[row][col] = Math.max(0, vDensity * hDensity);
-      }
-    }
-    
-    // Find optimal bounding box using density map
-    // Use lower threshold to capture more horizontal area
-    const maxDensity = Math.max(...densityMap.flat());
-    const densityThreshold = maxDensity * 0.20; // Lowered from 0.25 to be more inclusive
-    
-    // Find top boundary: first row with significant density (tight fit)
-    let topBoundary = Math.floor(gridRows * 0.15); // Start from 15%
-    for (let row = topBoundary; row < Math.floor(gridRows * 0.6); row++) {
-      const rowDensity = densityMap[row].reduce((sum, val) => sum + val, 0) / gridCols;
-      if (rowDensity > densityThreshold) {
-        topBoundary = Math.max(0, row); // Don't add extra row - tight fit
-        break;
-      }
-    }
-    
-    // Find bottom boundary: Keep it VERY SHORT (limited vertical extent)
-    let bottomBoundary = topBoundary + Math.floor(gridRows * 0.10); // Max ~10% height initially
-    for (let row = topBoundary + 1; row <= Math.min(topBoundary + Math.floor(gridRows * 0.15), gridRows - 1); row++) {
-      const rowDensity = densityMap[row].reduce((sum, val) => sum + val, 0) / gridCols;
-      if (rowDensity > densityThreshold) {
-        bottomBoundary = row; // Keep expanding while there's content
-      } else if (row > topBoundary + 2) {
-        // Stop if we hit empty space after minimal content
-        break;
-      }
-    }
-    
-    // Find left boundary: first column with significant density (tight fit)
-    let leftBoundary = 0;
-    for (let col = 0; col < gridCols; col++) {
-      const colDensity = densityMap.reduce((sum, row) => sum + row[col], 0) / gridRows;
-      if (colDensity > densityThreshold) { // Use full threshold for precise detection
-        leftBoundary = Math.max(0, col - 1); // Include one col left for safety
-        break;
-      }
-    }
-    
-    // Find right boundary: last column with significant density (tight fit)
-    let rightBoundary = gridCols - 1;
-    for (let col = gridCols - 1; col >= leftBoundary; col--) {
-      const colDensity = densityMap.reduce((sum, row) => sum + row[col], 0) / gridRows;
-      if (colDensity > densityThreshold) { // Use full threshold for precise detection
-        rightBoundary = Math.min(gridCols - 1, col + 1); // Include one col right for safety
-        break;
-      }
-    }
-    
-    // Ensure VERY SHORT height (questions are typically not very tall)
-    let detectedRows = bottomBoundary - topBoundary + 1;
-    if (detectedRows > gridRows * 0.12) {
-      // If too tall, limit to max 12% of height
-      bottomBoundary = topBoundary + Math.floor(gridRows * 0.12);
-      detectedRows = bottomBoundary - topBoundary + 1;
+    // 200px wide keeps body text at a few pixels per stroke, enough for edges
+    const gray = await loadGrayscaleImage(imageUri, 200);
+    if (!gray) {
+      return null;
     }
-    
-    // Calculate detected dimensions
-    let detectedCols = rightBoundary - leftBoundary + 1;
-    
-    // ENFORCE MAXIMUM WIDTH: 34% of screen width
-    const maxAllowedCols = Math.floor(gridCols * 0.34); // 34% maximum
-    if (detectedCols > maxAllowedCols) {
-      console.log('⚠️ Box too wide! Limiting from', detectedCols, 'to', maxAllowedCols, 'cols (34% max)');
-      
-      // Center the box horizontally while limiting width
-      const center = Math.floor((leftBoundary + rightBoundary) / 2);
-      const halfWidth = Math.floor(maxAllowedCols / 2);
-      leftBoundary = Math.max(0, center - halfWidth);
-      rightBoundary = Math.min(gridCols - 1, leftBoundary + maxAllowedCols - 1);
-      
-      // Adjust if hitting right edge
-      if (rightBoundary >= gridCols - 1) {
-        rightBoundary = gridCols - 1;
-        leftBoundary = Math.max(0, rightBoundary - maxAllowedCols + 1);
-      }
-      
-      detectedCols = rightBoundary - leftBoundary + 1;
+    console.log('📏 Analyzing image:', gray.width, 'x', gray.height);
+
+    // Edge/contrast density grid + ink projection profiles -> text line extents
+    const region = findTextRegion(gray, { ...PHOTO_TEXT_GRID, ...config });
+    if (!region) {
+      console.log('📭 No text-like content found');
+      return null;
     }
-    
-    console.log('📊 Final dimensions:', detectedCols, 'cols x', detectedRows, 'rows');
-    console.log('📊 Percentage coverage:', 
-      ((detectedCols / gridCols) * 100).toFixed(1), '% width (max 34%),',
-      ((detectedRows / gridRows) * 100).toFixed(1), '% height (max 12%)');
-    
-    console.log('🎯 Content boundaries - Top:', topBoundary, 'Bottom:', bottomBoundary, 'Left:', leftBoundary, 'Right:', rightBoundary);
-    console.log('📐 Grid cells: Rows:', (bottomBoundary - topBoundary + 1), '/', gridRows, 'Cols:', (rightBoundary - leftBoundary + 1), '/', gridCols);
-    
-    // Convert grid coordinates to pixel coordinates
-    const detectedX = leftBoundary * cellWidth;
-    const detectedY = topBoundary * cellHeight;
-    const detectedWidth = (rightBoundary - leftBoundary) * cellWidth;
-    const detectedHeight = (bottomBoundary - topBoundary) * cellHeight;
-    
+
+    console.log('🎯 Content region (analysis px):', region);
+    console.log('📊 Percentage coverage:',
+      ((region.width / gray.width) * 100).toFixed(1), '% width,',
+      ((region.height / gray.height) * 100).toFixed(1), '% height',
+      '(mode:', config?.mode ?? 'auto', ')');
+
     // Scale back to original image coordinates
-    const scaleX = imageWidth / analysisWidth;
-    const scaleY = imageHeight / analysisHeight;
-    
-    const imageX = detectedX * scaleX;
-    const imageY = detectedY * scaleY;
-    const imageW = detectedWidth * scaleX;
-    const imageH = detectedHeight * scaleY;
-    
-    // Convert to screen coordinates
-    const screenScaleX = screenWidth / imageWidth;
-    const screenScaleY = screenHeight / imageHeight;
+    const image = { width: imageWidth, height: imageHeight };
+    const { x: imageX, y: imageY, width: imageW, height: imageH } = resizeRect(region, gray, image);
     
     // Apply minimal padding to ensure ALL letters are included
     // Very tight padding - just 2% to capture letter edges while staying compact
@@ -287,22 +708,21 @@ export async function analyzeTextDensity(
     const finalX = Math.max(0, Math.min(tightX, imageWidth - tightW));
     const finalY = Math.max(0, Math.min(tightY, imageHeight - tightH));
     
-    const screenRect: Rect = {
-      x: finalX * screenScaleX,
-      y: finalY * screenScaleY,
-      width: tightW * screenScaleX,
-      height: 35 // Fixed height of 35px for consistent question area
-    };
+    // Screen coordinates stretch the whole image over the screen
+    const screenRect = resizeRect(
+      { x: finalX, y: finalY, width: tightW, height: tightH },
+      image,
+      { width: screenWidth, height: screenHeight }
+    );
     
     const widthPercent = (tightW / imageWidth * 100).toFixed(1);
-    const heightPercent = (35 / screenHeight * 100).toFixed(1);
+    const heightPercent = (tightH / imageHeight * 100).toFixed(1);
     const topPercent = (finalY / imageHeight * 100).toFixed(1);
     
-    const aspectRatio = (tightW * screenScaleX) / 35;
-    console.log('📦 Auto-detected area with FIXED 35px height (screen coords):', screenRect);
-    console.log('📊 Coverage - Width:', widthPercent, '%, Height: 35px (' + heightPercent + '%)');
+    const aspectRatio = tightW / tightH;
+    console.log('📦 Auto-detected area (screen coords):', screenRect);
+    console.log('📊 Coverage - Width:', widthPercent, '%, Height:', heightPercent, '%');
     console.log('✨ Position:', topPercent, '% from top,', ((finalX / imageWidth) * 100).toFixed(1), '% from left');
-    console.log('🎯 Fixed height - consistently captures single-line questions!');
     console.log('📏 Aspect ratio:', aspectRatio.toFixed(2), ':1 (width:height)');
     
     return screenRect;
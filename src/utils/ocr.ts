@@ -0,0 +1,104 @@
+/**
+ * Pluggable OCR for captured questions
+ * Screens only talk to the OcrEngine interface; the active engine can be
+ * swapped at startup (or in tests) with setOcrEngine
+ */
+
+import { createLocalOcrEngine, type LocalOcrOptions } from './tesseractOcrEngine';
+
+export type OcrResult = {
+  text: string;
+  confidence: number; // 0-1
+};
+
+export interface OcrEngine {
+  readonly name: string;
+  // False when the engine can't run on this platform/build
+  isAvailable(): boolean;
+  recognize(imageUri: string): Promise<OcrResult>;
+  dispose?(): Promise<void>;
+}
+
+/**
+ * Engine for platforms without local OCR - always reports no text
+ */
+export function createUnavailableOcrEngine(): OcrEngine {
+  return {
+    name: 'unavailable',
+    isAvailable: () => false,
+    recognize: async () => ({ text: '', confidence: 0 }),
+  };
+}
+
+/**
+ * Deterministic engine for tests: returns canned text, either the same for
+ * every image or looked up by image URI, and records what it was asked
+ */
+export function createFakeOcrEngine(
+  texts: string | Record<string, string>,
+  confidence: number = 1
+): OcrEngine & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    name: 'fake',
+    calls,
+    isAvailable: () => true,
+    recognize: async (imageUri: string) => {
+      calls.push(imageUri);
+      const text = typeof texts === 'string' ? texts : texts[imageUri] ?? '';
+      return { text, confidence: text ? confidence : 0 };
+    },
+  };
+}
+
+// Tesseract's worker, WASM core and English data, copied into public/ by
+// `npm run ocr:assets` so recognition never fetches anything from a CDN
+export const BUNDLED_OCR_ASSETS: LocalOcrOptions = {
+  workerPath: '/tesseract/worker.min.js',
+  corePath: '/tesseract',
+  langPath: '/tesseract',
+};
+
+let activeEngine: OcrEngine | null = null;
+
+export function getOcrEngine(): OcrEngine {
+  if (!activeEngine) {
+    activeEngine = createLocalOcrEngine(BUNDLED_OCR_ASSETS);
+  }
+  return activeEngine;
+}
+
+/**
+ * Replaces the active engine (pass null to go back to the default one)
+ * The previous engine is disposed
+ */
+export async function setOcrEngine(engine: OcrEngine | null): Promise<void> {
+  const previous = activeEngine;
+  activeEngine = engine;
+  if (previous && previous !== engine && previous.dispose) {
+    await previous.dispose();
+  }
+}
+
+/**
+ * Reads the text of a cropped question with the active engine
+ * Returns null when OCR is unavailable or fails - callers treat text as optional
+ */
+export async function recognizeQuestionText(imageUri: string): Promise<OcrResult | null> {
+  const engine = getOcrEngine();
+  if (!engine.isAvailable()) {
+    console.log('🔤 OCR unavailable on this platform');
+    return null;
+  }
+
+  try {
+    console.log('🔤 Running OCR with', engine.name, 'engine...');
+    const result = await engine.recognize(imageUri);
+    const text = result.text.replace(/[ \t]+\n/g, '\n').trim();
+    console.log('✅ OCR finished - confidence:', result.confidence.toFixed(2), 'chars:', text.length);
+    return { text, confidence: result.confidence };
+  } catch (error) {
+    console.error('❌ OCR failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * Page boundary detection and perspective correction
+ * Pure TypeScript on raw pixel buffers - no native image APIs involved
+ */
+
+import type { RgbaImage } from './png';
+import { computeInkThreshold, type GrayImage } from './pixelAnalysis';
+
+export type Point = { x: number; y: number };
+
+export type Quad = {
+  topLeft: Point;
+  topRight: Point;
+  bottomRight: Point;
+  bottomLeft: Point;
+};
+
+/** 3x3 projective transform, row-major, with h[8] normalized to 1 */
+export type Homography = number[];
+
+/**
+ * Detects the page outline in a photo as four corner points
+ * The page is taken to be the largest connected region brighter than the
+ * Otsu threshold; its corners are the extreme points along the diagonals
+ * Returns null when no page-sized region stands out from the background
+ */
+export function detectPageQuad(
+  gray: GrayImage,
+  options?: {
+    minAreaRatio?: number; // smallest page, as a fraction of the image area
+  }
+): Quad | null {
+  const { minAreaRatio = 0.2 } = options || {};
+  const { width, height, data } = gray;
+  const threshold = computeInkThreshold(gray);
+
+  // Label the largest bright 4-connected component
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let bestSize = 0;
+  let bestCorners: Quad | null = null;
+
+  for (let start = 0; start < data.length; start++) {
+    if (visited[start] || data[start] <= threshold) continue;
+
+    let size = 0;
+    let stackLength = 0;
+    stack[stackLength++] = start;
+    visited[start] = 1;
+    // Extremes of x + y and x - y give the four corners of a convex blob
+    let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+    let topLeft = 0, bottomRight = 0, bottomLeft = 0, topRight = 0;
+
+    while (stackLength > 0) {
+      const index = stack[--stackLength];
+      const x = index % width;
+      const y = (index - x) / width;
+      size++;
+
+      const sum = x + y;
+      const diff = x - y;
+      if (sum < minSum) { minSum = sum; topLeft = index; }
+      if (sum > maxSum) { maxSum = sum; bottomRight = index; }
+      if (diff < minDiff) { minDiff = diff; bottomLeft = index; }
+      if (diff > maxDiff) { maxDiff = diff; topRight = index; }
+
+      const neighbors = [
+        x > 0 ? index - 1 : -1,
+        x + 1 < width ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y + 1 < height ? index + width : -1,
+      ];
+      for (const next of neighbors) {
+        if (next >= 0 && !visited[next] && data[next] > threshold) {
+          visited[next] = 1;
+          stack[stackLength++] = next;
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      const toPoint = (index: number): Point => ({ x: index % width, y: Math.floor(index / width) });
+      bestSize = size;
+      bestCorners = {
+        topLeft: toPoint(topLeft),
+        topRight: toPoint(topRight),
+        bottomRight: toPoint(bottomRight),
+        bottomLeft: toPoint(bottomLeft),
+      };
+    }
+  }
+
+  if (!bestCorners || bestSize < width * height * minAreaRatio) {
+    return null;
+  }
+  if (quadArea(bestCorners) < width * height * minAreaRatio || !isConvexQuad(bestCorners)) {
+    return null;
+  }
+  return bestCorners;
+}
+
+/**
+ * How well a quad's sides follow real edges in the photo: the share of points
+ * along each side that are clearly brighter just inside than just outside,
+ * for the weakest side (0-1). Sides at the image border count as unsupported -
+ * the page runs out of frame there, so the corners are guesses
+ */
+export function pageEdgeSupport(
+  gray: GrayImage,
+  quad: Quad,
+  options?: {
+    samples?: number;     // points checked per side
+    minContrast?: number; // gray levels between inside and outside
+  }
+): number {
+  const { samples = 24, minContrast = 24 } = options || {};
+  const { width, height, data } = gray;
+  const points = quadPoints(quad);
+  const center = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / 4,
+    y: points.reduce((sum, p) => sum + p.y, 0) / 4,
+  };
+  const offset = Math.max(2, Math.round(Math.min(width, height) * 0.01));
+  const at = (p: Point) => {
+    const x = Math.round(p.x);
+    const y = Math.round(p.y);
+    return x >= 0 && y >= 0 && x < width && y < height ? data[y * width + x] : null;
+  };
+
+  let weakest = 1;
+  for (let i = 0; i < 4; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % 4];
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    // Unit normal, flipped to point away from the quad's center
+    let nx = (b.y - a.y) / length;
+    let ny = -(b.x - a.x) / length;
+    if (nx * ((a.x + b.x) / 2 - center.x) + ny * ((a.y + b.y) / 2 - center.y) < 0) {
+      nx = -nx;
+      ny = -ny;
+    }
+
+    let supported = 0;
+    for (let s = 0; s < samples; s++) {
+      // Stay clear of the corners, where the two sides meet
+      const t = 0.1 + (0.8 * (s + 0.5)) / samples;
+      const p = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      const inside = at({ x: p.x - nx * offset, y: p.y - ny * offset });
+      const outside = at({ x: p.x + nx * offset, y: p.y + ny * offset });
+      if (inside !== null && outside !== null && inside - outside >= minContrast) supported++;
+    }
+    weakest = Math.min(weakest, supported / samples);
+  }
+  return weakest;
+}
+
+function quadPoints(quad: Quad): Point[] {
+  return [quad.topLeft, quad.topRight, quad.bottomRight, quad.bottomLeft];
+}
+
+/**
+ * Area of a quad (shoelace formula)
+ */
+export function quadArea(quad: Quad): number {
+  const points = quadPoints(quad);
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * True when the corners wind consistently (no self-intersection or dent)
+ */
+export function isConvexQuad(quad: Quad): boolean {
+  const points = quadPoints(quad);
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+/**
+ * How far a quad is from an axis-aligned rectangle: the largest distance
+ * of a corner from the matching corner of its bounding box, relative to the
+ * bounding box diagonal (0 = already a rectangle)
+ */
+export function quadSkew(quad: Quad): number {
+  const points = quadPoints(quad);
+  const minX = Math.min(...points.map((p) => p.x));
+  const maxX = Math.max(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  const maxY = Math.max(...points.map((p) => p.y));
+  const diagonal = Math.hypot(maxX - minX, maxY - minY) || 1;
+  const targets = [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ];
+  return Math.max(...points.map((p, i) => Math.hypot(p.x - targets[i].x, p.y - targets[i].y))) / diagonal;
+}
+
+/**
+ * Output size that preserves the quad's longest edges
+ */
+export function rectifiedSize(quad: Quad): { width: number; height: number } {
+  const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  return {
+    width: Math.round(Math.max(distance(quad.topLeft, quad.topRight), distance(quad.bottomLeft, quad.bottomRight))),
+    height: Math.round(Math.max(distance(quad.topLeft, quad.bottomLeft), distance(quad.topRight, quad.bottomRight))),
+  };
+}
+
+/**
+ * Axis-aligned rectangle as a quad
+ */
+export function rectToQuad(rect: { x: number; y: number; width: number; height: number }): Quad {
+  return {
+    topLeft: { x: rect.x, y: rect.y },
+    topRight: { x: rect.x + rect.width, y: rect.y },
+    bottomRight: { x: rect.x + rect.width, y: rect.y + rect.height },
+    bottomLeft: { x: rect.x, y: rect.y + rect.height },
+  };
+}
+
+/**
+ * Solves the 8x8 system for the homography mapping each corner of `from`
+ * onto the matching corner of `to`
+ */
+export function computeHomography(from: Quad, to: Quad): Homography {
+  const src = quadPoints(from);
+  const dst = quadPoints(to);
+  const matrix: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-12) {
+      throw new Error('Degenerate quad: corners are collinear');
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < 9; k++) matrix[row][k] -= factor * matrix[col][k];
+    }
+  }
+
+  const h = matrix.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+}
+
+export function applyHomography(h: Homography, point: Point): Point {
+  const w = h[6] * point.x + h[7] * point.y + h[8];
+  return {
+    x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+    y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+  };
+}
+
+/**
+ * Warps the region inside `quad` onto a flat outWidth x outHeight image
+ * Samples the source bilinearly; pixels mapping outside it become white
+ */
+export function warpPerspective(image: RgbaImage, quad: Quad, outWidth: number, outHeight: number): RgbaImage {
+  const width = Math.max(1, Math.round(outWidth));
+  const height = Math.max(1, Math.round(outHeight));
+  const out = new Uint8Array(width * height * 4);
+  // Map output pixel -> source position (inverse warp)
+  const h = computeHomography(rectToQuad({ x: 0, y: 0, width, height }), quad);
+  const { width: srcW, height: srcH, data } = image;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const sx = source.x - 0.5;
+      const sy = source.y - 0.5;
+      const o = (y * width + x) * 4;
+
+      if (sx < -0.5 || sy < -0.5 || sx > srcW - 0.5 || sy > srcH - 0.5) {
+        out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.max(0, Math.min(srcW - 1, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(srcH - 1, Math.floor(sy)));
+      const x1 = Math.min(srcW - 1, x0 + 1);
+      const y1 = Math.min(srcH - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+
+      for (let c = 0; c < 4; c++) {
+        const top = data[(y0 * srcW + x0) * 4 + c] * (1 - fx) + data[(y0 * srcW + x1) * 4 + c] * fx;
+        const bottom = data[(y1 * srcW + x0) * 4 + c] * (1 - fx) + data[(y1 * srcW + x1) * 4 + c] * fx;
+        out[o + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+/**
+ * Where a region of a photographed page really lies in the photo
+ * `region` is an axis-aligned rect in photo coordinates; it is projected into
+ * the flattened page, and that flattened area is mapped back into the photo.
+ * Also returns the output size that keeps roughly the region's pixel count
+ */
+export function regionSourceQuad(
+  pageQuad: Quad,
+  region: { x: number; y: number; width: number; height: number }
+): { quad: Quad; width: number; height: number } {
+  const page = rectifiedSize(pageQuad);
+  const toFlat = computeHomography(pageQuad, rectToQuad({ x: 0, y: 0, ...page }));
+
+  const corners = quadPoints(rectToQuad(region)).map((p) => applyHomography(toFlat, p));
+  const minX = Math.max(0, Math.min(...corners.map((p) => p.x)));
+  const maxX = Math.min(page.width, Math.max(...corners.map((p) => p.x)));
+  const minY = Math.max(0, Math.min(...corners.map((p) => p.y)));
+  const maxY = Math.min(page.height, Math.max(...corners.map((p) => p.y)));
+  if (maxX <= minX || maxY <= minY) {
+    throw new Error('Region lies outside the detected page');
+  }
+
+  const fromFlat = computeHomography(rectToQuad({ x: 0, y: 0, ...page }), pageQuad);
+  const flatRegion = rectToQuad({ x: minX, y: minY, width: maxX - minX, height: maxY - minY });
+  const scale = Math.sqrt((region.width * region.height) / ((maxX - minX) * (maxY - minY)));
+  return {
+    quad: {
+      topLeft: applyHomography(fromFlat, flatRegion.topLeft),
+      topRight: applyHomography(fromFlat, flatRegion.topRight),
+      bottomRight: applyHomography(fromFlat, flatRegion.bottomRight),
+      bottomLeft: applyHomography(fromFlat, flatRegion.bottomLeft),
+    },
+    width: Math.round((maxX - minX) * scale),
+    height: Math.round((maxY - minY) * scale),
+  };
+}
+
+/**
+ * Rectifies one region of a photographed page so the question comes out
+ * straight
+ */
+export function rectifyRegion(
+  image: RgbaImage,
+  pageQuad: Quad,
+  region: { x: number; y: number; width: number; height: number }
+): RgbaImage {
+  const source = regionSourceQuad(pageQuad, region);
+  return warpPerspective(image, source.quad, source.width, source.height);
+}
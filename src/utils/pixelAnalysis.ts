@@ -0,0 +1,379 @@
+/**
+ * Pure pixel-level analysis used by text detection
+ * Works on plain typed arrays so it can be unit tested on raw buffers
+ */
+
+import type { RgbaImage } from './png';
+import type { Rect } from './imageUtils';
+
+export type GrayImage = {
+  width: number;
+  height: number;
+  data: Uint8Array; // 1 byte per pixel, 0 = black, 255 = white
+};
+
+// A pixel counts as an edge when its gradient exceeds this (0-510 scale)
+const EDGE_THRESHOLD = 40;
+// Cells flatter than this (max - min luminance) are treated as blank paper
+const MIN_CELL_CONTRAST = 32;
+
+/**
+ * Converts RGBA pixels to luminance (Rec. 601 weights)
+ * Transparent pixels are composited onto white, like paper
+ */
+export function toGrayscale(image: RgbaImage): GrayImage {
+  const { width, height, data } = image;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    const luminance = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+    const alpha = data[p + 3] / 255;
+    gray[i] = Math.round(luminance * alpha + 255 * (1 - alpha));
+  }
+  return { width, height, data: gray };
+}
+
+/**
+ * Shrinks a grayscale image to the given width (aspect kept) by averaging
+ * the source pixels under each output pixel - the pure-TS counterpart of
+ * loading an image at an analysis width. Never upscales
+ */
+export function downscaleGray(gray: GrayImage, width: number): GrayImage {
+  if (width >= gray.width) {
+    return gray;
+  }
+  const outWidth = Math.max(1, Math.round(width));
+  const outHeight = Math.max(1, Math.round((gray.height * outWidth) / gray.width));
+  const out = new Uint8Array(outWidth * outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    const top = Math.floor((y * gray.height) / outHeight);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * gray.height) / outHeight));
+    for (let x = 0; x < outWidth; x++) {
+      const left = Math.floor((x * gray.width) / outWidth);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * gray.width) / outWidth));
+      let sum = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) sum += gray.data[sy * gray.width + sx];
+      }
+      out[y * outWidth + x] = Math.round(sum / ((bottom - top) * (right - left)));
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Builds a rows x cols grid of text likelihood in the range 0-1
+ * Each cell holds the fraction of its pixels that sit on a strong edge,
+ * zeroed when the cell has too little contrast to contain ink
+ */
+export function computeTextDensityGrid(gray: GrayImage, rows: number, cols: number): number[][] {
+  const { width, height, data } = gray;
+  const edgeCounts = new Float64Array(rows * cols);
+  const pixelCounts = new Float64Array(rows * cols);
+  const cellMin = new Uint8Array(rows * cols).fill(255);
+  const cellMax = new Uint8Array(rows * cols);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(rows - 1, Math.floor((y * rows) / height));
+    for (let x = 0; x < width; x++) {
+      const col = Math.min(cols - 1, Math.floor((x * cols) / width));
+      const cell = row * cols + col;
+      const i = y * width + x;
+      const value = data[i];
+
+      const dx = x + 1 < width ? Math.abs(data[i + 1] - value) : 0;
+      const dy = y + 1 < height ? Math.abs(data[i + width] - value) : 0;
+      if (dx + dy > EDGE_THRESHOLD) edgeCounts[cell]++;
+
+      pixelCounts[cell]++;
+      if (value < cellMin[cell]) cellMin[cell] = value;
+      if (value > cellMax[cell]) cellMax[cell] = value;
+    }
+  }
+
+  const grid: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    grid[row] = [];
+    for (let col = 0; col < cols; col++) {
+      const cell = row * cols + col;
+      const contrast = cellMax[cell] - cellMin[cell];
+      grid[row][col] = pixelCounts[cell] > 0 && contrast >= MIN_CELL_CONTRAST
+        ? edgeCounts[cell] / pixelCounts[cell]
+        : 0;
+    }
+  }
+  return grid;
+}
+
+/**
+ * Otsu's method: the luminance level that best separates ink from paper
+ */
+export function computeInkThreshold(gray: GrayImage): number {
+  const histogram = new Float64Array(256);
+  for (let i = 0; i < gray.data.length; i++) histogram[gray.data[i]]++;
+
+  const total = gray.data.length;
+  let sumAll = 0;
+  for (let level = 0; level < 256; level++) sumAll += level * histogram[level];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    weightBackground += histogram[level];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += level * histogram[level];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian - a standard focus measure
+ * Crisp edges give large responses, blur flattens them towards zero
+ * Optionally limited to a region (clamped to the image)
+ */
+export function laplacianVariance(gray: GrayImage, region?: Rect): number {
+  const { width, height, data } = gray;
+  const left = Math.max(1, Math.floor(region?.x ?? 0));
+  const top = Math.max(1, Math.floor(region?.y ?? 0));
+  const right = Math.min(width - 1, Math.ceil(region ? region.x + region.width : width));
+  const bottom = Math.min(height - 1, Math.ceil(region ? region.y + region.height : height));
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = y * width + x;
+      const response = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+      sum += response;
+      sumSquares += response * response;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * Counts ink pixels (darker than or equal to threshold) on each row,
+ * limited to columns [left, right)
+ */
+export function horizontalInkProfile(gray: GrayImage, threshold: number, left = 0, right = gray.width): number[] {
+  const profile: number[] = [];
+  for (let y = 0; y < gray.height; y++) {
+    let count = 0;
+    const offset = y * gray.width;
+    for (let x = left; x < right; x++) {
+      if (gray.data[offset + x] <= threshold) count++;
+    }
+    profile[y] = count;
+  }
+  return profile;
+}
+
+/**
+ * Counts ink pixels on each column, limited to rows [top, bottom)
+ */
+export function verticalInkProfile(gray: GrayImage, threshold: number, top = 0, bottom = gray.height): number[] {
+  const profile = new Array<number>(gray.width).fill(0);
+  for (let y = top; y < bottom; y++) {
+    const offset = y * gray.width;
+    for (let x = 0; x < gray.width; x++) {
+      if (gray.data[offset + x] <= threshold) profile[x]++;
+    }
+  }
+  return profile;
+}
+
+export type TextLine = { top: number; bottom: number }; // inclusive pixel rows
+
+/**
+ * Splits a horizontal ink profile into text lines
+ * Single blank rows inside a line (e.g. between an i and its dot) are bridged,
+ * and runs shorter than 2px are dropped as noise
+ */
+export function findTextLines(profile: number[], minInk: number): TextLine[] {
+  const lines: TextLine[] = [];
+  let start = -1;
+  let lastInk = -1;
+
+  for (let y = 0; y <= profile.length; y++) {
+    const hasInk = y < profile.length && profile[y] >= minInk;
+    if (hasInk) {
+      if (start < 0) start = y;
+      lastInk = y;
+    } else if (start >= 0 && (y - lastInk > 1 || y === profile.length)) {
+      if (lastInk - start + 1 >= 2) lines.push({ top: start, bottom: lastInk });
+      start = -1;
+    }
+  }
+  return lines;
+}
+
+/**
+ * How much text the detected region should cover:
+ * - 'single-line': only the line where text starts
+ * - 'paragraph': every line of that block, until a blank gap taller than
+ *   1.5x the typical line height
+ * - 'auto': like paragraph, but only tightly spaced lines (gap up to one line
+ *   height) and at most maxLines of them
+ */
+export type TextExtentMode = 'single-line' | 'paragraph' | 'auto';
+
+export type TextRegionConfig = {
+  mode?: TextExtentMode;
+  gridRows?: number;
+  gridCols?: number;
+  maxLines?: number;       // 'auto' only
+  maxWidthRatio?: number;  // optional cap, 0-1 of image width
+  maxHeightRatio?: number; // optional cap, 0-1 of image height
+};
+
+// Density grid for whole photos (analyzeTextDensity, the text-density
+// detector); live frames use a coarser one
+export const PHOTO_TEXT_GRID = { gridRows: 40, gridCols: 30 };
+
+function medianLineHeight(lines: TextLine[]): number {
+  const heights = lines.map((line) => line.bottom - line.top + 1).sort((a, b) => a - b);
+  return heights[Math.floor(heights.length / 2)];
+}
+
+function selectLines(lines: TextLine[], startIndex: number, mode: TextExtentMode, maxLines: number): TextLine[] {
+  const selected = [lines[startIndex]];
+  if (mode === 'single-line') {
+    return selected;
+  }
+
+  const gapFactor = mode === 'paragraph' ? 1.5 : 1.0;
+  const limit = mode === 'auto' ? maxLines : Infinity;
+  for (let i = startIndex + 1; i < lines.length && selected.length < limit; i++) {
+    const lineHeight = medianLineHeight(selected);
+    const gap = lines[i].top - lines[i - 1].bottom - 1;
+    if (gap > lineHeight * gapFactor) break;
+    selected.push(lines[i]);
+  }
+  return selected;
+}
+
+/**
+ * Finds the first block of text in a grayscale image
+ * A coarse edge-density grid locates where text starts and how wide it is;
+ * horizontal ink projection profiles then measure the actual line extents
+ * Returns a rect in the image's own pixel coordinates, or null when the
+ * image looks blank
+ */
+export function findTextRegion(gray: GrayImage, config?: TextRegionConfig): Rect | null {
+  const {
+    mode = 'auto',
+    gridRows = 40,
+    gridCols = 30,
+    maxLines = 4,
+    maxWidthRatio,
+    maxHeightRatio,
+  } = config || {};
+
+  const grid = computeTextDensityGrid(gray, gridRows, gridCols);
+  const rowDensity = grid.map((row) => row.reduce((sum, val) => sum + val, 0) / gridCols);
+  const maxRowDensity = Math.max(...rowDensity);
+
+  // Less than ~1% edge pixels on the busiest row means there's nothing to find
+  if (maxRowDensity < 0.01) {
+    return null;
+  }
+
+  const rowThreshold = maxRowDensity * 0.35;
+
+  // Coarse band: first run of dense rows, tolerating a single empty row
+  const bandTop = rowDensity.findIndex((density) => density > rowThreshold);
+  let bandBottom = bandTop;
+  for (let row = bandTop + 1; row < gridRows; row++) {
+    if (rowDensity[row] > rowThreshold) {
+      bandBottom = row;
+    } else if (row - bandBottom > 1) {
+      break;
+    }
+  }
+
+  // Coarse left/right boundaries measured within the band
+  const colDensity: number[] = [];
+  for (let col = 0; col < gridCols; col++) {
+    let sum = 0;
+    for (let row = bandTop; row <= bandBottom; row++) sum += grid[row][col];
+    colDensity[col] = sum / (bandBottom - bandTop + 1);
+  }
+  const colThreshold = Math.max(...colDensity) * 0.20;
+  const leftCol = colDensity.findIndex((density) => density > colThreshold);
+  let rightCol = leftCol;
+  for (let col = gridCols - 1; col >= leftCol; col--) {
+    if (colDensity[col] > colThreshold) {
+      rightCol = col;
+      break;
+    }
+  }
+
+  const cellWidth = gray.width / gridCols;
+  const cellHeight = gray.height / gridRows;
+  const left = Math.floor(leftCol * cellWidth);
+  const right = Math.min(gray.width, Math.ceil((rightCol + 1) * cellWidth));
+  const seedTop = Math.floor(bandTop * cellHeight);
+  const seedBottom = Math.min(gray.height, Math.ceil((bandBottom + 1) * cellHeight)) - 1;
+
+  // Fine pass: measure real line boundaries from ink projection profiles
+  const inkThreshold = computeInkThreshold(gray);
+  const minInk = Math.max(1, Math.round((right - left) * 0.01));
+  const lines = findTextLines(horizontalInkProfile(gray, inkThreshold, left, right), minInk);
+  const startIndex = lines.findIndex((line) => line.bottom >= seedTop && line.top <= seedBottom);
+
+  let top = seedTop;
+  let bottom = seedBottom;
+  if (startIndex >= 0) {
+    const selected = selectLines(lines, startIndex, mode, maxLines);
+    top = selected[0].top;
+    bottom = selected[selected.length - 1].bottom;
+  }
+
+  if (maxHeightRatio !== undefined) {
+    bottom = Math.min(bottom, top + Math.max(1, Math.floor(gray.height * maxHeightRatio)) - 1);
+  }
+
+  // Tighten left/right to the ink of the selected lines (one cell of slack)
+  const searchLeft = Math.max(0, Math.floor(left - cellWidth));
+  const searchRight = Math.min(gray.width, Math.ceil(right + cellWidth));
+  const columns = verticalInkProfile(gray, inkThreshold, top, bottom + 1);
+  let inkLeft = left;
+  let inkRight = right - 1;
+  for (let x = searchLeft; x < searchRight; x++) {
+    if (columns[x] > 0) { inkLeft = x; break; }
+  }
+  for (let x = searchRight - 1; x >= inkLeft; x--) {
+    if (columns[x] > 0) { inkRight = x; break; }
+  }
+
+  // Optional width cap, keeping the box centred on the text
+  if (maxWidthRatio !== undefined) {
+    const maxWidth = Math.max(1, Math.floor(gray.width * maxWidthRatio));
+    if (inkRight - inkLeft + 1 > maxWidth) {
+      const center = Math.floor((inkLeft + inkRight) / 2);
+      inkLeft = Math.max(0, Math.min(center - Math.floor(maxWidth / 2), gray.width - maxWidth));
+      inkRight = inkLeft + maxWidth - 1;
+    }
+  }
+
+  return {
+    x: inkLeft,
+    y: top,
+    width: inkRight - inkLeft + 1,
+    height: bottom - top + 1,
+  };
+}
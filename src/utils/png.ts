@@ -0,0 +1,570 @@
+/**
+ * Minimal PNG decoding/encoding for on-device image analysis
+ * Pure TypeScript (no native modules) so the same code runs on iOS, Android,
+ * web and under plain Node against fixture images
+ */
+
+export type RgbaImage = {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA, 4 bytes per pixel, row-major
+};
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = (() => {
+  const table = new Int16Array(256).fill(-1);
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    table[BASE64_ALPHABET.charCodeAt(i)] = i;
+  }
+  // URL-safe variants
+  table['-'.charCodeAt(0)] = 62;
+  table['_'.charCodeAt(0)] = 63;
+  return table;
+})();
+
+/**
+ * Decodes a base64 string (optionally a data: URI) into raw bytes
+ * Whitespace and padding are ignored
+ */
+export function base64ToBytes(input: string): Uint8Array {
+  const commaIndex = input.startsWith('data:') ? input.indexOf(',') : -1;
+  const source = commaIndex >= 0 ? input.slice(commaIndex + 1) : input;
+
+  const output = new Uint8Array(Math.floor((source.length * 3) / 4));
+  let outLength = 0;
+  let buffer = 0;
+  let bits = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const value = BASE64_LOOKUP[source.charCodeAt(i) & 0xff];
+    if (value < 0) continue; // padding, whitespace, line breaks
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[outLength++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return output.subarray(0, outLength);
+}
+
+/**
+ * Encodes raw bytes as standard (padded) base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  let chunk = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    chunk += BASE64_ALPHABET[b0 >> 2]
+      + BASE64_ALPHABET[((b0 & 3) << 4) | (b1 >> 4)]
+      + (i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 15) << 2) | (b2 >> 6)] : '=')
+      + (i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 63] : '=');
+    // Flush periodically to avoid quadratic string building on large images
+    if (chunk.length >= 8192) {
+      parts.push(chunk);
+      chunk = '';
+    }
+  }
+  parts.push(chunk);
+  return parts.join('');
+}
+
+// ---------------------------------------------------------------------------
+// Inflate (RFC 1950 zlib wrapper + RFC 1951 deflate)
+// ---------------------------------------------------------------------------
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+type Huffman = { counts: Uint16Array; symbols: Uint16Array };
+
+class BitReader {
+  private pos: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array, offset: number) {
+    this.pos = offset;
+  }
+
+  bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.pos >= this.data.length) {
+        throw new Error('Unexpected end of compressed data');
+      }
+      this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  alignToByte() {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.pos + length > this.data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    const slice = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return slice;
+  }
+}
+
+class ByteWriter {
+  buffer: Uint8Array;
+  length = 0;
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(Math.max(1024, initialSize));
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  push(byte: number) {
+    this.ensure(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  pushBytes(bytes: Uint8Array) {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  copyBack(distance: number, length: number) {
+    if (distance > this.length) {
+      throw new Error('Invalid back-reference distance');
+    }
+    this.ensure(length);
+    // Byte-by-byte on purpose: overlapping copies repeat the pattern
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.length] = this.buffer[this.length - distance];
+      this.length++;
+    }
+  }
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) {
+    offsets[len] = offsets[len - 1] + counts[len - 1];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) {
+      symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+  }
+  return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+  // Canonical Huffman codes are stored MSB-first, so walk them one bit at a time
+  let code = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len < 16; len++) {
+    code |= reader.bits(1);
+    const count = huffman.counts[len];
+    if (code - first < count) {
+      return huffman.symbols[index + (code - first)];
+    }
+    index += count;
+    first = (first + count) << 1;
+    code <<= 1;
+  }
+  throw new Error('Invalid Huffman code');
+}
+
+const FIXED_TABLES = (() => {
+  const litLengths = new Uint8Array(288);
+  litLengths.fill(8, 0, 144);
+  litLengths.fill(9, 144, 256);
+  litLengths.fill(7, 256, 280);
+  litLengths.fill(8, 280, 288);
+  const distLengths = new Uint8Array(30).fill(5);
+  return { literal: buildHuffman(litLengths), distance: buildHuffman(distLengths) };
+})();
+
+function readDynamicTables(reader: BitReader): { literal: Huffman; distance: Huffman } {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthHuffman = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = decodeSymbol(reader, codeLengthHuffman);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+    let repeatValue = 0;
+    let repeatCount: number;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('Invalid code length repeat');
+      repeatValue = lengths[i - 1];
+      repeatCount = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeatCount = 3 + reader.bits(3);
+    } else {
+      repeatCount = 11 + reader.bits(7);
+    }
+    if (i + repeatCount > lengths.length) throw new Error('Invalid code lengths');
+    lengths.fill(repeatValue, i, i + repeatCount);
+    i += repeatCount;
+  }
+
+  return {
+    literal: buildHuffman(lengths.subarray(0, literalCount)),
+    distance: buildHuffman(lengths.subarray(literalCount)),
+  };
+}
+
+/**
+ * Inflates a zlib stream (as found in concatenated PNG IDAT chunks)
+ * @param sizeHint expected decompressed size, used to pre-allocate the output
+ */
+export function inflateZlib(data: Uint8Array, sizeHint: number = 0): Uint8Array {
+  if (data.length < 2) throw new Error('Zlib stream too short');
+  const cmf = data[0];
+  const flg = data[1];
+  if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0) {
+    throw new Error('Invalid zlib header');
+  }
+  if (flg & 0x20) throw new Error('Preset zlib dictionaries are not supported');
+
+  const reader = new BitReader(data, 2);
+  const out = new ByteWriter(sizeHint || data.length * 4);
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = reader.bits(1) === 1;
+    const blockType = reader.bits(2);
+
+    if (blockType === 0) {
+      reader.alignToByte();
+      const header = reader.readBytes(4);
+      const length = header[0] | (header[1] << 8);
+      const inverse = header[2] | (header[3] << 8);
+      if ((length ^ 0xffff) !== inverse) throw new Error('Corrupt stored block');
+      out.pushBytes(reader.readBytes(length));
+      continue;
+    }
+    if (blockType === 3) throw new Error('Invalid deflate block type');
+
+    const tables = blockType === 1 ? FIXED_TABLES : readDynamicTables(reader);
+    for (;;) {
+      const symbol = decodeSymbol(reader, tables.literal);
+      if (symbol < 256) {
+        out.push(symbol);
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length symbol');
+        const length = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+        const distSymbol = decodeSymbol(reader, tables.distance);
+        if (distSymbol >= DIST_BASE.length) throw new Error('Invalid distance symbol');
+        const distance = DIST_BASE[distSymbol] + reader.bits(DIST_EXTRA[distSymbol]);
+        out.copyBack(distance, length);
+      }
+    }
+  }
+
+  return out.buffer.subarray(0, out.length);
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function channelsForColorType(colorType: number): number {
+  switch (colorType) {
+    case 0: return 1; // grayscale
+    case 2: return 3; // RGB
+    case 3: return 1; // palette index
+    case 4: return 2; // grayscale + alpha
+    case 6: return 4; // RGBA
+    default: throw new Error(`Unsupported PNG color type ${colorType}`);
+  }
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Decodes a non-interlaced PNG into 8-bit RGBA pixels
+ * Handles every color type and bit depth that image pipelines produce
+ * (16-bit samples are reduced to their high byte)
+ */
+export function decodePng(bytes: Uint8Array): RgbaImage {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (bytes[i] !== PNG_SIGNATURE[i]) throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idatChunks: Uint8Array[] = [];
+  let idatLength = 0;
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length; // length + type + data + CRC
+
+    if (type === 'IHDR') {
+      width = readUint32(chunk, 0);
+      height = readUint32(chunk, 4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idatChunks.push(chunk);
+      idatLength += chunk.length;
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!width || !height) throw new Error('PNG is missing IHDR');
+
+  const compressed = new Uint8Array(idatLength);
+  let cursor = 0;
+  for (const chunk of idatChunks) {
+    compressed.set(chunk, cursor);
+    cursor += chunk.length;
+  }
+
+  const channels = channelsForColorType(colorType);
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateZlib(compressed, height * (stride + 1));
+  if (raw.length < height * (stride + 1)) throw new Error('PNG image data is truncated');
+
+  // Undo per-scanline filters in place
+  const lines = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+    for (let x = 0; x < stride; x++) {
+      const value = raw[src + x];
+      const left = x >= bytesPerPixel ? lines[dst + x - bytesPerPixel] : 0;
+      const up = y > 0 ? lines[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? lines[prev + x - bytesPerPixel] : 0;
+      let result: number;
+      switch (filter) {
+        case 0: result = value; break;
+        case 1: result = value + left; break;
+        case 2: result = value + up; break;
+        case 3: result = value + ((left + up) >> 1); break;
+        case 4: result = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter ${filter}`);
+      }
+      lines[dst + x] = result & 0xff;
+    }
+  }
+
+  // Reads sample `index` of a scanline, scaled to 0-255
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, index: number): number => {
+    const base = row * stride;
+    if (bitDepth === 8) return lines[base + index];
+    if (bitDepth === 16) return lines[base + index * 2];
+    const bitOffset = index * bitDepth;
+    const byte = lines[base + (bitOffset >> 3)];
+    const shift = 8 - bitDepth - (bitOffset & 7);
+    const value = (byte >> shift) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const s = x * channels;
+      switch (colorType) {
+        case 0: {
+          const g = sample(y, s);
+          data[out] = data[out + 1] = data[out + 2] = g;
+          data[out + 3] = 255;
+          break;
+        }
+        case 2:
+          data[out] = sample(y, s);
+          data[out + 1] = sample(y, s + 1);
+          data[out + 2] = sample(y, s + 2);
+          data[out + 3] = 255;
+          break;
+        case 3: {
+          const index = sample(y, s);
+          if (!palette || index * 3 + 2 >= palette.length) throw new Error('PNG palette index out of range');
+          data[out] = palette[index * 3];
+          data[out + 1] = palette[index * 3 + 1];
+          data[out + 2] = palette[index * 3 + 2];
+          data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4: {
+          const g = sample(y, s);
+          data[out] = data[out + 1] = data[out + 2] = g;
+          data[out + 3] = sample(y, s + 1);
+          break;
+        }
+        case 6:
+          data[out] = sample(y, s);
+          data[out + 1] = sample(y, s + 1);
+          data[out + 2] = sample(y, s + 2);
+          data[out + 3] = sample(y, s + 3);
+          break;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+/**
+ * Encodes RGBA pixels as a PNG
+ * Uses uncompressed (stored) deflate blocks: larger files, but trivial and
+ * fast enough for question-sized crops that get re-encoded downstream anyway
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const stride = width * 4;
+
+  // Scanlines with filter byte 0 (None)
+  const raw = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  // zlib stream: header, stored blocks of up to 65535 bytes, Adler-32
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let pos = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * 65535;
+    const length = Math.min(65535, raw.length - start);
+    zlib[pos++] = block === blockCount - 1 ? 1 : 0;
+    zlib[pos++] = length & 0xff;
+    zlib[pos++] = length >> 8;
+    zlib[pos++] = ~length & 0xff;
+    zlib[pos++] = (~length >> 8) & 0xff;
+    zlib.set(raw.subarray(start, start + length), pos);
+    pos += length;
+  }
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < raw.length; i++) {
+    a = (a + raw[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  writeUint32(zlib, pos, ((b << 16) | a) >>> 0);
+
+  const ihdr = new Uint8Array(13);
+  writeUint32(ihdr, 0, width);
+  writeUint32(ihdr, 4, height);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  const chunks: Array<[string, Uint8Array]> = [['IHDR', ihdr], ['IDAT', zlib], ['IEND', new Uint8Array(0)]];
+  const total = PNG_SIGNATURE.length + chunks.reduce((sum, [, body]) => sum + body.length + 12, 0);
+  const out = new Uint8Array(total);
+  out.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const [type, body] of chunks) {
+    writeUint32(out, offset, body.length);
+    for (let i = 0; i < 4; i++) out[offset + 4 + i] = type.charCodeAt(i);
+    out.set(body, offset + 8);
+    writeUint32(out, offset + 8 + body.length, crc32(out, offset + 4, offset + 8 + body.length));
+    offset += 12 + body.length;
+  }
+  return out;
+}
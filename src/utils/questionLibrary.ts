@@ -0,0 +1,260 @@
+/**
+ * Persistent library of captured questions
+ * Screens only talk to the QuestionRepository interface; the default one is
+ * backed by the platform store (questionStore.ts / questionStore.web.ts) and
+ * can be swapped (e.g. for an in-memory one in tests) with setQuestionRepository
+ */
+
+import { createPersistentQuestionRepository } from './questionStore';
+
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export type SavedQuestion = {
+  id: string;
+  subject: string;
+  imageUri: string;          // cropped question image, owned by the store
+  text: string;              // recognized/edited question text ('' if none)
+  tags: string[];            // free-form, lowercase
+  capturedAt: number;        // ms since epoch
+  crop: CropRect | null;     // question area in source photo pixels
+  source: { width: number; height: number }; // full photo the question was cut from
+};
+
+export type NewQuestion = Omit<SavedQuestion, 'id'>;
+
+// A new imageUri is copied into the store and replaces the old image
+export type QuestionChanges = Partial<Pick<SavedQuestion, 'subject' | 'text' | 'tags' | 'imageUri'>>;
+
+export interface QuestionRepository {
+  // Newest first
+  list(): Promise<SavedQuestion[]>;
+  get(id: string): Promise<SavedQuestion | null>;
+  // Copies the image into the store and returns the saved record
+  add(question: NewQuestion): Promise<SavedQuestion>;
+  update(id: string, changes: QuestionChanges): Promise<SavedQuestion | null>;
+  remove(id: string): Promise<void>;
+  // Re-files every question of a renamed subject; returns how many moved
+  renameSubject(from: string, to: string): Promise<number>;
+}
+
+/**
+ * Where a repository keeps its data - the index of records and the image files
+ */
+export type QuestionStorageBackend = {
+  readIndex(): Promise<SavedQuestion[]>;
+  writeIndex(questions: SavedQuestion[]): Promise<void>;
+  // Takes ownership of an image and returns the URI it is stored under
+  storeImage(id: string, uri: string): Promise<string>;
+  deleteImage(uri: string): Promise<void>;
+};
+
+function createQuestionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function sortNewestFirst(questions: SavedQuestion[]): SavedQuestion[] {
+  return [...questions].sort((a, b) => b.capturedAt - a.capturedAt);
+}
+
+/**
+ * Builds a repository on top of a storage backend
+ * The index is read once and kept in memory; writes are serialized so
+ * overlapping saves can't drop each other's records. An index that can't be
+ * read is never taken for an empty one: reads show nothing, writes fail
+ */
+export function createQuestionRepository(backend: QuestionStorageBackend): QuestionRepository {
+  let indexPromise: Promise<SavedQuestion[]> | null = null;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const loadIndex = () => {
+    if (!indexPromise) {
+      const loading = backend
+        .readIndex()
+        // Records saved before tags existed
+        .then((questions) => questions.map((question) => ({ ...question, tags: question.tags ?? [] })));
+      indexPromise = loading;
+      // Not cached: the next call reads again instead of writing over the
+      // records that couldn't be read
+      loading.catch((error) => {
+        console.error('❌ Failed to read question library:', error);
+        if (indexPromise === loading) indexPromise = null;
+      });
+    }
+    return indexPromise;
+  };
+
+  const readIndexOrEmpty = () => loadIndex().catch((): SavedQuestion[] => []);
+
+  // Runs a mutation after every earlier one has finished
+  const enqueue = <T>(task: (questions: SavedQuestion[]) => Promise<T>): Promise<T> => {
+    const run = pending.then(async () => task(await loadIndex()));
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const commit = async (questions: SavedQuestion[]) => {
+    await backend.writeIndex(questions);
+    indexPromise = Promise.resolve(questions);
+  };
+
+  return {
+    list: async () => sortNewestFirst(await readIndexOrEmpty()),
+
+    get: async (id) => (await readIndexOrEmpty()).find((question) => question.id === id) ?? null,
+
+    add: (question) =>
+      enqueue(async (questions) => {
+        const id = createQuestionId();
+        const imageUri = await backend.storeImage(id, question.imageUri);
+        const saved: SavedQuestion = { ...question, id, imageUri };
+        try {
+          await commit([...questions, saved]);
+        } catch (error) {
+          // Don't leave an orphaned image behind
+          await backend.deleteImage(imageUri).catch(() => undefined);
+          throw error;
+        }
+        console.log('💾 Saved question', id, 'in', saved.subject);
+        return saved;
+      }),
+
+    update: (id, changes) =>
+      enqueue(async (questions) => {
+        const existing = questions.find((question) => question.id === id);
+        if (!existing) {
+          return null;
+        }
+        const replacesImage = !!changes.imageUri && changes.imageUri !== existing.imageUri;
+        // Stored under a new name so the copy can't clobber the image it replaces
+        const imageUri = replacesImage
+          ? await backend.storeImage(`${id}-${Date.now().toString(36)}`, changes.imageUri!)
+          : existing.imageUri;
+        const updated = { ...existing, ...changes, imageUri };
+        try {
+          await commit(questions.map((question) => (question.id === id ? updated : question)));
+        } catch (error) {
+          if (replacesImage) await backend.deleteImage(imageUri).catch(() => undefined);
+          throw error;
+        }
+        if (replacesImage) {
+          await backend.deleteImage(existing.imageUri).catch((error) => {
+            console.error('❌ Failed to delete replaced question image:', error);
+          });
+        }
+        return updated;
+      }),
+
+    remove: (id) =>
+      enqueue(async (questions) => {
+        const existing = questions.find((question) => question.id === id);
+        if (!existing) {
+          return;
+        }
+        await commit(questions.filter((question) => question.id !== id));
+        await backend.deleteImage(existing.imageUri).catch((error) => {
+          console.error('❌ Failed to delete question image:', error);
+        });
+        console.log('🗑️ Deleted question', id);
+      }),
+
+    renameSubject: (from, to) =>
+      enqueue(async (questions) => {
+        const moved = questions.filter((question) => question.subject === from).length;
+        if (moved > 0 && from !== to) {
+          await commit(questions.map((question) => (question.subject === from ? { ...question, subject: to } : question)));
+        }
+        return moved;
+      }),
+  };
+}
+
+/**
+ * Repository that lives only as long as the JS context - for tests and
+ * platforms without persistent storage. Images are referenced, not copied
+ */
+export function createMemoryQuestionRepository(initial: SavedQuestion[] = []): QuestionRepository {
+  let stored = [...initial];
+  return createQuestionRepository({
+    readIndex: async () => stored,
+    writeIndex: async (questions) => {
+      stored = questions;
+    },
+    storeImage: async (_id, uri) => uri,
+    deleteImage: async () => undefined,
+  });
+}
+
+export type QuestionSortOrder = 'newest' | 'oldest';
+
+export type SubjectGroup = {
+  subject: string;
+  questions: SavedQuestion[];
+};
+
+/**
+ * Filters questions by a search query (subject, text or #tag) and groups them
+ * by subject. Groups follow `subjectOrder`, then alphabetical; questions within
+ * a group follow `order`
+ */
+export function groupQuestionsBySubject(
+  questions: SavedQuestion[],
+  query: string = '',
+  order: QuestionSortOrder = 'newest',
+  subjectOrder: string[] = []
+): SubjectGroup[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = (question: SavedQuestion) => {
+    const haystack = `${question.subject} ${question.text}`.toLowerCase();
+    return terms.every((term) =>
+      term.startsWith('#')
+        ? question.tags.some((tag) => tag.startsWith(term.slice(1)))
+        : haystack.includes(term) || question.tags.some((tag) => tag.includes(term))
+    );
+  };
+  const rank = (subject: string) => {
+    const index = subjectOrder.indexOf(subject);
+    return index === -1 ? subjectOrder.length : index;
+  };
+
+  const groups = new Map<string, SavedQuestion[]>();
+  for (const question of questions) {
+    if (!matches(question)) {
+      continue;
+    }
+    const group = groups.get(question.subject) ?? [];
+    group.push(question);
+    groups.set(question.subject, group);
+  }
+
+  const direction = order === 'newest' ? -1 : 1;
+  return [...groups.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([subject, group]) => ({
+      subject,
+      questions: group.sort((a, b) => direction * (a.capturedAt - b.capturedAt)),
+    }));
+}
+
+export function formatCaptureDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+let activeRepository: QuestionRepository | null = null;
+
+export function getQuestionRepository(): QuestionRepository {
+  if (!activeRepository) {
+    activeRepository = createPersistentQuestionRepository();
+  }
+  return activeRepository;
+}
+
+/**
+ * Replaces the active repository (pass null to go back to the persistent one)
+ */
+export function setQuestionRepository(repository: QuestionRepository | null): void {
+  activeRepository = repository;
+}
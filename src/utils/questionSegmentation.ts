@@ -0,0 +1,155 @@
+/**
+ * Splits a worksheet page into individual questions
+ * Pure pixel analysis: text lines come from ink projection profiles, and a
+ * new question starts after an unusually tall blank gap or on a line that
+ * begins with a short, detached token at the left margin - the shape of
+ * numbering like "1.", "a)" or "Q3"
+ */
+
+import type { Rect } from './imageUtils';
+import {
+  computeInkThreshold,
+  findTextLines,
+  horizontalInkProfile,
+  verticalInkProfile,
+  type GrayImage,
+} from './pixelAnalysis';
+
+export type QuestionRegion = {
+  rect: Rect;          // in the analysed image's pixels
+  lineCount: number;
+  numbered: boolean;   // started by a numbering-like token rather than a gap alone
+};
+
+export type SegmentationConfig = {
+  // Gap (in median line heights) that always separates questions
+  gapFactor?: number;
+  // Regions smaller than this share of the image are dropped as noise
+  minAreaRatio?: number;
+};
+
+type LineInfo = {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  inkDensity: number;     // ink share of the line's bounding box
+  hasLeadingToken: boolean;
+};
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  // Lower median - with few samples, one big outlier shouldn't set the norm
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+}
+
+/**
+ * Measures a line's horizontal extent and whether it opens with a short token
+ * set apart by a gap at least as wide as a generous word space
+ */
+function describeLine(gray: GrayImage, threshold: number, top: number, bottom: number): LineInfo | null {
+  const columns = verticalInkProfile(gray, threshold, top, bottom + 1);
+  const left = columns.findIndex((count) => count > 0);
+  if (left < 0) return null;
+  let right = left;
+  for (let x = gray.width - 1; x >= left; x--) {
+    if (columns[x] > 0) { right = x; break; }
+  }
+
+  const height = bottom - top + 1;
+  let ink = 0;
+  for (let x = left; x <= right; x++) ink += columns[x];
+
+  // Walk the leading token until the first gap of ~0.4 line heights
+  const minGap = Math.max(2, Math.round(height * 0.4));
+  let x = left;
+  let gapRun = 0;
+  let tokenEnd = left;
+  for (; x <= right; x++) {
+    if (columns[x] > 0) {
+      if (gapRun >= minGap) break;
+      gapRun = 0;
+      tokenEnd = x;
+    } else {
+      gapRun++;
+    }
+  }
+
+  return {
+    top,
+    bottom,
+    left,
+    right,
+    inkDensity: ink / ((right - left + 1) * height),
+    hasLeadingToken: x <= right && tokenEnd - left + 1 <= height * 2,
+  };
+}
+
+/**
+ * Finds the question regions on a page, top to bottom
+ */
+export function segmentQuestions(gray: GrayImage, config?: SegmentationConfig): QuestionRegion[] {
+  const { gapFactor = 1.5, minAreaRatio = 0.002 } = config || {};
+
+  const threshold = computeInkThreshold(gray);
+  const minInk = Math.max(1, Math.round(gray.width * 0.005));
+  const lines = findTextLines(horizontalInkProfile(gray, threshold), minInk)
+    .map((line) => describeLine(gray, threshold, line.top, line.bottom))
+    // Solid bars (page edges, shadows, rules) are mostly ink - not text
+    .filter((line): line is LineInfo => !!line && line.inkDensity < 0.6);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const lineHeight = Math.max(1, median(lines.map((line) => line.bottom - line.top + 1)));
+  const gaps = lines.slice(1).map((line, i) => line.top - lines[i].bottom - 1);
+  const splitGap = Math.max(lineHeight * gapFactor, median(gaps) * 2);
+  const margin = Math.min(...lines.map((line) => line.left));
+  const textRight = Math.max(...lines.map((line) => line.right));
+
+  const startsQuestion = (i: number): { start: boolean; numbered: boolean } => {
+    const line = lines[i];
+    const previous = lines[i - 1];
+    const next = lines[i + 1];
+    if (!previous) return { start: true, numbered: line.hasLeadingToken };
+
+    const atMargin = line.left - margin <= lineHeight * 0.5;
+    // Hanging indent: number at the margin, wrapped text indented under it
+    const hanging = atMargin && !!next
+      && next.top - line.bottom - 1 <= splitGap
+      && next.left - line.left >= lineHeight * 0.8;
+    // Paragraph end: the line before stops well short of the right edge
+    const afterShortLine = previous.right < textRight - lineHeight * 2;
+    const numbered = hanging || (atMargin && line.hasLeadingToken && afterShortLine);
+    const gap = line.top - previous.bottom - 1;
+    return { start: numbered || gap > splitGap, numbered };
+  };
+
+  // Group lines into questions
+  const groups: { lines: LineInfo[]; numbered: boolean }[] = [];
+  lines.forEach((line, i) => {
+    const { start, numbered } = startsQuestion(i);
+    if (start || groups.length === 0) {
+      groups.push({ lines: [line], numbered });
+    } else {
+      groups[groups.length - 1].lines.push(line);
+    }
+  });
+
+  const padding = Math.round(lineHeight * 0.3);
+  const minArea = gray.width * gray.height * minAreaRatio;
+  return groups
+    .map((group) => {
+      const left = Math.max(0, Math.min(...group.lines.map((line) => line.left)) - padding);
+      const right = Math.min(gray.width - 1, Math.max(...group.lines.map((line) => line.right)) + padding);
+      const top = Math.max(0, group.lines[0].top - padding);
+      const bottom = Math.min(gray.height - 1, group.lines[group.lines.length - 1].bottom + padding);
+      return {
+        rect: { x: left, y: top, width: right - left + 1, height: bottom - top + 1 },
+        lineCount: group.lines.length,
+        numbered: group.numbered,
+      };
+    })
+    .filter((region) => region.rect.width * region.rect.height >= minArea);
+}
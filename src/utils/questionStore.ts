@@ -0,0 +1,119 @@
+/**
+ * Question library store - native
+ * Records, the subject list and detection settings live in JSON files next to
+ * the images, all under the app's document directory so they survive restarts
+ * (the cache dir can be purged)
+ */
+
+import * as FileSystem from 'expo-file-system';
+import type { DetectionSettingsStorage } from './detectors';
+import {
+  createMemoryQuestionRepository,
+  createQuestionRepository,
+  type QuestionRepository,
+  type SavedQuestion,
+} from './questionLibrary';
+import {
+  createMemorySubjectRepository,
+  createSubjectRepository,
+  type Subject,
+  type SubjectRepository,
+} from './subjects';
+
+const root = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}questions/` : null;
+
+async function ensureRoot(directory: string) {
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+}
+
+/**
+ * Parsed contents of a JSON file, or null when there is no file yet
+ * A file that won't parse is moved aside (`<name>.corrupt-<time>`) so no later
+ * write replaces it, and the read fails
+ */
+async function readJsonFile(uri: string): Promise<unknown> {
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    return null;
+  }
+  const contents = await FileSystem.readAsStringAsync(uri);
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    const keptUri = `${uri}.corrupt-${Date.now()}`;
+    await FileSystem.moveAsync({ from: uri, to: keptUri });
+    console.error('❌ Unreadable JSON file, kept as', keptUri);
+    throw error;
+  }
+}
+
+// Write-then-move so a crash mid-write can't corrupt the file
+async function writeJsonFile(directory: string, uri: string, value: unknown) {
+  await ensureRoot(directory);
+  const tempUri = `${uri}.tmp`;
+  await FileSystem.writeAsStringAsync(tempUri, JSON.stringify(value));
+  await FileSystem.moveAsync({ from: tempUri, to: uri });
+}
+
+export function createPersistentQuestionRepository(): QuestionRepository {
+  if (!root) {
+    console.warn('⚠️ No document directory - questions will not be persisted');
+    return createMemoryQuestionRepository();
+  }
+
+  const indexUri = `${root}index.json`;
+
+  return createQuestionRepository({
+    readIndex: async () => {
+      const parsed = await readJsonFile(indexUri);
+      return Array.isArray(parsed) ? (parsed as SavedQuestion[]) : [];
+    },
+
+    writeIndex: (questions) => writeJsonFile(root, indexUri, questions),
+
+    storeImage: async (id, uri) => {
+      await ensureRoot(root);
+      const extension = uri.match(/\.(png|jpe?g)$/i)?.[1].toLowerCase() ?? 'jpg';
+      const target = `${root}${id}.${extension}`;
+      await FileSystem.copyAsync({ from: uri, to: target });
+      return target;
+    },
+
+    deleteImage: async (uri) => {
+      // Only delete files the store owns
+      if (uri.startsWith(root)) {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      }
+    },
+  });
+}
+
+export function createPersistentSubjectRepository(): SubjectRepository {
+  if (!root) {
+    return createMemorySubjectRepository();
+  }
+
+  const subjectsUri = `${root}subjects.json`;
+  return createSubjectRepository({
+    read: async () => {
+      const parsed = await readJsonFile(subjectsUri);
+      return Array.isArray(parsed) ? (parsed as Subject[]) : null;
+    },
+    write: (subjects) => writeJsonFile(root, subjectsUri, subjects),
+  });
+}
+
+export function createPersistentDetectionSettingsStorage(): DetectionSettingsStorage | null {
+  if (!root) {
+    return null;
+  }
+
+  const settingsUri = `${root}detection-settings.json`;
+  return {
+    read: () => readJsonFile(settingsUri),
+    write: (settings) => writeJsonFile(root, settingsUri, settings),
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Question library store - web
+ * Records, subjects, detection settings and images (as data URIs) are kept
+ * in localStorage
+ */
+
+import type { DetectionSettingsStorage } from './detectors';
+import {
+  createMemoryQuestionRepository,
+  createQuestionRepository,
+  type QuestionRepository,
+  type SavedQuestion,
+} from './questionLibrary';
+import {
+  createMemorySubjectRepository,
+  createSubjectRepository,
+  type Subject,
+  type SubjectRepository,
+} from './subjects';
+
+const STORAGE_KEY = 'questionLibrary.v1';
+const SUBJECTS_KEY = 'questionLibrary.subjects.v1';
+const DETECTION_SETTINGS_KEY = 'detectionSettings.v1';
+
+/**
+ * Parsed contents of a localStorage entry, or null when it isn't set
+ * An entry that won't parse is moved aside (`<key>.corrupt-<time>`) so no
+ * later write replaces it, and the read fails
+ */
+function readJsonItem(key: string): unknown {
+  const raw = localStorage.getItem(key);
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    const keptKey = `${key}.corrupt-${Date.now()}`;
+    localStorage.setItem(keptKey, raw);
+    localStorage.removeItem(key);
+    console.error('❌ Unreadable stored JSON, kept as', keptKey);
+    throw error;
+  }
+}
+
+// blob: URIs die with the page, so images are inlined before saving
+async function toDataUri(uri: string): Promise<string> {
+  if (uri.startsWith('data:')) {
+    return uri;
+  }
+  const blob = await (await fetch(uri)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function createPersistentQuestionRepository(): QuestionRepository {
+  if (typeof localStorage === 'undefined') {
+    console.warn('⚠️ No localStorage - questions will not be persisted');
+    return createMemoryQuestionRepository();
+  }
+
+  return createQuestionRepository({
+    readIndex: async () => {
+      const parsed = readJsonItem(STORAGE_KEY);
+      return Array.isArray(parsed) ? (parsed as SavedQuestion[]) : [];
+    },
+    writeIndex: async (questions) => {
+      // Throws QuotaExceededError when full - surfaced to the caller
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(questions));
+    },
+    storeImage: async (_id, uri) => toDataUri(uri),
+    deleteImage: async () => undefined,
+  });
+}
+
+export function createPersistentSubjectRepository(): SubjectRepository {
+  if (typeof localStorage === 'undefined') {
+    return createMemorySubjectRepository();
+  }
+
+  return createSubjectRepository({
+    read: async () => {
+      const parsed = readJsonItem(SUBJECTS_KEY);
+      return Array.isArray(parsed) ? (parsed as Subject[]) : null;
+    },
+    write: async (subjects) => {
+      localStorage.setItem(SUBJECTS_KEY, JSON.stringify(subjects));
+    },
+  });
+}
+
+export function createPersistentDetectionSettingsStorage(): DetectionSettingsStorage | null {
+  if (typeof localStorage === 'undefined') {
+    return null;
+  }
+
+  return {
+    read: async () => readJsonItem(DETECTION_SETTINGS_KEY),
+    write: async (settings) => {
+      localStorage.setItem(DETECTION_SETTINGS_KEY, JSON.stringify(settings));
+    },
+  };
+}
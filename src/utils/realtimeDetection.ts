@@ -3,6 +3,8 @@
  * Optimized for speed over accuracy - runs at 2-4 fps
  */
 
+import { computeTextDensityGrid, findTextRegion, type GrayImage, type TextRegionConfig } from './pixelAnalysis';
+
 export type DetectionRect = {
   x: number;
   y: number;
@@ -52,6 +54,73 @@ export function detectQuestionAreaFast(
   };
 }
 
+/**
+ * Small grayscale snapshot of the camera feed (e.g. 160px wide)
+ */
+export type GrayFrame = GrayImage;
+
+export type FrameDetection = {
+  rect: DetectionRect; // in frame pixel coordinates
+  confidence: number;  // 0-1
+};
+
+/**
+ * Per-frame question detection on a low-resolution grayscale buffer
+ * Locates the first text block, then scores how clearly it stands out from
+ * the rest of the frame. Returns null when the frame has no text-like content
+ */
+export function detectQuestionInFrame(
+  frame: GrayFrame,
+  // How much text to include (default 'auto') and the density grid
+  options?: TextRegionConfig
+): FrameDetection | null {
+  const rect = findTextRegion(frame, { mode: 'auto', gridRows: 30, gridCols: 20, ...options });
+  if (!rect || rect.width <= 0 || rect.height <= 0) {
+    return null;
+  }
+
+  // Compare edge density inside the box with the rest of the frame
+  const gridRows = 12;
+  const gridCols = 12;
+  const grid = computeTextDensityGrid(frame, gridRows, gridCols);
+  let insideSum = 0;
+  let insideCount = 0;
+  let outsideSum = 0;
+  let outsideCount = 0;
+  for (let row = 0; row < gridRows; row++) {
+    const cy = ((row + 0.5) * frame.height) / gridRows;
+    for (let col = 0; col < gridCols; col++) {
+      const cx = ((col + 0.5) * frame.width) / gridCols;
+      const inside = cx >= rect.x && cx <= rect.x + rect.width && cy >= rect.y && cy <= rect.y + rect.height;
+      if (inside) {
+        insideSum += grid[row][col];
+        insideCount++;
+      } else {
+        outsideSum += grid[row][col];
+        outsideCount++;
+      }
+    }
+  }
+
+  const insideDensity = insideCount > 0 ? insideSum / insideCount : 0;
+  const outsideDensity = outsideCount > 0 ? outsideSum / outsideCount : 0;
+  // Boxes too thin to contain a sampled cell centre still count as separated
+  const separation = insideCount === 0
+    ? 0.5
+    : insideDensity > 0 ? Math.max(0, Math.min(1, (insideDensity - outsideDensity) / insideDensity)) : 0;
+
+  // Penalize specks and boxes that swallow most of the frame
+  const areaRatio = (rect.width * rect.height) / (frame.width * frame.height);
+  const sizeScore = areaRatio < 0.005
+    ? areaRatio / 0.005
+    : areaRatio > 0.6 ? Math.max(0, (1 - areaRatio) / 0.4) : 1;
+
+  return {
+    rect,
+    confidence: separation * sizeScore,
+  };
+}
+
 /**
  * Smoothly interpolate between old and new detection box (lerp)
  * Prevents jittery box movement
@@ -73,25 +142,46 @@ export function smoothBoxTransition(
   };
 }
 
+export type AutoCaptureConfig = {
+  // How long the box must stay put before the shutter arms
+  stableMs: number;
+  // Minimum Laplacian variance of the question area (see laplacianVariance)
+  minSharpness: number;
+};
+
+export const DEFAULT_AUTO_CAPTURE_CONFIG: AutoCaptureConfig = {
+  stableMs: 1500,
+  minSharpness: 40,
+};
+
 /**
- * Maps detected box from preview coordinates to image coordinates
- * Used when capturing to crop the actual high-res image
+ * Tracks how long the detected box has been steady, for auto-capture
+ * Fed once per detection frame with whether the box moved past the update
+ * thresholds. After a capture or a cancel it stays disarmed until the box
+ * moves again, so one steady shot doesn't fire over and over
  */
-export function mapPreviewBoxToImageCoords(
-  previewBox: DetectionRect,
-  previewWidth: number,
-  previewHeight: number,
-  imageWidth: number,
-  imageHeight: number
-): { originX: number; originY: number; width: number; height: number } {
-  const scaleX = imageWidth / previewWidth;
-  const scaleY = imageHeight / previewHeight;
+export function createStabilityTracker(config: AutoCaptureConfig = DEFAULT_AUTO_CAPTURE_CONFIG) {
+  let steadySince: number | null = null;
+  let armed = true;
 
   return {
-    originX: Math.round(previewBox.x * scaleX),
-    originY: Math.round(previewBox.y * scaleY),
-    width: Math.round(previewBox.width * scaleX),
-    height: Math.round(previewBox.height * scaleY),
+    // Returns true when a steady, sharp box should trigger the shutter
+    observe(moved: boolean, sharpness: number, now: number = Date.now()): boolean {
+      if (moved || steadySince === null) {
+        steadySince = now;
+        if (moved) armed = true;
+        return false;
+      }
+      return armed && now - steadySince >= config.stableMs && sharpness >= config.minSharpness;
+    },
+    disarm() {
+      armed = false;
+      steadySince = null;
+    },
+    reset() {
+      armed = true;
+      steadySince = null;
+    },
   };
 }
 
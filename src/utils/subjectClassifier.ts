@@ -0,0 +1,162 @@
+/**
+ * Local subject suggestion from recognized question text
+ * Keyword and symbol rules only - deterministic, offline and cheap enough
+ * to run on every keystroke of the editable OCR text
+ */
+
+export type SubjectScore = {
+  subject: string;
+  score: number; // 0-1, share of the evidence that points at this subject
+};
+
+type SubjectRule = {
+  keywords: string[];                         // matched as word prefixes (4+ chars) or whole words
+  patterns: Array<{ regex: RegExp; weight: number }>; // symbols, units, formulas
+};
+
+const SUBJECT_RULES: Record<string, SubjectRule> = {
+  Math: {
+    keywords: [
+      'solve', 'equation', 'calculate', 'simplify', 'evaluate', 'integral', 'derivative', 'differentiate',
+      'fraction', 'percent', 'sum', 'product', 'quotient', 'polynomial', 'function', 'graph', 'slope',
+      'triangle', 'angle', 'circle', 'radius', 'diameter', 'area', 'perimeter', 'volume', 'probability',
+      'matrix', 'vector', 'algebra', 'geometry', 'factor', 'prime', 'integer', 'decimal', 'ratio', 'median',
+    ],
+    patterns: [
+      { regex: /\d\s*[+\-×÷*/^]\s*\d/g, weight: 2 },           // arithmetic between numbers
+      { regex: /\b[a-z]\s*[=^²³]|[=<>≤≥]\s*-?\d/g, weight: 1.5 }, // x = 3, y², = 5
+      { regex: /[√π∑∫∞≤≥≠±]/g, weight: 2 },
+      { regex: /\b(sin|cos|tan|log|ln|lim)\b/g, weight: 2 },
+    ],
+  },
+  Physics: {
+    keywords: [
+      'velocity', 'speed', 'acceleration', 'force', 'mass', 'energy', 'momentum', 'newton', 'gravity',
+      'friction', 'current', 'voltage', 'resistance', 'circuit', 'wave', 'frequency', 'wavelength',
+      'magnetic', 'electric', 'pressure', 'joule', 'watt', 'power', 'kinetic', 'potential', 'lens',
+      'refraction', 'motion', 'displacement', 'inertia', 'torque',
+    ],
+    patterns: [
+      { regex: /\d\s*(m\/s²?|km\/h|ms⁻¹|N|J|W|V|Ω|Hz|kW|kg·m)\b/g, weight: 2.5 },
+      { regex: /\b(F\s*=\s*m\s*a|E\s*=\s*m\s*c|V\s*=\s*I\s*R)/gi, weight: 3 },
+    ],
+  },
+  Chemistry: {
+    keywords: [
+      'atom', 'molecule', 'element', 'compound', 'reaction', 'acid', 'base', 'alkali', 'mole', 'molar',
+      'electron', 'proton', 'neutron', 'bond', 'oxidation', 'reduction', 'ion', 'periodic', 'solution',
+      'catalyst', 'isotope', 'valence', 'titration', 'precipitate', 'organic', 'hydrocarbon', 'salt',
+    ],
+    patterns: [
+      // Formulas like H2O, CO2, H₂SO₄ (element symbols with at least one count,
+      // so ALL-CAPS words aren't mistaken for formulas)
+      { regex: /\b(?=[A-Za-z0-9₀-₉]*[0-9₀-₉])(?:[A-Z][a-z]?[0-9₀-₉]*){2,}\b/g, weight: 1.5 },
+      { regex: /→|⇌|->/g, weight: 1.5 },
+      { regex: /\bpH\b/g, weight: 2.5 },
+    ],
+  },
+  Biology: {
+    keywords: [
+      'cell', 'dna', 'rna', 'gene', 'protein', 'enzyme', 'organism', 'photosynthesis', 'respiration',
+      'mitochondria', 'nucleus', 'evolution', 'species', 'tissue', 'organ', 'bacteria', 'virus',
+      'ecosystem', 'chromosome', 'plant', 'animal', 'blood', 'heart', 'digestion', 'hormone', 'mutation',
+      'inherit', 'membrane', 'habitat', 'fungi',
+    ],
+    patterns: [],
+  },
+  History: {
+    keywords: [
+      'war', 'empire', 'revolution', 'king', 'queen', 'emperor', 'century', 'treaty', 'dynasty', 'ancient',
+      'medieval', 'colonial', 'independence', 'president', 'battle', 'civilization', 'kingdom', 'reign',
+      'parliament', 'constitution', 'monarchy', 'republic', 'invasion', 'historian',
+    ],
+    patterns: [
+      { regex: /\b(in|of|from|by)\s+(1[0-9]{3}|20[0-2][0-9])\b/gi, weight: 2 }, // "in 1789"
+      { regex: /\b\d{1,4}\s*(BC|BCE|AD|CE)\b/g, weight: 2.5 },
+      { regex: /\b\d{1,2}(st|nd|rd|th)\s+century\b/gi, weight: 2 },
+    ],
+  },
+  Geography: {
+    keywords: [
+      'continent', 'country', 'river', 'mountain', 'climate', 'latitude', 'longitude', 'capital',
+      'population', 'map', 'ocean', 'desert', 'tectonic', 'erosion', 'region', 'border', 'weather',
+      'rainfall', 'volcano', 'earthquake', 'equator', 'hemisphere', 'landform', 'urban', 'migration',
+    ],
+    patterns: [
+      { regex: /\d+\s*°\s*[NSEW]\b/g, weight: 3 },
+    ],
+  },
+};
+
+// Evidence added to the denominator so a single weak hit doesn't read as certain
+const SMOOTHING = 2;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z]+/g) ?? [];
+}
+
+function keywordScore(tokens: string[], keywords: string[]): number {
+  let score = 0;
+  for (const token of tokens) {
+    for (const keyword of keywords) {
+      // Long keywords also match inflections (solve -> solving, cell -> cells)
+      if (token === keyword || (keyword.length >= 4 && token.startsWith(keyword))) {
+        score += 1;
+        break;
+      }
+    }
+  }
+  return score;
+}
+
+function patternScore(text: string, patterns: SubjectRule['patterns']): number {
+  let score = 0;
+  for (const { regex, weight } of patterns) {
+    const matches = text.match(regex);
+    if (matches) {
+      score += Math.min(matches.length, 5) * weight;
+    }
+  }
+  return score;
+}
+
+/**
+ * Ranks subjects for a piece of question text, best first
+ * Subjects without built-in rules (e.g. user-defined ones) are scored on
+ * mentions of their own name. Ties keep the order of `subjects`
+ */
+export function classifySubject(text: string, subjects: string[] = Object.keys(SUBJECT_RULES)): SubjectScore[] {
+  const tokens = tokenize(text);
+
+  const raw = subjects.map((subject) => {
+    const rule = SUBJECT_RULES[subject];
+    const nameTokens = tokenize(subject);
+    let score = nameTokens.length > 0 ? keywordScore(tokens, nameTokens) * 2 : 0;
+    if (rule) {
+      score += keywordScore(tokens, rule.keywords) + patternScore(text, rule.patterns);
+    }
+    return score;
+  });
+
+  const total = raw.reduce((sum, value) => sum + value, 0);
+  return subjects
+    .map((subject, index) => ({
+      subject,
+      score: total > 0 ? raw[index] / (total + SMOOTHING) : 0,
+      index,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ subject, score }) => ({ subject, score }));
+}
+
+/**
+ * The top-ranked subject, or null when the evidence is too weak to suggest
+ */
+export function suggestSubject(
+  text: string,
+  subjects?: string[],
+  minScore: number = 0.3
+): SubjectScore | null {
+  const [best] = classifySubject(text, subjects);
+  return best && best.score >= minScore ? best : null;
+}
@@ -0,0 +1,173 @@
+/**
+ * User-defined subjects
+ * Questions reference subjects by name; this store owns the list itself -
+ * display order, colors and which subjects are archived (hidden when filing
+ * new questions but kept for the ones already saved)
+ */
+
+import { createPersistentSubjectRepository } from './questionStore';
+
+export type Subject = {
+  id: string;
+  name: string;
+  color: string;
+  archived: boolean;
+};
+
+export type SubjectChanges = Partial<Pick<Subject, 'name' | 'color' | 'archived'>>;
+
+export interface SubjectRepository {
+  // Every subject in display order, archived ones included
+  list(): Promise<Subject[]>;
+  add(name: string, color?: string): Promise<Subject>;
+  update(id: string, changes: SubjectChanges): Promise<Subject | null>;
+  // Moves the given ids to the front in that order; others keep their relative order
+  reorder(ids: string[]): Promise<void>;
+}
+
+export type SubjectStorage = {
+  // null when nothing has been saved yet (first run)
+  read(): Promise<Subject[] | null>;
+  write(subjects: Subject[]): Promise<void>;
+};
+
+export const SUBJECT_COLORS = [
+  '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#f97316', '#eab308', '#22c55e', '#ef4444', '#64748b',
+];
+
+// Seeded on first run
+export const DEFAULT_SUBJECTS = ['Math', 'Biology', 'Physics', 'Chemistry', 'History', 'Geography'];
+
+export function createDefaultSubjects(): Subject[] {
+  return DEFAULT_SUBJECTS.map((name, index) => ({
+    id: `default-${name.toLowerCase()}`,
+    name,
+    color: SUBJECT_COLORS[index % SUBJECT_COLORS.length],
+    archived: false,
+  }));
+}
+
+export function normalizeSubjectName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+function assertNameAvailable(subjects: Subject[], name: string, exceptId?: string) {
+  if (!name) {
+    throw new Error('Subject name cannot be empty');
+  }
+  const clash = subjects.find(
+    (subject) => subject.id !== exceptId && subject.name.toLowerCase() === name.toLowerCase()
+  );
+  if (clash) {
+    throw new Error(`A subject named "${clash.name}" already exists`);
+  }
+}
+
+/**
+ * Builds a subject repository on top of a storage backend
+ * Writes are serialized like the question library's
+ */
+export function createSubjectRepository(storage: SubjectStorage): SubjectRepository {
+  let subjectsPromise: Promise<Subject[]> | null = null;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const load = () => {
+    if (!subjectsPromise) {
+      subjectsPromise = storage
+        .read()
+        .then((stored) => stored ?? createDefaultSubjects())
+        .catch((error) => {
+          console.error('❌ Failed to read subjects:', error);
+          return createDefaultSubjects();
+        });
+    }
+    return subjectsPromise;
+  };
+
+  const enqueue = <T>(task: (subjects: Subject[]) => Promise<T>): Promise<T> => {
+    const run = pending.then(async () => task(await load()));
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const commit = async (subjects: Subject[]) => {
+    await storage.write(subjects);
+    subjectsPromise = Promise.resolve(subjects);
+  };
+
+  return {
+    list: async () => [...(await load())],
+
+    add: (rawName, color) =>
+      enqueue(async (subjects) => {
+        const name = normalizeSubjectName(rawName);
+        assertNameAvailable(subjects, name);
+        const subject: Subject = {
+          id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+          name,
+          color: color ?? SUBJECT_COLORS[subjects.length % SUBJECT_COLORS.length],
+          archived: false,
+        };
+        await commit([...subjects, subject]);
+        console.log('🏷️ Added subject', name);
+        return subject;
+      }),
+
+    update: (id, changes) =>
+      enqueue(async (subjects) => {
+        const existing = subjects.find((subject) => subject.id === id);
+        if (!existing) {
+          return null;
+        }
+        const updated = { ...existing, ...changes };
+        if (changes.name !== undefined) {
+          updated.name = normalizeSubjectName(changes.name);
+          assertNameAvailable(subjects, updated.name, id);
+        }
+        await commit(subjects.map((subject) => (subject.id === id ? updated : subject)));
+        return updated;
+      }),
+
+    reorder: (ids) =>
+      enqueue(async (subjects) => {
+        const byId = new Map(subjects.map((subject) => [subject.id, subject]));
+        const front = ids.map((id) => byId.get(id)).filter((subject): subject is Subject => !!subject);
+        const rest = subjects.filter((subject) => !ids.includes(subject.id));
+        await commit([...front, ...rest]);
+      }),
+  };
+}
+
+export function createMemorySubjectRepository(initial?: Subject[]): SubjectRepository {
+  let stored: Subject[] | null = initial ? [...initial] : null;
+  return createSubjectRepository({
+    read: async () => stored,
+    write: async (subjects) => {
+      stored = subjects;
+    },
+  });
+}
+
+let activeRepository: SubjectRepository | null = null;
+
+export function getSubjectRepository(): SubjectRepository {
+  if (!activeRepository) {
+    activeRepository = createPersistentSubjectRepository();
+  }
+  return activeRepository;
+}
+
+export function setSubjectRepository(repository: SubjectRepository | null): void {
+  activeRepository = repository;
+}
+
+/**
+ * Splits free-form tag input ("algebra, exam-2 #homework") into unique, lowercase tags
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,\s]+/)
+    .map((tag) => tag.replace(/^#+/, '').toLowerCase())
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
@@ -0,0 +1,21 @@
+/**
+ * Local OCR engine - native fallback
+ * Tesseract runs as a WASM worker, which only exists on web
+ * (see tesseractOcrEngine.web.ts). Native builds get an engine that reports
+ * itself unavailable until a native OCR module is wired in; the Preview
+ * screen tells the user to type the question instead
+ */
+
+import { createUnavailableOcrEngine, type OcrEngine } from './ocr';
+
+export type LocalOcrOptions = {
+  lang?: string;
+  // Where the worker script, WASM core and traineddata are served from
+  workerPath?: string;
+  corePath?: string;
+  langPath?: string;
+};
+
+export function createLocalOcrEngine(_options?: LocalOcrOptions): OcrEngine {
+  return createUnavailableOcrEngine();
+}
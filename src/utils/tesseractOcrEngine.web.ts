@@ -0,0 +1,58 @@
+/**
+ * Local OCR engine - web
+ * Runs Tesseract in a WASM web worker, so images never leave the device
+ * Point workerPath/corePath/langPath at bundled assets for fully offline use
+ * (see BUNDLED_OCR_ASSETS)
+ */
+
+import { createWorker, type Worker as TesseractWorker } from 'tesseract.js';
+import type { OcrEngine } from './ocr';
+import type { LocalOcrOptions } from './tesseractOcrEngine';
+
+export type { LocalOcrOptions };
+
+// The worker starts from a blob URL, where relative paths don't resolve
+function absoluteUrl(path: string | undefined): string | undefined {
+  return path && typeof window !== 'undefined' ? new URL(path, window.location.href).href : path;
+}
+
+export function createLocalOcrEngine(options?: LocalOcrOptions): OcrEngine {
+  const { lang = 'eng' } = options || {};
+  const workerPath = absoluteUrl(options?.workerPath);
+  const corePath = absoluteUrl(options?.corePath);
+  const langPath = absoluteUrl(options?.langPath);
+  let workerPromise: Promise<TesseractWorker> | null = null;
+
+  // The worker (and its language data) is loaded once, on first use
+  const getWorker = () => {
+    if (!workerPromise) {
+      workerPromise = createWorker(lang, undefined, {
+        ...(workerPath ? { workerPath } : {}),
+        ...(corePath ? { corePath } : {}),
+        ...(langPath ? { langPath } : {}),
+      });
+      workerPromise.catch(() => {
+        // Allow a retry on the next call
+        workerPromise = null;
+      });
+    }
+    return workerPromise;
+  };
+
+  return {
+    name: 'tesseract-wasm',
+    isAvailable: () => typeof Worker !== 'undefined',
+    recognize: async (imageUri: string) => {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(imageUri);
+      return { text: data.text, confidence: data.confidence / 100 };
+    },
+    dispose: async () => {
+      if (workerPromise) {
+        const worker = await workerPromise;
+        workerPromise = null;
+        await worker.terminate();
+      }
+    },
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Snap-to-text-edges: moves crop box edges off the letters they cut through
+ * Works on ink profiles of a grayscale image (the current camera frame or the
+ * captured photo), in that image's pixels
+ */
+
+import type { Rect } from './imageUtils';
+import { computeInkThreshold, horizontalInkProfile, verticalInkProfile, type GrayImage } from './pixelAnalysis';
+
+export type SnapEdge = 'left' | 'right' | 'top' | 'bottom';
+
+export type SnapConfig = {
+  // How far an edge may move, as a fraction of the image's longer side
+  maxDistance: number;
+  // A row/column still counts as whitespace with up to this share of ink
+  // along the edge (specks, paper texture)
+  maxInkRatio: number;
+};
+
+export const DEFAULT_SNAP_CONFIG: SnapConfig = {
+  maxDistance: 0.03,
+  maxInkRatio: 0.02,
+};
+
+export type SnapResult = {
+  rect: Rect;
+  // Edges that moved; edges already in whitespace (or with none nearby) stay
+  snapped: SnapEdge[];
+};
+
+/**
+ * Nearest blank position to `from` within [min, max], or null
+ * Ties go to `preferred` (the side that keeps the text inside the box)
+ */
+function nearestBlank(
+  profile: number[],
+  from: number,
+  min: number,
+  max: number,
+  maxInk: number,
+  reach: number,
+  preferred: -1 | 1
+): number | null {
+  const isBlank = (at: number) => at >= min && at <= max && profile[at] <= maxInk;
+  if (isBlank(from)) return null;
+  for (let distance = 1; distance <= reach; distance++) {
+    if (isBlank(from + preferred * distance)) return from + preferred * distance;
+    if (isBlank(from - preferred * distance)) return from - preferred * distance;
+  }
+  return null;
+}
+
+/**
+ * Moves the given edges of a rect to the nearest whitespace row/column
+ * Left/right edges are judged over the rect's rows, top/bottom over its
+ * (possibly just snapped) columns
+ */
+export function snapRectToText(
+  gray: GrayImage,
+  rect: Rect,
+  edges: SnapEdge[],
+  config: SnapConfig = DEFAULT_SNAP_CONFIG
+): SnapResult {
+  const threshold = computeInkThreshold(gray);
+  const reach = Math.max(1, Math.round(Math.max(gray.width, gray.height) * config.maxDistance));
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max, Math.round(value)));
+
+  let left = clamp(rect.x, gray.width - 1);
+  let right = clamp(rect.x + rect.width - 1, gray.width - 1);
+  let top = clamp(rect.y, gray.height - 1);
+  let bottom = clamp(rect.y + rect.height - 1, gray.height - 1);
+  const snapped: SnapEdge[] = [];
+
+  if (edges.includes('left') || edges.includes('right')) {
+    const columns = verticalInkProfile(gray, threshold, top, bottom + 1);
+    const maxInk = Math.floor((bottom - top + 1) * config.maxInkRatio);
+    if (edges.includes('left')) {
+      const to = nearestBlank(columns, left, 0, right - 1, maxInk, reach, -1);
+      if (to !== null) {
+        left = to;
+        snapped.push('left');
+      }
+    }
+    if (edges.includes('right')) {
+      const to = nearestBlank(columns, right, left + 1, gray.width - 1, maxInk, reach, 1);
+      if (to !== null) {
+        right = to;
+        snapped.push('right');
+      }
+    }
+  }
+
+  if (edges.includes('top') || edges.includes('bottom')) {
+    const rows = horizontalInkProfile(gray, threshold, left, right + 1);
+    const maxInk = Math.floor((right - left + 1) * config.maxInkRatio);
+    if (edges.includes('top')) {
+      const to = nearestBlank(rows, top, 0, bottom - 1, maxInk, reach, -1);
+      if (to !== null) {
+        top = to;
+        snapped.push('top');
+      }
+    }
+    if (edges.includes('bottom')) {
+      const to = nearestBlank(rows, bottom, top + 1, gray.height - 1, maxInk, reach, 1);
+      if (to !== null) {
+        bottom = to;
+        snapped.push('bottom');
+      }
+    }
+  }
+
+  if (snapped.length === 0) {
+    return { rect, snapped };
+  }
+  // Unsnapped edges keep their exact (unrounded) position
+  const x = snapped.includes('left') ? left : rect.x;
+  const y = snapped.includes('top') ? top : rect.y;
+  const rightEdge = snapped.includes('right') ? right + 1 : rect.x + rect.width;
+  const bottomEdge = snapped.includes('bottom') ? bottom + 1 : rect.y + rect.height;
+  return {
+    rect: { x, y, width: rightEdge - x, height: bottomEdge - y },
+    snapped,
+  };
+}
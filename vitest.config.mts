@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Pure TypeScript modules; the few native modules a test touches are vi.mock'ed
+// in that test - nothing here needs the React Native runtime
+export default defineConfig({
+  test: {
+    include: ['src/**/__tests__/**/*.test.ts'],
+    environment: 'node',
+  },
+});